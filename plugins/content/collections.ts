@@ -0,0 +1,231 @@
+import {
+  array,
+  boolean,
+  email,
+  hexColor,
+  link,
+  number,
+  object,
+  optional,
+  string,
+  unique,
+  url,
+  type Infer,
+  type Path,
+  type Schema,
+} from './schema';
+
+/**
+ * Schemas for each file in the `content/` directory.
+ * Keep these in sync with the interfaces in `src/types/content.ts`.
+ */
+
+// Canonical origin, stored without a trailing slash so paths can be appended
+const siteUrl = (): Schema<string> => (value, path, issues) =>
+  url()(value, path, issues).replace(/\/+$/, '');
+
+const site = object({
+  url: siteUrl(),
+  title: string(),
+  description: string({ max: 300 }),
+  // Share image for the home page and blog in place of the generated card, relative to public/
+  image: optional(link()),
+  imageAlt: optional(string()),
+  twitter: optional(string({ pattern: /^@\w{1,15}$/, patternMessage: 'must be a handle such as "@name"' })),
+  language: string({
+    pattern: /^[a-z]{2}(-[A-Z]{2})?$/,
+    patternMessage: 'must be a language tag such as "en" or "en-US"',
+  }),
+  // Layout of /resume.pdf; the other templates are published as /resume-<template>.pdf
+  resumeTemplate: optional(
+    string({ pattern: /^(classic|modern)$/, patternMessage: 'must be "classic" or "modern"' })
+  ),
+  // Crawler rules for robots.txt and the robots meta tag
+  robots: optional(
+    object({
+      index: optional(boolean()),
+      disallow: optional(
+        array(string({ pattern: /^\//, patternMessage: 'must be a path starting with "/"' }))
+      ),
+    })
+  ),
+});
+
+const profile = object({
+  name: string(),
+  initials: string({ max: 3 }),
+  title: string(),
+  subtitle: string(),
+  summary: string(),
+  bio: array(string(), { min: 1 }),
+  email: email(),
+  phone: string({ pattern: /^\+?[0-9 ()-]{7,}$/, patternMessage: 'must be a phone number' }),
+  location: string(),
+  shortLocation: string(),
+  resume: link(),
+  availability: string(),
+  techStack: array(string()),
+});
+
+const skill = object({
+  name: string(),
+  level: number({ min: 0, max: 100 }),
+  icon: optional(string()),
+  color: optional(hexColor()),
+  description: optional(string()),
+  featured: optional(boolean()),
+});
+
+const skills = object({
+  categories: unique(
+    array(
+      object({
+        title: string(),
+        icon: string(),
+        color: string(),
+        skills: array(skill, { min: 1 }),
+      }),
+      { min: 1 }
+    ),
+    'title'
+  ),
+  tools: array(string()),
+});
+
+const SLUG = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export const isSlug = (value: string) => SLUG.test(value);
+
+const slug = () => string({ pattern: SLUG, patternMessage: 'must be a kebab-case slug' });
+
+// Year-month or full ISO date, e.g. `2024-03` or `2024-03-15`
+const date = () =>
+  string({
+    pattern: /^\d{4}-\d{2}(-\d{2})?$/,
+    patternMessage: 'must be a date like 2024-03 or 2024-03-15',
+  });
+
+// Full ISO date, e.g. `2024-03-15`
+const day = () =>
+  string({ pattern: /^\d{4}-\d{2}-\d{2}$/, patternMessage: 'must be a date like 2024-03-15' });
+
+const projects = unique(
+  array(
+    object({
+      id: number({ min: 1, integer: true }),
+      slug: slug(),
+      title: string(),
+      description: string(),
+      categories: array(string(), { min: 1 }),
+      technologies: array(string(), { min: 1 }),
+      features: array(string()),
+      date: optional(date()),
+      featured: optional(boolean()),
+      github: optional(url()),
+      THM: optional(url()),
+      demo: optional(url()),
+      icon: string(),
+      color: string(),
+      image: optional(link()),
+      problem: optional(string()),
+      architecture: optional(array(string())),
+      caseStudy: optional(
+        string({ pattern: /\.mdx?$/, patternMessage: 'must point at a .md or .mdx file' })
+      ),
+      screenshots: optional(
+        array(
+          object({
+            src: link(),
+            alt: string(),
+            caption: optional(string()),
+          })
+        )
+      ),
+    })
+  ),
+  'id',
+  'slug'
+);
+
+const education = unique(
+  array(
+    object({
+      id: number({ min: 1, integer: true }),
+      degree: string(),
+      institution: string(),
+      duration: string(),
+      description: string(),
+      icon: string(),
+      color: string(),
+    })
+  ),
+  'id'
+);
+
+const socials = unique(
+  array(
+    object({
+      id: string({ pattern: /^[a-z0-9-]+$/, patternMessage: 'must be a lowercase slug' }),
+      name: string(),
+      url: url(),
+      icon: string(),
+      label: string(),
+    })
+  ),
+  'id'
+);
+
+export const collections = {
+  site,
+  profile,
+  skills,
+  projects,
+  education,
+  socials,
+} satisfies Record<string, Schema<unknown>>;
+
+export type CollectionName = keyof typeof collections;
+
+// Frontmatter of each `content/blog/<slug>.mdx` post
+export const postFrontmatter = object({
+  title: string(),
+  date: day(),
+  updated: optional(day()),
+  tags: array(slug(), { min: 1 }),
+  summary: string({ max: 300 }),
+  cover: optional(link()),
+});
+
+// A file that a content entry points at
+export interface FileReference {
+  path: Path;
+  file: string;
+}
+
+type References = {
+  [K in CollectionName]?: (data: Infer<(typeof collections)[K]>) => FileReference[];
+};
+
+// Site-relative paths such as `/images/a.png` are served from public/; URLs are skipped
+const publicFile = (path: Path, link: string | undefined): FileReference[] =>
+  link?.startsWith('/') ? [{ path, file: link }] : [];
+
+// Fields naming files inside the content directory
+export const fileReferences: References = {
+  projects: (items) =>
+    items.flatMap((project, index) =>
+      project.caseStudy ? [{ path: [index, 'caseStudy'], file: project.caseStudy }] : []
+    ),
+};
+
+// Fields naming images that must exist in public/
+export const publicReferences: References = {
+  site: (site) => publicFile(['image'], site.image),
+  projects: (items) =>
+    items.flatMap((project, index) => [
+      ...publicFile([index, 'image'], project.image),
+      ...(project.screenshots ?? []).flatMap((shot, shotIndex) =>
+        publicFile([index, 'screenshots', shotIndex, 'src'], shot.src)
+      ),
+    ]),
+};
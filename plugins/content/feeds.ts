@@ -0,0 +1,134 @@
+import type { Content, Post } from './load';
+
+/**
+ * RSS 2.0, Atom and JSON Feed documents for the blog, built from the
+ * validated content so feeds always match what the site renders.
+ */
+
+export const FEED_FILES = {
+  rss: 'rss.xml',
+  atom: 'atom.xml',
+  json: 'feed.json',
+} as const;
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// Posts carry calendar dates; publish them at midnight UTC
+const toDate = (day: string) => new Date(`${day}T00:00:00Z`);
+
+const postUrl = (content: Content, post: Post) => `${content.site.url}/blog/${post.slug}`;
+
+const absolute = (content: Content, link: string) =>
+  link.startsWith('/') ? content.site.url + link : link;
+
+const renderRss = (content: Content): string => {
+  const { site, profile, posts } = content;
+  const items = posts.map((post) =>
+    [
+      '    <item>',
+      `      <title>${escapeXml(post.title)}</title>`,
+      `      <link>${postUrl(content, post)}</link>`,
+      `      <guid isPermaLink="true">${postUrl(content, post)}</guid>`,
+      `      <pubDate>${toDate(post.date).toUTCString()}</pubDate>`,
+      `      <description>${escapeXml(post.summary)}</description>`,
+      ...post.tags.map((tag) => `      <category>${escapeXml(tag)}</category>`),
+      '    </item>',
+    ].join('\n')
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(`${profile.name} — Blog`)}</title>`,
+    `    <link>${site.url}/blog</link>`,
+    `    <description>${escapeXml(site.description)}</description>`,
+    `    <language>${site.language}</language>`,
+    `    <managingEditor>${escapeXml(`${profile.email} (${profile.name})`)}</managingEditor>`,
+    `    <atom:link href="${site.url}/${FEED_FILES.rss}" rel="self" type="application/rss+xml"/>`,
+    ...(posts[0] ? [`    <lastBuildDate>${toDate(posts[0].date).toUTCString()}</lastBuildDate>`] : []),
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+};
+
+const renderAtom = (content: Content): string => {
+  const { site, profile, posts } = content;
+  const updated = posts[0] ? toDate(posts[0].updated ?? posts[0].date) : new Date(0);
+  const entries = posts.map((post) =>
+    [
+      '  <entry>',
+      `    <title>${escapeXml(post.title)}</title>`,
+      `    <link href="${postUrl(content, post)}"/>`,
+      `    <id>${postUrl(content, post)}</id>`,
+      `    <published>${toDate(post.date).toISOString()}</published>`,
+      `    <updated>${toDate(post.updated ?? post.date).toISOString()}</updated>`,
+      `    <summary>${escapeXml(post.summary)}</summary>`,
+      ...post.tags.map((tag) => `    <category term="${escapeXml(tag)}"/>`),
+      '  </entry>',
+    ].join('\n')
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${site.language}">`,
+    `  <title>${escapeXml(`${profile.name} — Blog`)}</title>`,
+    `  <subtitle>${escapeXml(site.description)}</subtitle>`,
+    `  <link href="${site.url}/blog"/>`,
+    `  <link href="${site.url}/${FEED_FILES.atom}" rel="self" type="application/atom+xml"/>`,
+    `  <id>${site.url}/blog</id>`,
+    `  <updated>${updated.toISOString()}</updated>`,
+    '  <author>',
+    `    <name>${escapeXml(profile.name)}</name>`,
+    `    <email>${escapeXml(profile.email)}</email>`,
+    '  </author>',
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+};
+
+// https://www.jsonfeed.org/version/1.1/
+const renderJsonFeed = (content: Content): string => {
+  const { site, profile, posts } = content;
+
+  return JSON.stringify(
+    {
+      version: 'https://jsonfeed.org/version/1.1',
+      title: `${profile.name} — Blog`,
+      home_page_url: `${site.url}/blog`,
+      feed_url: `${site.url}/${FEED_FILES.json}`,
+      description: site.description,
+      language: site.language,
+      authors: [{ name: profile.name, url: site.url }],
+      items: posts.map((post) => ({
+        id: postUrl(content, post),
+        url: postUrl(content, post),
+        title: post.title,
+        summary: post.summary,
+        content_text: post.summary,
+        ...(post.cover && { image: absolute(content, post.cover) }),
+        date_published: toDate(post.date).toISOString(),
+        ...(post.updated && { date_modified: toDate(post.updated).toISOString() }),
+        tags: post.tags,
+      })),
+    },
+    null,
+    2
+  );
+};
+
+// Feed documents keyed by the file name they are published under
+export const renderFeeds = (content: Content): Record<string, string> => ({
+  [FEED_FILES.rss]: renderRss(content),
+  [FEED_FILES.atom]: renderAtom(content),
+  [FEED_FILES.json]: renderJsonFeed(content),
+});
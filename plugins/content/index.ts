@@ -0,0 +1,126 @@
+import path from 'path';
+import type { Plugin, ViteDevServer } from 'vite';
+import { collections } from './collections';
+import { FEED_FILES, renderFeeds } from './feeds';
+import { JSON_RESUME_FILE, renderJsonResume } from './jsonResume';
+import { ContentError, loadContent, type Content, type Post } from './load';
+import { renderSeoFiles } from './sitemap';
+
+export { ContentError, loadContent, renderFeeds, renderSeoFiles, type Content, type Post };
+
+const VIRTUAL_PREFIX = 'virtual:content/';
+const RESOLVED_PREFIX = `\0${VIRTUAL_PREFIX}`;
+
+// One virtual module per collection, plus the blog post index
+const MODULES = [...Object.keys(collections), 'posts'];
+
+// Files published at the site root, keyed by name
+const generatedFiles = (content: Content): Record<string, string> => ({
+  ...renderFeeds(content),
+  ...renderSeoFiles(content),
+  [JSON_RESUME_FILE]: renderJsonResume(content),
+});
+
+interface ContentPluginOptions {
+  // Directory holding the content files, relative to the project root
+  dir?: string;
+}
+
+/**
+ * Loads `content/*.{yaml,yml,json}`, validates it and exposes each file as
+ * a virtual module, e.g. `import projects from 'virtual:content/projects'`.
+ * Blog post frontmatter is exposed as `virtual:content/posts` and the
+ * RSS, Atom and JSON feeds, `sitemap.xml`, `robots.txt` and the JSON Resume
+ * export (`resume.json`) are written next to the built site.
+ * Invalid content fails `vite build` and shows the error overlay in dev.
+ */
+export const contentPlugin = ({ dir = 'content' }: ContentPluginOptions = {}): Plugin => {
+  let contentDir = '';
+  let publicDir = '';
+  let cache: Content | null = null;
+
+  const getContent = () => {
+    cache ??= loadContent(contentDir, { publicDir });
+    return cache;
+  };
+
+  const reload = (server: ViteDevServer) => {
+    cache = null;
+    for (const name of MODULES) {
+      const module = server.moduleGraph.getModuleById(RESOLVED_PREFIX + name);
+      if (module) server.moduleGraph.invalidateModule(module);
+    }
+    server.ws.send({ type: 'full-reload' });
+  };
+
+  return {
+    name: 'portfolio-content',
+
+    configResolved(config) {
+      contentDir = path.resolve(config.root, dir);
+      publicDir = config.publicDir;
+    },
+
+    buildStart() {
+      try {
+        cache = null;
+        getContent();
+      } catch (error) {
+        if (error instanceof ContentError) this.error(error.message);
+        throw error;
+      }
+    },
+
+    configureServer(server) {
+      // Serve the generated files in dev so readers and validators can be pointed at them
+      const contentTypes: Record<string, string> = {
+        [FEED_FILES.json]: 'application/feed+json',
+        '.json': 'application/json',
+        '.xml': 'application/xml',
+        '.txt': 'text/plain; charset=utf-8',
+      };
+      server.middlewares.use((req, res, next) => {
+        const name = req.url?.split('?')[0]?.slice(1) ?? '';
+        const source = generatedFiles(getContent())[name];
+        if (source === undefined) return next();
+        res.setHeader(
+          'Content-Type',
+          contentTypes[name] ?? contentTypes[path.extname(name)] ?? 'text/plain'
+        );
+        res.end(source);
+      });
+
+      server.watcher.add(contentDir);
+      server.watcher.on('all', (event, file) => {
+        if (!file.startsWith(contentDir)) return;
+        // Edits to MDX case studies are hot-updated by Vite like any other module
+        if (event === 'change' && /\.mdx?$/.test(file)) return;
+        reload(server);
+      });
+    },
+
+    resolveId(id) {
+      if (id.startsWith(VIRTUAL_PREFIX)) {
+        const name = id.slice(VIRTUAL_PREFIX.length);
+        if (MODULES.includes(name)) return RESOLVED_PREFIX + name;
+        this.error(`Unknown content module "${id}"`);
+      }
+      return null;
+    },
+
+    load(id) {
+      if (!id.startsWith(RESOLVED_PREFIX)) return null;
+
+      const name = id.slice(RESOLVED_PREFIX.length) as keyof Content;
+      return `export default ${JSON.stringify(getContent()[name])};`;
+    },
+
+    generateBundle() {
+      for (const [fileName, source] of Object.entries(generatedFiles(getContent()))) {
+        this.emitFile({ type: 'asset', fileName, source });
+      }
+    },
+  };
+};
+
+export default contentPlugin;
@@ -0,0 +1,372 @@
+import { isSlug } from './collections';
+import type { Content } from './load';
+
+/**
+ * Conversion between the portfolio content and the JSON Resume schema
+ * (https://jsonresume.org/schema). The build publishes the content as
+ * `/resume.json`; `npm run import:resume` goes the other way to seed the
+ * content files from someone's existing resume.
+ */
+
+export const JSON_RESUME_FILE = 'resume.json';
+
+const SCHEMA_URL = 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json';
+
+// The parts of the schema this project reads and writes; every field is optional
+export interface JsonResume {
+  $schema?: string;
+  basics?: {
+    name?: string;
+    label?: string;
+    image?: string;
+    email?: string;
+    phone?: string;
+    url?: string;
+    summary?: string;
+    location?: {
+      address?: string;
+      postalCode?: string;
+      city?: string;
+      countryCode?: string;
+      region?: string;
+    };
+    profiles?: { network?: string; username?: string; url?: string }[];
+  };
+  education?: {
+    institution?: string;
+    url?: string;
+    area?: string;
+    studyType?: string;
+    startDate?: string;
+    endDate?: string;
+    score?: string;
+    courses?: string[];
+  }[];
+  skills?: { name?: string; level?: string; keywords?: string[] }[];
+  projects?: {
+    name?: string;
+    description?: string;
+    highlights?: string[];
+    keywords?: string[];
+    startDate?: string;
+    endDate?: string;
+    url?: string;
+    roles?: string[];
+    type?: string;
+  }[];
+  meta?: { canonical?: string; version?: string; lastModified?: string };
+}
+
+const MONTHS = [
+  'january',
+  'february',
+  'march',
+  'april',
+  'may',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december',
+];
+
+// `August 2022` or `Aug 2022` → `2022-08`; anything else is left out
+const toIsoMonth = (text: string): string | undefined => {
+  const match = /^([a-z]+)\.?\s+(\d{4})$/i.exec(text.trim());
+  if (!match) return /^\d{4}$/.test(text.trim()) ? text.trim() : undefined;
+  const month = MONTHS.findIndex((name) => name.startsWith(match[1]!.toLowerCase().slice(0, 3)));
+  return month === -1 ? undefined : `${match[2]}-${String(month + 1).padStart(2, '0')}`;
+};
+
+// `2022-08` → `August 2022`; `2022` stays as it is
+const fromIsoDate = (date: string): string => {
+  const [year, month] = date.split('-');
+  const name = month ? MONTHS[Number(month) - 1] : undefined;
+  return name ? `${name[0]!.toUpperCase()}${name.slice(1)} ${year}` : year!;
+};
+
+// Education durations such as `August 2022 - May 2026` or `2019 – Present`
+const parseDuration = (duration: string) => {
+  const [start = '', end = ''] = duration.split(/\s+[-–—]\s+/);
+  return { startDate: toIsoMonth(start), endDate: toIsoMonth(end) };
+};
+
+const definedOnly = <T extends object>(value: T): T =>
+  Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as T;
+
+// --- Export ---
+
+export const toJsonResume = (content: Content): JsonResume => {
+  const { site, profile, skills, projects, education, socials } = content;
+
+  return {
+    $schema: SCHEMA_URL,
+    basics: {
+      name: profile.name,
+      label: profile.title,
+      email: profile.email,
+      phone: profile.phone,
+      url: site.url,
+      summary: profile.summary,
+      location: { address: profile.location },
+      profiles: socials.map((social) => ({
+        network: social.name,
+        username: new URL(social.url).pathname.split('/').filter(Boolean).pop() ?? '',
+        url: social.url,
+      })),
+    },
+    education: education.map((item) =>
+      definedOnly({
+        institution: item.institution,
+        studyType: item.degree,
+        ...parseDuration(item.duration),
+      })
+    ),
+    skills: [
+      ...skills.categories.map((category) => ({
+        name: category.title,
+        keywords: category.skills.map((skill) => skill.name),
+      })),
+      ...(skills.tools.length > 0 ? [{ name: 'Tools', keywords: skills.tools }] : []),
+    ],
+    projects: projects.map((project) =>
+      definedOnly({
+        name: project.title,
+        description: project.description,
+        highlights: project.features,
+        keywords: project.technologies,
+        startDate: project.date,
+        url: project.demo ?? project.github ?? `${site.url}/projects/${project.slug}`,
+        type: project.categories.join(', '),
+      })
+    ),
+    meta: { canonical: `${site.url}/${JSON_RESUME_FILE}`, version: 'v1.0.0' },
+  };
+};
+
+export const renderJsonResume = (content: Content): string =>
+  JSON.stringify(toJsonResume(content), null, 2);
+
+// --- Import ---
+
+// Tailwind gradients the sections cycle through for imported entries
+const GRADIENTS = [
+  'from-blue-500 to-cyan-500',
+  'from-purple-500 to-pink-500',
+  'from-green-500 to-teal-500',
+  'from-orange-500 to-red-500',
+];
+
+const SOCIAL_ICONS: Record<string, string> = {
+  github: '🐙',
+  linkedin: '💼',
+  twitter: '🐦',
+  x: '🐦',
+  tryhackme: '🔐',
+  medium: '✍️',
+  dev: '✍️',
+  stackoverflow: '📚',
+};
+
+// JSON Resume skill levels are free text; map the common words onto 0–100
+const SKILL_LEVELS: Record<string, number> = {
+  beginner: 40,
+  novice: 40,
+  intermediate: 65,
+  advanced: 85,
+  expert: 95,
+  master: 95,
+};
+
+const toSlug = (text: string) =>
+  text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+const gradient = (index: number) => GRADIENTS[index % GRADIENTS.length]!;
+
+const compact = (parts: (string | undefined)[]) => parts.filter((part): part is string => !!part);
+
+// Content dates are `YYYY-MM` or `YYYY-MM-DD`; a bare year has no equivalent
+const contentDate = (date: string | undefined) =>
+  date && /^\d{4}-\d{2}(-\d{2})?$/.test(date) ? date : undefined;
+
+// Values the resume doesn't provide; the importer lists them so they can be reviewed
+export interface ImportResult {
+  files: Record<string, unknown>;
+  placeholders: string[];
+}
+
+/**
+ * Content files (keyed by file name, without extension) for a JSON Resume.
+ * `site` carries over the settings that aren't about the person.
+ * Throws when the resume lacks a name or email, which nothing can stand in for.
+ */
+export const fromJsonResume = (
+  resume: JsonResume,
+  site: Partial<Content['site']>
+): ImportResult => {
+  const basics = resume.basics ?? {};
+  const placeholders: string[] = [];
+  const fallback = <T>(field: string, value: T | undefined, placeholder: T): T => {
+    if (value !== undefined && value !== '') return value;
+    placeholders.push(field);
+    return placeholder;
+  };
+
+  if (!basics.name || !basics.email) {
+    throw new Error('The resume needs at least basics.name and basics.email');
+  }
+
+  const location = basics.location ?? {};
+  const skills = resume.skills ?? [];
+  const title = fallback('profile.title', basics.label, 'Software Developer');
+  const summary = fallback('profile.summary', basics.summary, `${basics.name}, ${title}.`);
+  const keywords = skills.flatMap((skill) => skill.keywords ?? []);
+
+  const profile = {
+    name: basics.name,
+    initials: basics.name
+      .split(/\s+/)
+      .map((word) => word[0]?.toUpperCase())
+      .join('')
+      .slice(0, 3),
+    title,
+    subtitle: fallback(
+      'profile.subtitle',
+      compact(skills.slice(0, 2).map((skill) => skill.name)).join(' | '),
+      title
+    ),
+    summary,
+    bio: summary.split(/\n\s*\n/).map((paragraph) => paragraph.replace(/\s+/g, ' ').trim()),
+    email: basics.email,
+    phone: fallback('profile.phone', basics.phone, '+00 000 000 0000'),
+    location: fallback(
+      'profile.location',
+      location.address ||
+        compact([location.city, location.region, location.countryCode]).join(', '),
+      'Remote'
+    ),
+    shortLocation: fallback(
+      'profile.shortLocation',
+      compact([location.city, location.region ?? location.countryCode]).join(', ') ||
+        location.address,
+      'Remote'
+    ),
+    resume: '/resume.pdf',
+    availability: fallback('profile.availability', undefined, 'Open to new opportunities.'),
+    techStack: keywords.slice(0, 6),
+  };
+
+  const levelOf = (level: string | undefined) => SKILL_LEVELS[level?.toLowerCase() ?? ''] ?? 75;
+
+  const skillsFile = {
+    categories: skills
+      .filter((skill) => skill.name)
+      .map((skill, index) => ({
+        title: skill.name!,
+        icon: '🛠️',
+        color: gradient(index),
+        skills: (skill.keywords?.length ? skill.keywords : [skill.name!]).map((name) => ({
+          name,
+          level: levelOf(skill.level),
+        })),
+      })),
+    tools: [],
+  };
+
+  const usedSlugs = new Set<string>();
+  const projects = (resume.projects ?? [])
+    .filter((project) => project.name)
+    .map((project, index) => {
+      let slug = toSlug(project.name!) || `project-${index + 1}`;
+      if (usedSlugs.has(slug)) slug = `${slug}-${index + 1}`;
+      usedSlugs.add(slug);
+      const isRepository = project.url && /github\.com|gitlab\.com/.test(project.url);
+
+      return definedOnly({
+        id: index + 1,
+        slug: isSlug(slug) ? slug : `project-${index + 1}`,
+        title: project.name!,
+        description: project.description ?? project.highlights?.[0] ?? project.name!,
+        categories: project.type ? project.type.split(/\s*,\s*/) : ['Project'],
+        technologies: project.keywords?.length ? project.keywords : ['Other'],
+        features: project.highlights ?? [],
+        date: contentDate(project.startDate),
+        github: isRepository ? project.url : undefined,
+        demo: isRepository ? undefined : project.url,
+        icon: '🚀',
+        color: gradient(index),
+      });
+    });
+
+  const education = (resume.education ?? [])
+    .filter((item) => item.institution)
+    .map((item, index) => {
+      const degree = fallback(
+        `education[${index}].degree`,
+        compact([item.studyType, item.area]).join(' in '),
+        'Studies'
+      );
+      const duration = compact([
+        item.startDate && fromIsoDate(item.startDate),
+        item.endDate ? fromIsoDate(item.endDate) : item.startDate && 'Present',
+      ]).join(' - ');
+      return {
+        id: index + 1,
+        degree,
+        institution: item.institution!,
+        duration: fallback(`education[${index}].duration`, duration, 'Ongoing'),
+        description:
+          item.courses?.join(', ') ||
+          (item.score ? `${degree}, ${item.score}.` : `${degree} at ${item.institution}.`),
+        icon: '🎓',
+        color: gradient(index),
+      };
+    });
+
+  const usedIds = new Set<string>();
+  const socials = (basics.profiles ?? [])
+    .filter((profile) => profile.network && profile.url)
+    .map((profile) => {
+      let id = toSlug(profile.network!) || 'profile';
+      while (usedIds.has(id)) id = `${id}-${usedIds.size + 1}`;
+      usedIds.add(id);
+      return {
+        id,
+        name: profile.network!,
+        url: profile.url!,
+        icon: SOCIAL_ICONS[id] ?? '🔗',
+        label: profile.username || profile.network!,
+      };
+    });
+
+  const twitter = basics.profiles?.find((profile) => /^(twitter|x)$/i.test(profile.network ?? ''));
+
+  const siteFile = definedOnly({
+    ...site,
+    url: basics.url ?? fallback('site.url', site.url, 'https://example.com'),
+    title: `${basics.name} | ${title}`,
+    description: summary.replace(/\s+/g, ' ').slice(0, 300),
+    twitter: twitter?.username ? `@${twitter.username.replace(/^@/, '')}` : undefined,
+    image: undefined,
+    imageAlt: undefined,
+    language: site.language ?? 'en',
+  });
+
+  return {
+    files: {
+      site: siteFile,
+      profile,
+      skills: skillsFile,
+      projects,
+      education,
+      socials,
+    },
+    placeholders,
+  };
+};
@@ -0,0 +1,198 @@
+import fs from 'fs';
+import path from 'path';
+import { LineCounter, parseDocument } from 'yaml';
+import {
+  collections,
+  fileReferences,
+  isSlug,
+  postFrontmatter,
+  publicReferences,
+  type CollectionName,
+  type FileReference,
+} from './collections';
+import { formatPath, type Infer, type Issue, type Path } from './schema';
+
+export type Post = Infer<typeof postFrontmatter> & { slug: string; readingTime: number };
+
+export type Content = { [K in CollectionName]: Infer<(typeof collections)[K]> } & {
+  posts: Post[];
+};
+
+const EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+// Blog posts live in `<dir>/blog/<slug>.mdx` and start with a YAML frontmatter block
+const POSTS_DIR = 'blog';
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/;
+const WORDS_PER_MINUTE = 200;
+
+// Raised when content files are missing, unparsable or fail validation
+export class ContentError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid portfolio content:\n${problems.map((line) => `  - ${line}`).join('\n')}`);
+    this.name = 'ContentError';
+  }
+}
+
+interface ParsedFile {
+  data: unknown;
+  locate: (path: Path) => string;
+}
+
+// `lineOffset` shifts reported lines for YAML embedded further down a file
+const parseYaml = (source: string, relative: string, lineOffset = 0): ParsedFile => {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(source, { lineCounter });
+  if (doc.errors.length > 0) {
+    throw new ContentError(doc.errors.map((error) => `${relative}: ${error.message}`));
+  }
+
+  // Point at the closest existing node so missing fields report their parent
+  const locate = (fieldPath: Path) => {
+    for (let depth = fieldPath.length; depth >= 0; depth--) {
+      const node = doc.getIn(fieldPath.slice(0, depth), true) as
+        | { range?: [number, number, number] }
+        | undefined;
+      if (node?.range) {
+        const { line, col } = lineCounter.linePos(node.range[0]);
+        return `${relative}:${line + lineOffset}:${col}`;
+      }
+    }
+    return relative;
+  };
+
+  return { data: doc.toJS(), locate };
+};
+
+const parseFile = (file: string, relative: string): ParsedFile => {
+  const source = fs.readFileSync(file, 'utf-8');
+
+  if (file.endsWith('.json')) {
+    try {
+      return { data: JSON.parse(source), locate: () => relative };
+    } catch (error) {
+      throw new ContentError([`${relative}: ${(error as Error).message}`]);
+    }
+  }
+
+  return parseYaml(source, relative);
+};
+
+// The single `<name>.{yaml,yml,json}` in `dir`, if any
+export const findFile = (dir: string, name: string): string | undefined => {
+  const matches = EXTENSIONS.map((ext) => path.join(dir, name + ext)).filter((file) =>
+    fs.existsSync(file)
+  );
+  if (matches.length > 1) {
+    throw new ContentError([
+      `content/${name}: found ${matches.map((file) => path.basename(file)).join(' and ')}, keep only one`,
+    ]);
+  }
+  return matches[0];
+};
+
+// Report each reference whose file is missing from `baseDir`
+const checkReferences = (references: FileReference[], baseDir: string): Issue[] =>
+  references
+    .filter((reference) => !fs.existsSync(path.join(baseDir, reference.file)))
+    .map((reference) => ({
+      path: reference.path,
+      message: `points at ${path.join(path.relative(process.cwd(), baseDir), reference.file)}, which does not exist`,
+    }));
+
+interface LoadOptions {
+  // Directory that site-relative images (`/images/a.png`) are served from
+  publicDir?: string;
+}
+
+/**
+ * Read and validate every content collection in `dir`.
+ * Throws a ContentError listing each problem as `file:line:col field: message`.
+ */
+export const loadContent = (dir: string, { publicDir }: LoadOptions = {}): Content => {
+  const problems: string[] = [];
+  const content: Partial<Record<keyof Content, unknown>> = {};
+
+  for (const [name, schema] of Object.entries(collections)) {
+    const file = findFile(dir, name);
+    const relative = path.relative(process.cwd(), file ?? path.join(dir, name));
+
+    if (!file) {
+      problems.push(`${relative}: missing (expected ${name}.yaml, ${name}.yml or ${name}.json)`);
+      continue;
+    }
+
+    const { data, locate } = parseFile(file, relative);
+    const issues: Issue[] = [];
+    const value = schema(data, [], issues);
+    content[name as CollectionName] = value;
+
+    type Find = ((data: unknown) => FileReference[]) | undefined;
+    const files = fileReferences[name as CollectionName] as Find;
+    const images = publicReferences[name as CollectionName] as Find;
+    issues.push(...checkReferences(files?.(value) ?? [], dir));
+    if (publicDir) issues.push(...checkReferences(images?.(value) ?? [], publicDir));
+
+    for (const issue of issues) {
+      problems.push(`${locate(issue.path)} ${formatPath(issue.path)}: ${issue.message}`);
+    }
+  }
+
+  content.posts = loadPosts(path.join(dir, POSTS_DIR), problems, publicDir);
+
+  if (problems.length > 0) throw new ContentError(problems);
+
+  return content as Content;
+};
+
+// Rough minutes to read the prose, ignoring code blocks, imports and JSX tags
+const readingTime = (body: string): number => {
+  const prose = body
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/^(import|export) .*$/gm, ' ')
+    .replace(/<[^>]+>/g, ' ');
+  const words = prose.split(/\s+/).filter((word) => /\w/.test(word)).length;
+  return Math.max(1, Math.round(words / WORDS_PER_MINUTE));
+};
+
+/**
+ * Read the frontmatter of every post in `dir`, newest first.
+ * Problems are appended to `problems` in the same format as other content.
+ */
+export const loadPosts = (dir: string, problems: string[], publicDir?: string): Post[] => {
+  if (!fs.existsSync(dir)) return [];
+
+  const posts: Post[] = [];
+
+  for (const name of fs.readdirSync(dir).sort()) {
+    if (!/\.mdx?$/.test(name)) continue;
+
+    const file = path.join(dir, name);
+    const relative = path.relative(process.cwd(), file);
+    const slug = name.replace(/\.mdx?$/, '');
+    const source = fs.readFileSync(file, 'utf-8');
+    const match = FRONTMATTER.exec(source);
+
+    if (!isSlug(slug)) {
+      problems.push(`${relative}: file name must be a kebab-case slug such as my-first-post.mdx`);
+    }
+    if (!match) {
+      problems.push(`${relative}: missing frontmatter (start the file with a --- block)`);
+      continue;
+    }
+
+    // The frontmatter starts on line 2, after the opening ---
+    const { data, locate } = parseYaml(match[1] ?? '', relative, 1);
+    const issues: Issue[] = [];
+    const frontmatter = postFrontmatter(data, [], issues);
+    if (publicDir && frontmatter.cover?.startsWith('/')) {
+      issues.push(...checkReferences([{ path: ['cover'], file: frontmatter.cover }], publicDir));
+    }
+    for (const issue of issues) {
+      problems.push(`${locate(issue.path)} ${formatPath(issue.path)}: ${issue.message}`);
+    }
+
+    posts.push({ ...frontmatter, slug, readingTime: readingTime(source.slice(match[0].length)) });
+  }
+
+  return posts.sort((a, b) => b.date.localeCompare(a.date));
+};
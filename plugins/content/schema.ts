@@ -0,0 +1,215 @@
+/**
+ * Minimal declarative schema helpers for validating content files.
+ * Every validator records issues with the path of the offending field
+ * instead of throwing, so one build reports every problem at once.
+ */
+
+export type Path = (string | number)[];
+
+export interface Issue {
+  path: Path;
+  message: string;
+}
+
+export type Schema<T> = (value: unknown, path: Path, issues: Issue[]) => T;
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `"${value}"`;
+  if (typeof value === 'object') return 'an object';
+  return String(value);
+};
+
+// Format a path as `[0].skills[2].level`
+export const formatPath = (path: Path): string =>
+  path
+    .map((key, index) =>
+      typeof key === 'number' ? `[${key}]` : index === 0 ? key : `.${key}`
+    )
+    .join('') || '(root)';
+
+interface StringOptions {
+  min?: number;
+  max?: number;
+  pattern?: RegExp;
+  patternMessage?: string;
+}
+
+export const string =
+  ({ min = 1, max, pattern, patternMessage }: StringOptions = {}): Schema<string> =>
+  (value, path, issues) => {
+    if (typeof value !== 'string') {
+      issues.push({ path, message: `expected a string, got ${describe(value)}` });
+      return '';
+    }
+    const text = value.trim();
+    if (text.length < min) {
+      issues.push({
+        path,
+        message: min === 1 ? 'must not be empty' : `must be at least ${min} characters`,
+      });
+    }
+    if (max !== undefined && text.length > max) {
+      issues.push({ path, message: `must be at most ${max} characters` });
+    }
+    if (pattern && !pattern.test(text)) {
+      issues.push({ path, message: patternMessage ?? `must match ${pattern}` });
+    }
+    return text;
+  };
+
+interface NumberOptions {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+export const number =
+  ({ min, max, integer = false }: NumberOptions = {}): Schema<number> =>
+  (value, path, issues) => {
+    if (typeof value !== 'number' || Number.isNaN(value)) {
+      issues.push({ path, message: `expected a number, got ${describe(value)}` });
+      return 0;
+    }
+    if (integer && !Number.isInteger(value)) {
+      issues.push({ path, message: `must be a whole number (got ${value})` });
+    }
+    if (min !== undefined && value < min) {
+      issues.push({ path, message: `must be at least ${min} (got ${value})` });
+    }
+    if (max !== undefined && value > max) {
+      issues.push({ path, message: `must be at most ${max} (got ${value})` });
+    }
+    return value;
+  };
+
+export const boolean = (): Schema<boolean> => (value, path, issues) => {
+  if (typeof value !== 'boolean') {
+    issues.push({ path, message: `expected true or false, got ${describe(value)}` });
+    return false;
+  }
+  return value;
+};
+
+// Absolute http(s) URL
+export const url = (): Schema<string> => (value, path, issues) => {
+  const text = string()(value, path, issues);
+  if (!text) return text;
+  try {
+    const parsed = new URL(text);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      issues.push({ path, message: `must be an http(s) URL (got "${text}")` });
+    }
+  } catch {
+    issues.push({ path, message: `is not a valid URL (got "${text}")` });
+  }
+  return text;
+};
+
+// Site-relative path such as `/resume.pdf`, or an absolute URL
+export const link = (): Schema<string> => (value, path, issues) => {
+  if (typeof value === 'string' && value.startsWith('/')) {
+    return string()(value, path, issues);
+  }
+  return url()(value, path, issues);
+};
+
+export const email = (): Schema<string> =>
+  string({
+    pattern: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
+    patternMessage: 'must be a valid email address',
+  });
+
+export const hexColor = (): Schema<string> =>
+  string({
+    pattern: /^#[0-9a-f]{6}$/i,
+    patternMessage: 'must be a hex color such as "#64FFDA"',
+  });
+
+export const array =
+  <T>(item: Schema<T>, { min = 0 }: { min?: number } = {}): Schema<T[]> =>
+  (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: `expected a list, got ${describe(value)}` });
+      return [];
+    }
+    if (value.length < min) {
+      issues.push({ path, message: `must contain at least ${min} item(s)` });
+    }
+    return value.map((entry, index) => item(entry, [...path, index], issues));
+  };
+
+// Marks a schema as optional; missing (or null) values are left out
+export interface OptionalSchema<T> extends Schema<T | undefined> {
+  optional: true;
+}
+
+export const optional = <T>(schema: Schema<T>): OptionalSchema<T> =>
+  Object.assign<Schema<T | undefined>, { optional: true }>(
+    (value, path, issues) =>
+      value === undefined || value === null ? undefined : schema(value, path, issues),
+    { optional: true }
+  );
+
+type Shape = Record<string, Schema<unknown>>;
+
+type ObjectOf<S extends Shape> = {
+  [K in keyof S as S[K] extends OptionalSchema<unknown> ? never : K]: Infer<S[K]>;
+} & {
+  [K in keyof S as S[K] extends OptionalSchema<unknown> ? K : never]?: Exclude<
+    Infer<S[K]>,
+    undefined
+  >;
+};
+
+export const object =
+  <S extends Shape>(shape: S): Schema<ObjectOf<S>> =>
+  (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push({ path, message: `expected an object, got ${describe(value)}` });
+      return {} as ObjectOf<S>;
+    }
+
+    const input = value as Record<string, unknown>;
+    const output: Record<string, unknown> = {};
+
+    for (const key of Object.keys(input)) {
+      if (!(key in shape)) {
+        issues.push({ path: [...path, key], message: 'is not a known field' });
+      }
+    }
+
+    for (const [key, schema] of Object.entries(shape)) {
+      if (input[key] === undefined && !('optional' in schema)) {
+        issues.push({ path: [...path, key], message: 'is required' });
+        continue;
+      }
+      const result = schema(input[key], [...path, key], issues);
+      if (result !== undefined) output[key] = result;
+    }
+
+    return output as ObjectOf<S>;
+  };
+
+// Reports duplicate values of each of `keys` within a list
+export const unique =
+  <T>(schema: Schema<T[]>, ...keys: (keyof T & string)[]): Schema<T[]> =>
+  (value, path, issues) => {
+    const items = schema(value, path, issues);
+    for (const key of keys) {
+      const seen = new Set<unknown>();
+      items.forEach((item, index) => {
+        if (seen.has(item[key])) {
+          issues.push({
+            path: [...path, index, key],
+            message: `duplicates an earlier entry (${describe(item[key])})`,
+          });
+        }
+        seen.add(item[key]);
+      });
+    }
+    return items;
+  };
@@ -0,0 +1,90 @@
+import type { Content } from './load';
+
+/**
+ * `sitemap.xml` and `robots.txt` for the built site. Both are derived from
+ * `content/site.yaml` and the same content that decides which pages are
+ * prerendered, so every published URL is listed exactly once.
+ */
+
+export const SEO_FILES = {
+  sitemap: 'sitemap.xml',
+  robots: 'robots.txt',
+} as const;
+
+interface SitemapEntry {
+  path: string;
+  lastmod?: string | undefined;
+  priority: number;
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Content dates are `YYYY-MM` or `YYYY-MM-DD`, both valid W3C dates, so they compare as strings
+const latest = (dates: (string | undefined)[]) =>
+  dates.filter((date): date is string => !!date).sort().pop();
+
+// Section anchors (`/#projects`) are parts of the home page, not separate documents,
+// so crawlers ignore them; the home page entry covers them
+const entries = (content: Content): SitemapEntry[] => {
+  const { projects, posts } = content;
+  const postDates = posts.map((post) => post.updated ?? post.date);
+
+  return [
+    {
+      path: '/',
+      lastmod: latest([...projects.map((project) => project.date), ...postDates]),
+      priority: 1,
+    },
+    ...projects.map((project) => ({
+      path: `/projects/${project.slug}`,
+      lastmod: project.date,
+      priority: project.featured ? 0.8 : 0.6,
+    })),
+    { path: '/blog', lastmod: latest(postDates), priority: 0.7 },
+    ...posts.map((post) => ({
+      path: `/blog/${post.slug}`,
+      lastmod: post.updated ?? post.date,
+      priority: 0.6,
+    })),
+    { path: '/resume', priority: 0.5 },
+  ];
+};
+
+export const renderSitemap = (content: Content): string => {
+  const { url } = content.site;
+  const urls = entries(content).map((entry) =>
+    [
+      '  <url>',
+      `    <loc>${escapeXml(url + (entry.path === '/' ? '/' : entry.path))}</loc>`,
+      ...(entry.lastmod ? [`    <lastmod>${entry.lastmod}</lastmod>`] : []),
+      `    <priority>${entry.priority.toFixed(1)}</priority>`,
+      '  </url>',
+    ].join('\n')
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls,
+    '</urlset>',
+    '',
+  ].join('\n');
+};
+
+// `robots.index: false` blocks everything, e.g. for a preview deployment
+export const renderRobots = (content: Content): string => {
+  const { url, robots } = content.site;
+  const rules =
+    robots?.index === false
+      ? ['Disallow: /']
+      : [...(robots?.disallow ?? []).map((path) => `Disallow: ${path}`), 'Allow: /'];
+
+  return ['User-agent: *', ...rules, '', `Sitemap: ${url}/${SEO_FILES.sitemap}`, ''].join('\n');
+};
+
+// Documents keyed by the file name they are published under
+export const renderSeoFiles = (content: Content): Record<string, string> => ({
+  [SEO_FILES.sitemap]: renderSitemap(content),
+  [SEO_FILES.robots]: renderRobots(content),
+});
@@ -0,0 +1,164 @@
+import fs from 'fs';
+import { createRequire } from 'module';
+import satori from 'satori';
+import { Resvg } from '@resvg/resvg-js';
+
+/**
+ * Renders social preview cards to PNG entirely offline: satori lays the card
+ * out as SVG with a bundled font, resvg rasterises it.
+ * The card content comes from `src/utils/shareImages.ts` via the server entry.
+ */
+
+// Mirrors `ShareImage` in src/utils/shareImages.ts
+export interface ShareImage {
+  path: string;
+  eyebrow: string;
+  title: string;
+  description: string;
+  tags: string[];
+  author: { name: string; title: string; initials: string };
+  domain: string;
+  theme: {
+    background: string;
+    surface: string;
+    accent: string;
+    text: string;
+    textSecondary: string;
+    muted: string;
+  };
+}
+
+export const WIDTH = 1200;
+export const HEIGHT = 630;
+
+const { resolve } = createRequire(import.meta.url);
+
+const loadFonts = () =>
+  ([400, 700, 800] as const).map((weight) => ({
+    name: 'Inter',
+    weight,
+    style: 'normal' as const,
+    data: fs.readFileSync(resolve(`@fontsource/inter/files/inter-latin-${weight}-normal.woff`)),
+  }));
+
+let fonts: ReturnType<typeof loadFonts> | undefined;
+
+// Satori takes React-shaped elements; building them by hand keeps JSX out of the plugins
+interface Node {
+  type: string;
+  props: { style?: Record<string, unknown>; children?: Node | string | (Node | string)[] };
+}
+
+const h = (type: string, style: Record<string, unknown>, ...children: (Node | string)[]): Node => ({
+  type,
+  props: { style: { display: 'flex', ...style }, children },
+});
+
+// Cut long text at a word boundary so it fits the space given to it
+const truncate = (text: string, max: number) => {
+  if (text.length <= max) return text;
+  const cut = text.slice(0, max);
+  const space = cut.lastIndexOf(' ');
+  return `${(space > 0 ? cut.slice(0, space) : cut).replace(/[\s,.;:]+$/, '')}…`;
+};
+
+const layout = (image: ShareImage): Node => {
+  const { theme, author } = image;
+  const title = truncate(image.title, 70);
+
+  return h(
+    'div',
+    {
+      width: WIDTH,
+      height: HEIGHT,
+      flexDirection: 'column',
+      justifyContent: 'space-between',
+      padding: '64px 72px',
+      fontFamily: 'Inter',
+      color: theme.text,
+      backgroundColor: theme.background,
+      backgroundImage: `radial-gradient(circle at 100% 0%, ${theme.surface} 0%, ${theme.background} 60%)`,
+      borderLeft: `12px solid ${theme.accent}`,
+    },
+    h(
+      'div',
+      { alignItems: 'center', gap: 20 },
+      h(
+        'div',
+        {
+          width: 64,
+          height: 64,
+          alignItems: 'center',
+          justifyContent: 'center',
+          borderRadius: 16,
+          border: `3px solid ${theme.accent}`,
+          color: theme.accent,
+          fontSize: 26,
+          fontWeight: 800,
+        },
+        author.initials
+      ),
+      h(
+        'div',
+        { flexDirection: 'column' },
+        h('div', { fontSize: 28, fontWeight: 700 }, author.name),
+        h('div', { fontSize: 22, color: theme.textSecondary }, author.title)
+      )
+    ),
+    h(
+      'div',
+      { flexDirection: 'column', gap: 20 },
+      h(
+        'div',
+        { fontSize: 22, fontWeight: 700, color: theme.accent, letterSpacing: 3, textTransform: 'uppercase' },
+        truncate(image.eyebrow, 60)
+      ),
+      h(
+        'div',
+        { fontSize: title.length > 40 ? 58 : 72, fontWeight: 800, lineHeight: 1.1, letterSpacing: -1 },
+        title
+      ),
+      h(
+        'div',
+        { fontSize: 28, lineHeight: 1.4, color: theme.textSecondary },
+        truncate(image.description, 150)
+      )
+    ),
+    h(
+      'div',
+      { alignItems: 'center', justifyContent: 'space-between' },
+      h(
+        'div',
+        { gap: 12 },
+        ...image.tags.map((tag) =>
+          h(
+            'div',
+            {
+              padding: '8px 18px',
+              borderRadius: 999,
+              backgroundColor: theme.surface,
+              border: `2px solid ${theme.muted}`,
+              fontSize: 20,
+              color: theme.text,
+            },
+            tag
+          )
+        )
+      ),
+      h('div', { fontSize: 24, fontWeight: 700, color: theme.accent }, image.domain)
+    )
+  );
+};
+
+// A 1200x630 PNG for one card
+export const renderShareImage = async (image: ShareImage): Promise<Buffer> => {
+  fonts ??= loadFonts();
+  const svg = await satori(layout(image) as Parameters<typeof satori>[0], {
+    width: WIDTH,
+    height: HEIGHT,
+    fonts,
+  });
+  return new Resvg(svg, { fitTo: { mode: 'original' } }).render().asPng();
+};
+
+export default renderShareImage;
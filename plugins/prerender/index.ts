@@ -0,0 +1,154 @@
+import fs from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { build, type Plugin, type ResolvedConfig } from 'vite';
+import { renderShareImage, type ShareImage } from '../og-image';
+import { renderResumePdf, type Resume } from '../resume';
+
+interface PrerenderPluginOptions {
+  // Server entry exporting `render(url)` and `getRoutes()`
+  entry?: string;
+}
+
+interface ServerEntry {
+  render: (url: string) => { html: string; head: string };
+  getRoutes: () => string[];
+  // Social preview cards to render into the output before the pages that use them
+  getShareImages?: () => ShareImage[];
+  // Resume content and the PDF files to lay it out as
+  getResume?: () => Resume;
+  getResumeFiles?: () => { path: string; template: string }[];
+}
+
+const ROOT_PLACEHOLDER = '<div id="root"></div>';
+const HEAD_PLACEHOLDER = '<!--app-head-->';
+
+const IMAGE = /\.(png|jpe?g|gif|svg|webp|avif|ico)$/i;
+
+// Site-relative image paths referenced from a page, including og:image URLs on its own origin
+const findImages = (html: string): string[] => {
+  const origin = /<link rel="canonical" href="(https?:\/\/[^/"]+)/.exec(html)?.[1];
+  const values = Array.from(html.matchAll(/(?:src|href|content)="([^"]+)"/g), (match) => match[1]!);
+
+  return values
+    .map((value) => (origin && value.startsWith(`${origin}/`) ? value.slice(origin.length) : value))
+    .filter((value) => value.startsWith('/') && !value.startsWith('//'))
+    .map((value) => decodeURI(value.split(/[?#]/)[0]!))
+    .filter((value) => IMAGE.test(value));
+};
+
+// `/` → `index.html`, `/blog/post` → `blog/post/index.html`
+const outputFile = (outDir: string, route: string) =>
+  path.join(outDir, route.replace(/^\/+|\/+$/g, ''), 'index.html');
+
+/**
+ * After the client build, bundles `entry` for Node, renders every route it
+ * lists and writes the HTML into the build output so each page is readable
+ * without JavaScript. The client then hydrates the prerendered markup.
+ * Share images and resume PDFs listed by the entry are rendered alongside
+ * the pages.
+ * Fails the build if a page references an image missing from the output.
+ */
+export const prerenderPlugin = ({
+  entry = 'src/entry-server.tsx',
+}: PrerenderPluginOptions = {}): Plugin => {
+  let config: ResolvedConfig;
+  // closeBundle also runs after a failed build; don't bury the real error
+  let failed = false;
+
+  return {
+    name: 'prerender',
+    // Only the client build; the nested server build below must not recurse
+    apply: (userConfig, { command }) => command === 'build' && !userConfig.build?.ssr,
+
+    configResolved(resolved) {
+      config = resolved;
+    },
+
+    buildEnd(error) {
+      failed = !!error;
+    },
+
+    renderError() {
+      failed = true;
+    },
+
+    async closeBundle() {
+      if (failed) return;
+
+      const outDir = path.resolve(config.root, config.build.outDir);
+      const serverDir = path.join(outDir, '.prerender');
+      const templateFile = path.join(outDir, 'index.html');
+      const template = fs.readFileSync(templateFile, 'utf-8');
+
+      if (!template.includes(ROOT_PLACEHOLDER)) {
+        throw new Error(`prerender: ${templateFile} has no empty ${ROOT_PLACEHOLDER} to fill`);
+      }
+
+      await build({
+        root: config.root,
+        mode: config.mode,
+        logLevel: 'warn',
+        build: { ssr: entry, outDir: serverDir, emptyOutDir: true },
+      });
+
+      try {
+        const entryFile = path.join(serverDir, `${path.basename(entry, path.extname(entry))}.js`);
+        const { render, getRoutes, getShareImages, getResume, getResumeFiles } = (await import(
+          pathToFileURL(entryFile).href
+        )) as ServerEntry;
+
+        const writeFile = (route: string, data: string | Buffer) => {
+          const file = path.join(outDir, route);
+          fs.mkdirSync(path.dirname(file), { recursive: true });
+          fs.writeFileSync(file, data);
+        };
+
+        const shareImages = getShareImages?.() ?? [];
+        for (const image of shareImages) {
+          writeFile(image.path, await renderShareImage(image));
+        }
+
+        const resumeFiles = getResume && getResumeFiles ? getResumeFiles() : [];
+        for (const { path: route, template } of resumeFiles) {
+          writeFile(route, await renderResumePdf(getResume!(), template));
+        }
+
+        const missing: string[] = [];
+
+        for (const route of getRoutes()) {
+          const page = render(route);
+          // Replacer functions, so `$&` or `$'` in a page (code samples, prices) stay as written
+          const html = template
+            .replace(HEAD_PLACEHOLDER, () => page.head)
+            .replace(ROOT_PLACEHOLDER, () => `<div id="root">${page.html}</div>`);
+
+          for (const image of Array.from(new Set(findImages(html)))) {
+            if (!fs.existsSync(path.join(outDir, image))) missing.push(`${route}: ${image}`);
+          }
+
+          const file = outputFile(outDir, route);
+          fs.mkdirSync(path.dirname(file), { recursive: true });
+          fs.writeFileSync(file, html);
+        }
+
+        if (missing.length > 0) {
+          throw new Error(
+            `prerender: pages reference images that are not in public/ or the build:\n${missing
+              .map((line) => `  - ${line}`)
+              .join('\n')}`
+          );
+        }
+
+        config.logger.info(
+          `prerendered ${getRoutes().length} routes, ${shareImages.length} share images and ` +
+            `${resumeFiles.length} resume PDFs`
+        );
+      } finally {
+        fs.rmSync(serverDir, { recursive: true, force: true });
+      }
+    },
+  };
+};
+
+export default prerenderPlugin;
@@ -0,0 +1,303 @@
+import fs from 'fs';
+import { createRequire } from 'module';
+import PDFDocument from 'pdfkit';
+import type { Plugin } from 'vite';
+
+/**
+ * Lays out the resume as an A4 PDF with pdfkit, offline and with the same
+ * Inter font as the share cards. The content comes from `src/utils/resume.ts`
+ * via the server entry; each template is a separate layout function.
+ */
+
+// Mirrors `Resume` in src/utils/resume.ts
+interface ResumeLink {
+  label: string;
+  url?: string | undefined;
+}
+
+export interface Resume {
+  name: string;
+  title: string;
+  summary: string;
+  contact: ResumeLink[];
+  links: ResumeLink[];
+  skills: { category: string; items: string[] }[];
+  tools: string[];
+  projects: {
+    title: string;
+    description: string;
+    technologies: string[];
+    date?: string | undefined;
+    link?: ResumeLink | undefined;
+  }[];
+  education: { degree: string; institution: string; duration: string; description: string }[];
+  colors: { ink: string; accent: string; muted: string };
+}
+
+type Doc = PDFKit.PDFDocument;
+
+const { resolve } = createRequire(import.meta.url);
+
+const FONTS = { regular: 400, bold: 700 } as const;
+const MARGIN = 44;
+
+const registerFonts = (doc: Doc) => {
+  for (const [name, weight] of Object.entries(FONTS)) {
+    doc.registerFont(
+      name,
+      fs.readFileSync(resolve(`@fontsource/inter/files/inter-latin-${weight}-normal.woff`))
+    );
+  }
+};
+
+// Column a block of text is laid out in
+interface Column {
+  x: number;
+  width: number;
+}
+
+// Start a new page when less than `height` is left, so headings never end a page
+const ensureSpace = (doc: Doc, column: Column, height: number) => {
+  if (doc.y + height > doc.page.height - doc.page.margins.bottom) doc.addPage();
+  doc.x = column.x;
+};
+
+const SEPARATOR = '  ·  ';
+
+// Links joined by a separator on one line; each label with a URL gets a link annotation.
+// Measured by hand because pdfkit misplaces `continued` text when it is centred.
+const linkLine = (doc: Doc, links: ResumeLink[], column: Column, align: 'left' | 'center') => {
+  const line = links.map((item) => item.label).join(SEPARATOR);
+  const height = doc.currentLineHeight();
+  const y = doc.y;
+  let x = align === 'center' ? column.x + (column.width - doc.widthOfString(line)) / 2 : column.x;
+
+  for (const item of links) {
+    const width = doc.widthOfString(item.label);
+    if (item.url) doc.link(x, y, width, height, item.url);
+    x += width + doc.widthOfString(SEPARATOR);
+  }
+  doc.text(line, column.x, y, { width: column.width, align });
+};
+
+const heading = (doc: Doc, resume: Resume, column: Column, title: string) => {
+  ensureSpace(doc, column, 60);
+  doc.moveDown(0.6);
+  doc
+    .font('bold')
+    .fontSize(10.5)
+    .fillColor(resume.colors.ink)
+    .text(title.toUpperCase(), column.x, doc.y, { width: column.width, characterSpacing: 1.2 });
+  const y = doc.y + 2;
+  doc
+    .moveTo(column.x, y)
+    .lineTo(column.x + column.width, y)
+    .lineWidth(1.5)
+    .strokeColor(resume.colors.accent)
+    .stroke();
+  doc.y = y + 8;
+};
+
+const paragraph = (doc: Doc, resume: Resume, column: Column, text: string) => {
+  doc
+    .font('regular')
+    .fontSize(9.5)
+    .fillColor(resume.colors.ink)
+    .text(text, column.x, doc.y, { width: column.width, lineGap: 2 });
+};
+
+const projects = (doc: Doc, resume: Resume, column: Column) => {
+  heading(doc, resume, column, 'Projects');
+  resume.projects.forEach((project, index) => {
+    ensureSpace(doc, column, 70);
+    if (index > 0) doc.moveDown(0.5);
+    doc
+      .font('bold')
+      .fontSize(10.5)
+      .fillColor(resume.colors.ink)
+      .text(project.title, column.x, doc.y, { width: column.width });
+    const meta = [
+      ...(project.date ? [{ label: project.date }] : []),
+      ...(project.link ? [project.link] : []),
+    ];
+    if (meta.length > 0) {
+      doc.font('regular').fontSize(8.5).fillColor(resume.colors.muted);
+      linkLine(doc, meta, column, 'left');
+    }
+    doc.moveDown(0.2);
+    paragraph(doc, resume, column, project.description);
+    doc
+      .font('regular')
+      .fontSize(8.5)
+      .fillColor(resume.colors.muted)
+      .text(project.technologies.join(' · '), column.x, doc.y + 2, { width: column.width });
+  });
+};
+
+const education = (doc: Doc, resume: Resume, column: Column) => {
+  heading(doc, resume, column, 'Education');
+  resume.education.forEach((item, index) => {
+    ensureSpace(doc, column, 50);
+    if (index > 0) doc.moveDown(0.5);
+    doc
+      .font('bold')
+      .fontSize(10.5)
+      .fillColor(resume.colors.ink)
+      .text(item.degree, column.x, doc.y, { width: column.width });
+    doc
+      .font('regular')
+      .fontSize(8.5)
+      .fillColor(resume.colors.muted)
+      .text(`${item.institution}  ·  ${item.duration}`, { width: column.width });
+    doc.moveDown(0.2);
+    paragraph(doc, resume, column, item.description);
+  });
+};
+
+// Single column: centred header, then every section full width
+const classic = (doc: Doc, resume: Resume) => {
+  const column = { x: MARGIN, width: doc.page.width - MARGIN * 2 };
+
+  doc.font('bold').fontSize(24).fillColor(resume.colors.ink);
+  doc.text(resume.name, { align: 'center' });
+  doc.font('regular').fontSize(12).fillColor(resume.colors.muted);
+  doc.text(resume.title, { align: 'center' });
+  doc.moveDown(0.4).fontSize(8.5);
+  linkLine(doc, resume.contact, column, 'center');
+  linkLine(doc, resume.links, column, 'center');
+
+  heading(doc, resume, column, 'Summary');
+  paragraph(doc, resume, column, resume.summary);
+
+  heading(doc, resume, column, 'Skills');
+  for (const group of [...resume.skills, { category: 'Tools', items: resume.tools }]) {
+    doc
+      .font('bold')
+      .fontSize(9.5)
+      .fillColor(resume.colors.ink)
+      .text(`${group.category}: `, column.x, doc.y, { width: column.width, continued: true })
+      .font('regular')
+      .text(group.items.join(', '), { lineGap: 2 });
+  }
+
+  projects(doc, resume, column);
+  education(doc, resume, column);
+};
+
+// Dark sidebar with contact details and skills beside the main column
+const modern = (doc: Doc, resume: Resume) => {
+  const sidebarWidth = 180;
+  const sidebar = { x: MARGIN / 2 + 4, width: sidebarWidth - MARGIN };
+  const main = { x: sidebarWidth + 28, width: doc.page.width - sidebarWidth - 28 - MARGIN };
+  const light = '#FFFFFF';
+
+  doc.rect(0, 0, sidebarWidth, doc.page.height).fill(resume.colors.ink);
+
+  doc.y = MARGIN;
+  doc
+    .font('bold')
+    .fontSize(20)
+    .fillColor(light)
+    .text(resume.name, sidebar.x, doc.y, { width: sidebar.width, lineGap: 1 });
+  doc
+    .font('regular')
+    .fontSize(10)
+    .fillColor(resume.colors.accent)
+    .text(resume.title, { width: sidebar.width });
+
+  const sidebarSection = (title: string, lines: ResumeLink[]) => {
+    doc.moveDown(1.2);
+    doc
+      .font('bold')
+      .fontSize(9)
+      .fillColor(resume.colors.accent)
+      .text(title.toUpperCase(), sidebar.x, doc.y, {
+        width: sidebar.width,
+        characterSpacing: 1.2,
+      });
+    doc.moveDown(0.3).font('regular').fontSize(8.5).fillColor(light);
+    for (const line of lines) {
+      doc.text(line.label, { width: sidebar.width, link: line.url || null, lineGap: 2 });
+    }
+  };
+
+  sidebarSection('Contact', resume.contact);
+  sidebarSection('Profiles', resume.links);
+  for (const group of resume.skills) {
+    sidebarSection(group.category, [{ label: group.items.join(', ') }]);
+  }
+  sidebarSection('Tools', [{ label: resume.tools.join(', ') }]);
+
+  // The main column starts level with the name
+  doc.y = MARGIN - 12;
+  heading(doc, resume, main, 'Summary');
+  paragraph(doc, resume, main, resume.summary);
+
+  projects(doc, resume, main);
+  education(doc, resume, main);
+};
+
+const TEMPLATES: Record<string, (doc: Doc, resume: Resume) => void> = { classic, modern };
+
+export const renderResumePdf = (resume: Resume, template: string): Promise<Buffer> => {
+  const layout = TEMPLATES[template];
+  if (!layout) {
+    return Promise.reject(new Error(`resume: unknown template "${template}"`));
+  }
+
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: MARGIN,
+    info: { Title: `${resume.name} — Resume`, Author: resume.name, Subject: resume.title },
+  });
+  const chunks: Buffer[] = [];
+
+  return new Promise((resolvePdf, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolvePdf(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    registerFonts(doc);
+    layout(doc, resume);
+    doc.end();
+  });
+};
+
+interface ResumePluginOptions {
+  // Module exporting `getResume()` and `getResumeFiles()`
+  source?: string;
+}
+
+/**
+ * Serves the resume PDFs in dev, rendered from the live content on every
+ * request. Builds write them through the prerender step instead.
+ */
+export const resumePlugin = ({
+  source = '/src/utils/resume.ts',
+}: ResumePluginOptions = {}): Plugin => ({
+  name: 'resume',
+  apply: 'serve',
+
+  configureServer(server) {
+    server.middlewares.use(async (req, res, next) => {
+      const route = req.url?.split('?')[0] ?? '';
+      if (!/^\/resume(-[a-z]+)?\.pdf$/.test(route)) return next();
+
+      try {
+        const { getResume, getResumeFiles } = (await server.ssrLoadModule(source)) as {
+          getResume: () => Resume;
+          getResumeFiles: () => { path: string; template: string }[];
+        };
+        const file = getResumeFiles().find((entry) => entry.path === route);
+        if (!file) return next();
+
+        res.setHeader('Content-Type', 'application/pdf');
+        res.end(await renderResumePdf(getResume(), file.template));
+      } catch (error) {
+        next(error);
+      }
+    });
+  },
+});
+
+export default resumePlugin;
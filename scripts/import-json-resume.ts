@@ -0,0 +1,126 @@
+/**
+ * Seeds the content files from a JSON Resume (https://jsonresume.org):
+ *
+ *   npm run import:resume -- path/to/resume.json [--dir content] [--force]
+ *
+ * Writes site, profile, skills, projects, education and socials, validated
+ * against the same schemas as the build. Blog posts and case studies are left
+ * alone. Existing files are only replaced with `--force`.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { parse, stringify } from 'yaml';
+import { collections, type CollectionName } from '../plugins/content/collections';
+import { fromJsonResume, type JsonResume } from '../plugins/content/jsonResume';
+import { ContentError, findFile } from '../plugins/content/load';
+import { formatPath, type Issue } from '../plugins/content/schema';
+
+const header = (source: string, placeholders: string[]) =>
+  [
+    `# Imported from ${source} with \`npm run import:resume\``,
+    ...placeholders.map((field) => `# TODO: ${field} is a placeholder, it was not in the resume`),
+    '',
+  ].join('\n');
+
+const fail = (message: string): never => {
+  console.error(`import:resume: ${message}`);
+  process.exit(1);
+};
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    dir: { type: 'string', default: 'content' },
+    force: { type: 'boolean', default: false },
+  },
+});
+
+const [source] = positionals;
+if (!source) fail('usage: npm run import:resume -- <resume.json> [--dir content] [--force]');
+
+const contentDir = path.resolve(values.dir!);
+
+const readJson = (file: string): JsonResume => {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as JsonResume;
+  } catch (error) {
+    return fail(`cannot read ${file}: ${(error as Error).message}`);
+  }
+};
+
+// Settings that aren't about the person (language, robots, ...) carry over
+const readSite = (): Record<string, unknown> => {
+  try {
+    const file = findFile(contentDir, 'site');
+    return file ? (parse(fs.readFileSync(file, 'utf-8')) as Record<string, unknown>) : {};
+  } catch (error) {
+    if (error instanceof ContentError) return fail(error.message);
+    throw error;
+  }
+};
+
+const resume = readJson(path.resolve(source!));
+let result: ReturnType<typeof fromJsonResume>;
+try {
+  result = fromJsonResume(resume, readSite());
+} catch (error) {
+  result = fail((error as Error).message);
+}
+
+// Validate everything before touching a file
+const problems: string[] = [];
+for (const [name, data] of Object.entries(result.files)) {
+  const issues: Issue[] = [];
+  collections[name as CollectionName](data, [], issues);
+  problems.push(...issues.map((issue) => `${name}: ${formatPath(issue.path)}: ${issue.message}`));
+}
+if (problems.length > 0) {
+  fail(
+    `the resume does not convert into valid content:\n${problems
+      .map((line) => `  - ${line}`)
+      .join('\n')}`
+  );
+}
+
+const targets = Object.keys(result.files).map((name) => ({
+  name,
+  // Keep the format of an existing file, otherwise write YAML
+  file: findFile(contentDir, name) ?? path.join(contentDir, `${name}.yaml`),
+}));
+
+const existing = targets.filter((target) => fs.existsSync(target.file));
+if (existing.length > 0 && !values.force) {
+  fail(
+    `these files would be replaced, re-run with --force to overwrite them:\n${existing
+      .map((target) => `  - ${path.relative(process.cwd(), target.file)}`)
+      .join('\n')}`
+  );
+}
+
+fs.mkdirSync(contentDir, { recursive: true });
+for (const { name, file } of targets) {
+  const data = result.files[name];
+  // `profile.phone`, `education[1].duration`, ...
+  const placeholders = result.placeholders.filter((field) =>
+    new RegExp(`^${name}[.[]`).test(field)
+  );
+  fs.writeFileSync(
+    file,
+    file.endsWith('.json')
+      ? `${JSON.stringify(data, null, 2)}\n`
+      : header(path.basename(source!), placeholders) + stringify(data, { lineWidth: 100 })
+  );
+  console.log(`wrote ${path.relative(process.cwd(), file)}`);
+}
+
+if (result.placeholders.length > 0) {
+  console.log(
+    `\nFilled with placeholders, please review:\n${result.placeholders
+      .map((field) => `  - ${field}`)
+      .join('\n')}`
+  );
+}
+console.log('\nBlog posts, case studies and images were not changed.');
+console.log('Run `npm run dev` to preview the site.');
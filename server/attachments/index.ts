@@ -0,0 +1,129 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import multer from 'multer';
+import {
+  ATTACHMENT_LIMITS,
+  ATTACHMENT_TYPES,
+  attachmentError,
+  attachmentType,
+  type AttachmentType,
+} from '../../src/utils/attachments';
+import { CONTACT_FIELDS, VALIDATION } from '../../src/utils/validation';
+import { matchesSignature } from './signatures';
+import type { MailAttachment } from '../types';
+
+/**
+ * Contact form attachments. Uploads are held in memory (within
+ * ATTACHMENT_LIMITS) until they pass every check, then written to the
+ * quarantine folder under random names. Nothing there is ever served; the
+ * files are only read back to attach them to the owner's email.
+ */
+
+export const quarantineDir = () =>
+  path.resolve(
+    process.env.ATTACHMENTS_DIR || path.join(import.meta.dirname, '..', 'data', 'quarantine')
+  );
+
+export interface QuarantinedFile {
+  // As sent, minus anything that could be read as a path
+  filename: string;
+  contentType: AttachmentType;
+  size: number;
+  sha256: string;
+  storedName: string;
+}
+
+// The form's fields plus website, token and proof for the spam checks
+const MAX_FIELDS = CONTACT_FIELDS.length + 3;
+
+// The longest field in UTF-8 (up to 3 bytes per character), with room for
+// surrounding spaces; a token or proof is far shorter
+const MAX_FIELD_SIZE =
+  Math.max(...Object.values(VALIDATION).map((rule) => rule.maxLength)) * 3 + 1024;
+
+// Parses `attachments` from multipart bodies; multer stops reading past the limits
+export const uploadAttachments = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fields: MAX_FIELDS,
+    fieldSize: MAX_FIELD_SIZE,
+    files: ATTACHMENT_LIMITS.maxFiles,
+    fileSize: ATTACHMENT_LIMITS.maxFileSize,
+    parts: MAX_FIELDS + ATTACHMENT_LIMITS.maxFiles,
+  },
+  // Browsers send UTF-8 file names without saying so
+  defParamCharset: 'utf8',
+}).array('attachments', ATTACHMENT_LIMITS.maxFiles);
+
+// Browsers that don't know a type send one of these
+const GENERIC_TYPES = ['', 'application/octet-stream'];
+
+/**
+ * What is wrong with the uploaded files, or null. On top of the form's own
+ * checks, the declared MIME type and the file's magic number must both
+ * agree with its extension.
+ */
+export const checkAttachments = (files: Express.Multer.File[]) => {
+  const error = attachmentError(
+    files.map((file) => ({ name: file.originalname, size: file.size }))
+  );
+  if (error) return error;
+
+  for (const file of files) {
+    const type = attachmentType(file.originalname) as AttachmentType;
+    const { label } = ATTACHMENT_TYPES[type];
+    if (file.mimetype !== type && !GENERIC_TYPES.includes(file.mimetype)) {
+      return `${file.originalname} was sent as ${file.mimetype}, not ${label}`;
+    }
+    if (!matchesSignature[type](file.buffer)) {
+      return `${file.originalname} is not a valid ${label} file`;
+    }
+  }
+  return null;
+};
+
+const safeFilename = (name: string) =>
+  path.posix
+    .basename(name.replace(/\\/g, '/'))
+    .replace(/[\x00-\x1f\x7f"]/g, '')
+    .trim()
+    .slice(-100) || 'attachment';
+
+// Writes checked files to the quarantine folder, readable by the server only
+export const quarantineAttachments = async (files: Express.Multer.File[]) => {
+  const dir = quarantineDir();
+  await fs.promises.mkdir(dir, { recursive: true });
+
+  return Promise.all(
+    files.map(async (file): Promise<QuarantinedFile> => {
+      const storedName = crypto.randomUUID();
+      await fs.promises.writeFile(path.join(dir, storedName), file.buffer, {
+        flag: 'wx',
+        mode: 0o600,
+      });
+      return {
+        filename: safeFilename(file.originalname),
+        contentType: attachmentType(file.originalname) as AttachmentType,
+        size: file.size,
+        sha256: crypto.createHash('sha256').update(file.buffer).digest('hex'),
+        storedName,
+      };
+    })
+  );
+};
+
+// For files whose message could not be stored
+export const discardAttachments = (files: QuarantinedFile[]) =>
+  Promise.all(
+    files.map((file) =>
+      fs.promises.rm(path.join(quarantineDir(), file.storedName), { force: true })
+    )
+  );
+
+export const mailAttachments = (files: QuarantinedFile[]): MailAttachment[] =>
+  files.map((file) => ({
+    filename: file.filename,
+    contentType: file.contentType,
+    path: path.join(quarantineDir(), file.storedName),
+  }));
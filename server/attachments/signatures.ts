@@ -0,0 +1,32 @@
+import type { AttachmentType } from '../../src/utils/attachments';
+
+const startsWith = (bytes: Buffer, signature: number[]) =>
+  bytes.length >= signature.length && signature.every((byte, index) => bytes[index] === byte);
+
+const ZIP = [0x50, 0x4b, 0x03, 0x04];
+const OLE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+const utf8 = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * Whether a file's first bytes (its magic number) match its type, so a
+ * renamed executable can't pass as a PDF. Text has no magic number; it has to
+ * be valid UTF-8 without control bytes.
+ */
+export const matchesSignature: Record<AttachmentType, (bytes: Buffer) => boolean> = {
+  'application/pdf': (bytes) => bytes.subarray(0, 5).toString('latin1') === '%PDF-',
+  'application/msword': (bytes) => startsWith(bytes, OLE),
+  // A zip archive laid out as a Word document
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': (bytes) =>
+    startsWith(bytes, ZIP) && bytes.includes('[Content_Types].xml') && bytes.includes('word/'),
+  'text/plain': (bytes) => {
+    try {
+      // Tabs and line breaks are the only control characters in plain text
+      return !/[\x00-\x08\x0b\x0e-\x1f]/.test(utf8.decode(bytes));
+    } catch {
+      return false;
+    }
+  },
+  'image/png': (bytes) => startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  'image/jpeg': (bytes) => startsWith(bytes, [0xff, 0xd8, 0xff]),
+};
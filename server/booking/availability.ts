@@ -0,0 +1,51 @@
+import { bookingsBetween } from '../db/bookings';
+import { addDays, weekday, zonedInstant } from './time';
+import { dayKey } from '../../src/utils/booking';
+import type { BookingConfig } from './config';
+
+const MINUTE = 60 * 1000;
+
+const isBlackedOut = (date: string, { blackouts }: BookingConfig) =>
+  blackouts.some(({ from, to }) => date >= from && date <= to);
+
+/**
+ * Start times of the slots that can still be booked, as UTC ISO timestamps:
+ * the weekly hours laid out day by day in the owner's time zone, from the
+ * minimum notice up to `daysAhead` days out, without blackout dates and
+ * without slots overlapping a booking.
+ */
+export const openSlots = (config: BookingConfig, now = Date.now()) => {
+  const { timezone, slotMinutes, minNoticeMinutes, daysAhead } = config;
+  const earliest = now + minNoticeMinutes * MINUTE;
+  const today = dayKey(now, timezone);
+
+  // Keyed by start, so overlapping hours don't list a slot twice
+  const starts = new Map<number, number>();
+  for (let offset = 0; offset <= daysAhead; offset += 1) {
+    const date = addDays(today, offset);
+    if (isBlackedOut(date, config)) continue;
+
+    for (const hours of config.hours.filter((entry) => entry.day === weekday(date))) {
+      for (let minute = hours.start; minute + slotMinutes <= hours.end; minute += slotMinutes) {
+        const start = zonedInstant(date, minute, timezone);
+        if (start >= earliest) starts.set(start, start + slotMinutes * MINUTE);
+      }
+    }
+  }
+  if (starts.size === 0) return [];
+
+  const slots = [...starts].map(([start, end]) => ({ start, end }));
+  slots.sort((a, b) => a.start - b.start);
+  const booked = bookingsBetween(
+    new Date(slots[0]?.start ?? now).toISOString(),
+    new Date(slots[slots.length - 1]?.end ?? now).toISOString()
+  ).map((booking) => ({ start: Date.parse(booking.startsAt), end: Date.parse(booking.endsAt) }));
+
+  return slots
+    .filter((slot) => !booked.some((taken) => taken.start < slot.end && taken.end > slot.start))
+    .map((slot) => new Date(slot.start).toISOString());
+};
+
+// Whether `start` (a UTC ISO timestamp) is one of the open slots
+export const isOpenSlot = (start: string, config: BookingConfig, now = Date.now()) =>
+  openSlots(config, now).includes(start);
@@ -0,0 +1,110 @@
+import { ConfigError, boolean, integer, list, type Env } from '../lib/env';
+import { isTimeZone } from '../../src/utils/booking';
+
+// Minutes past midnight, in the booking time zone
+export interface OpeningHours {
+  // 0 is Sunday, as in Date#getDay
+  day: number;
+  start: number;
+  end: number;
+}
+
+// Inclusive `YYYY-MM-DD` dates
+export interface Blackout {
+  from: string;
+  to: string;
+}
+
+export interface BookingConfig {
+  enabled: boolean;
+  timezone: string;
+  hours: OpeningHours[];
+  blackouts: Blackout[];
+  slotMinutes: number;
+  minNoticeMinutes: number;
+  daysAhead: number;
+}
+
+const DAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const DAY = `(${DAYS.join('|')})`;
+const TIME = '(\\d{1,2}):(\\d{2})';
+const HOURS = new RegExp(`^${DAY}(?:-${DAY})?\\s+${TIME}-${TIME}$`);
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const isDate = (value: string) =>
+  DATE.test(value) && new Date(`${value}T00:00:00Z`).toISOString().startsWith(value);
+
+// `mon-fri 09:00-17:00` → one entry per day; day ranges may wrap, as in `fri-mon`
+const parseHours = (entry: string, problems: string[]): OpeningHours[] => {
+  const match = HOURS.exec(entry);
+  if (!match) {
+    problems.push(`BOOKING_HOURS has an invalid entry: "${entry}" (e.g. mon-fri 09:00-17:00)`);
+    return [];
+  }
+  const [, first = '', last = first, startHour, startMinute, endHour, endMinute] = match;
+  const start = Number(startHour) * 60 + Number(startMinute);
+  const end = Number(endHour) * 60 + Number(endMinute);
+  if (end <= start || end > 24 * 60 || Number(startMinute) > 59 || Number(endMinute) > 59) {
+    problems.push(`BOOKING_HOURS has invalid times: "${entry}"`);
+    return [];
+  }
+
+  const from = DAYS.indexOf(first);
+  const span = (DAYS.indexOf(last) - from + 7) % 7;
+  return Array.from({ length: span + 1 }, (_unused, offset) => ({
+    day: (from + offset) % 7,
+    start,
+    end,
+  }));
+};
+
+// `2026-12-24` or `2026-12-24..2027-01-01`
+const parseBlackout = (entry: string, problems: string[]): Blackout[] => {
+  const [from = '', to = from] = entry.split('..');
+  if (!isDate(from) || !isDate(to) || to < from) {
+    problems.push(`BOOKING_BLACKOUT_DATES has an invalid entry: "${entry}"`);
+    return [];
+  }
+  return [{ from, to }];
+};
+
+/**
+ * Booking settings from the environment. BOOKING_HOURS are the weekly hours
+ * calls can be booked in, in BOOKING_TIMEZONE; BOOKING_BLACKOUT_DATES are
+ * days (or ranges of days) off. Throws a ConfigError listing every invalid
+ * setting.
+ */
+export const loadBookingConfig = (env: Env = process.env): BookingConfig => {
+  const problems: string[] = [];
+
+  const timezone = env.BOOKING_TIMEZONE || 'UTC';
+  if (!isTimeZone(timezone)) {
+    problems.push('BOOKING_TIMEZONE must be an IANA time zone, e.g. Europe/London');
+  }
+
+  const config: BookingConfig = {
+    enabled: boolean(env, 'BOOKING_ENABLED', true, problems),
+    timezone,
+    hours: list(env, 'BOOKING_HOURS', ['mon-fri 10:00-16:00']).flatMap((entry) =>
+      parseHours(entry, problems)
+    ),
+    blackouts: list(env, 'BOOKING_BLACKOUT_DATES').flatMap((entry) =>
+      parseBlackout(entry, problems)
+    ),
+    slotMinutes: integer(env, 'BOOKING_SLOT_MINUTES', 30, { min: 10, max: 240 }, problems),
+    minNoticeMinutes:
+      integer(env, 'BOOKING_MIN_NOTICE_HOURS', 24, { min: 0, max: 24 * 30 }, problems) * 60,
+    daysAhead: integer(env, 'BOOKING_DAYS_AHEAD', 21, { min: 1, max: 90 }, problems),
+  };
+
+  if (problems.length > 0) throw new ConfigError('booking', problems);
+  return config;
+};
+
+let config: BookingConfig | undefined;
+
+// Loaded on first use; throws a ConfigError when the settings are invalid
+export const getBookingConfig = () => {
+  config = config || loadBookingConfig();
+  return config;
+};
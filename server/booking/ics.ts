@@ -0,0 +1,66 @@
+import type { Booking, MailAddress } from '../types';
+
+/**
+ * iCalendar (RFC 5545) invitations for booked calls. Lines end in CRLF and
+ * are folded at 75 bytes; text values are escaped.
+ */
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// 2026-10-19T09:00:00.000Z → 20261019T090000Z
+const icsTime = (iso: string) => iso.replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Long lines continue on the next line after a space, without splitting a character
+const fold = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  return [...parts, current].join('\r\n ');
+};
+
+const participant = ({ name, address }: MailAddress) =>
+  `CN="${name.replace(/["\\]/g, '')}":mailto:${address}`;
+
+export interface CallInvite {
+  booking: Pick<Booking, 'id' | 'name' | 'email' | 'topic' | 'startsAt' | 'endsAt' | 'createdAt'>;
+  organizer: MailAddress;
+  summary: string;
+  // Host name for the event's UID, so updates to it could find it
+  host: string;
+}
+
+// A METHOD:REQUEST calendar with the call, from the owner to the guest
+export const callInvite = ({ booking, organizer, summary, host }: CallInvite) =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${host}//Portfolio bookings//EN`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:REQUEST',
+    'BEGIN:VEVENT',
+    `UID:booking-${booking.id}@${host}`,
+    `DTSTAMP:${icsTime(booking.createdAt)}`,
+    `DTSTART:${icsTime(booking.startsAt)}`,
+    `DTEND:${icsTime(booking.endsAt)}`,
+    `SUMMARY:${escapeText(summary)}`,
+    ...(booking.topic ? [`DESCRIPTION:${escapeText(booking.topic)}`] : []),
+    `ORGANIZER;${participant(organizer)}`,
+    `ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE;${participant({
+      name: booking.name,
+      address: booking.email,
+    })}`,
+    'STATUS:CONFIRMED',
+    'SEQUENCE:0',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ]
+    .map(fold)
+    .join('\r\n') + '\r\n';
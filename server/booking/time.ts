@@ -0,0 +1,61 @@
+/**
+ * Wall-clock times in a time zone, with Intl instead of a date library.
+ * Dates are `YYYY-MM-DD` strings; instants are milliseconds since the epoch.
+ */
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatter = (timeZone: string) => {
+  let format = formatters.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, format);
+  }
+  return format;
+};
+
+// How far `timeZone` is ahead of UTC at `instant`
+const offsetAt = (instant: number, timeZone: string) => {
+  const parts = Object.fromEntries(
+    formatter(timeZone)
+      .formatToParts(instant)
+      .map((part) => [part.type, Number(part.value)])
+  );
+  const wall = Date.UTC(
+    parts.year ?? 0,
+    (parts.month ?? 1) - 1,
+    parts.day ?? 1,
+    parts.hour ?? 0,
+    parts.minute ?? 0,
+    parts.second ?? 0
+  );
+  return wall - (instant - (instant % 1000));
+};
+
+/**
+ * The instant it is `minutes` past midnight on `date` in `timeZone`. The
+ * offset is looked up twice, so times next to a DST change come out right.
+ */
+export const zonedInstant = (date: string, minutes: number, timeZone: string) => {
+  const wall = Date.parse(`${date}T00:00:00Z`) + minutes * 60 * 1000;
+  const guess = wall - offsetAt(wall, timeZone);
+  return wall - offsetAt(guess, timeZone);
+};
+
+// The date `days` after `date`
+export const addDays = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * 24 * 60 * 60 * 1000)
+    .toISOString()
+    .slice(0, 10);
+
+// 0 is Sunday
+export const weekday = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
@@ -0,0 +1,84 @@
+import { getDb } from './index';
+import type { AccessRule, AccessRuleAction, AccessRuleKind } from '../types';
+
+export const ACCESS_RULE_KINDS: readonly AccessRuleKind[] = ['ip', 'email', 'domain'];
+export const ACCESS_RULE_ACTIONS: readonly AccessRuleAction[] = ['allow', 'deny'];
+
+interface AccessRuleRow {
+  id: number;
+  kind: AccessRuleKind;
+  value: string;
+  action: AccessRuleAction;
+  note: string | null;
+  created_at: string;
+}
+
+const toRule = (row: AccessRuleRow): AccessRule => ({
+  id: row.id,
+  kind: row.kind,
+  value: row.value,
+  action: row.action,
+  note: row.note,
+  createdAt: row.created_at,
+});
+
+export const listAccessRules = () => {
+  const rows = getDb()
+    .prepare('SELECT * FROM access_rules ORDER BY kind, value')
+    .all() as AccessRuleRow[];
+  return rows.map(toRule);
+};
+
+export const getAccessRule = (id: number) => {
+  const row = getDb().prepare('SELECT * FROM access_rules WHERE id = ?').get(id) as
+    | AccessRuleRow
+    | undefined;
+  return row ? toRule(row) : null;
+};
+
+// Adds a rule, or replaces the one already there for the same sender
+export const saveAccessRule = ({
+  kind,
+  value,
+  action,
+  note = null,
+}: Pick<AccessRule, 'kind' | 'value' | 'action'> & { note?: string | null }) => {
+  const id = getDb()
+    .prepare(
+      `INSERT INTO access_rules (kind, value, action, note, created_at) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (kind, value) DO UPDATE
+         SET action = excluded.action, note = excluded.note, created_at = excluded.created_at
+       RETURNING id`
+    )
+    .pluck()
+    .get(kind, value, action, note, new Date().toISOString()) as number;
+
+  return getAccessRule(id) as AccessRule;
+};
+
+export const deleteAccessRule = (id: number) =>
+  getDb().prepare('DELETE FROM access_rules WHERE id = ?').run(id).changes > 0;
+
+/**
+ * The rule that applies to a sender, by IP hash, email address or the
+ * email's domain (a rule for `example.com` covers `mail.example.com`).
+ * When both kinds match, deny wins.
+ */
+export const findAccessRule = ({ ipHash, email }: { ipHash: string | null; email: string }) => {
+  const address = email.trim().toLowerCase();
+  const labels = address.includes('@') ? (address.split('@').pop() ?? '').split('.') : [];
+  const domains = labels.map((_label, index) => labels.slice(index).join('.'));
+
+  const row = getDb()
+    .prepare(
+      `SELECT * FROM access_rules
+       WHERE (kind = 'ip' AND value = ?)
+          OR (kind = 'email' AND value = ?)
+          OR (kind = 'domain' AND value IN (SELECT value FROM json_each(?)))
+       ORDER BY action = 'deny' DESC
+       LIMIT 1`
+    )
+    .get(ipHash, address, JSON.stringify(domains)) as AccessRuleRow | undefined;
+
+  return row ? toRule(row) : null;
+};
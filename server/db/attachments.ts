@@ -0,0 +1,52 @@
+import { getDb } from './index';
+import type { QuarantinedFile } from '../attachments';
+import type { InboxAttachment } from '../types';
+
+interface AttachmentRow {
+  id: number;
+  message_id: number;
+  filename: string;
+  content_type: string;
+  size: number;
+  sha256: string;
+  stored_name: string;
+  created_at: string;
+}
+
+// Where the file is stored stays internal
+const toAttachment = (row: AttachmentRow): InboxAttachment => ({
+  id: row.id,
+  messageId: row.message_id,
+  filename: row.filename,
+  contentType: row.content_type,
+  size: row.size,
+  sha256: row.sha256,
+  createdAt: row.created_at,
+});
+
+export const addAttachments = (messageId: number, files: QuarantinedFile[]) => {
+  const insert = getDb().prepare(
+    `INSERT INTO attachments (message_id, filename, content_type, size, sha256, stored_name,
+       created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  );
+  const timestamp = new Date().toISOString();
+  for (const file of files) {
+    insert.run(
+      messageId,
+      file.filename,
+      file.contentType,
+      file.size,
+      file.sha256,
+      file.storedName,
+      timestamp
+    );
+  }
+};
+
+export const listAttachments = (messageId: number) => {
+  const rows = getDb()
+    .prepare('SELECT * FROM attachments WHERE message_id = ? ORDER BY id')
+    .all(messageId) as AttachmentRow[];
+  return rows.map(toAttachment);
+};
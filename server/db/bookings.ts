@@ -0,0 +1,89 @@
+import { getDb } from './index';
+import type { Booking } from '../types';
+
+interface BookingRow {
+  id: number;
+  name: string;
+  email: string;
+  topic: string;
+  starts_at: string;
+  ends_at: string;
+  timezone: string;
+  ip_hash: string | null;
+  created_at: string;
+}
+
+export interface NewBooking {
+  name: string;
+  email: string;
+  topic: string;
+  startsAt: string;
+  endsAt: string;
+  timezone: string;
+  ipHash?: string | null;
+}
+
+const toBooking = (row: BookingRow): Booking => ({
+  id: row.id,
+  name: row.name,
+  email: row.email,
+  topic: row.topic,
+  startsAt: row.starts_at,
+  endsAt: row.ends_at,
+  timezone: row.timezone,
+  createdAt: row.created_at,
+});
+
+// Bookings overlapping [from, to); times are ISO strings, which sort as they compare
+export const bookingsBetween = (from: string, to: string) => {
+  const rows = getDb()
+    .prepare('SELECT * FROM bookings WHERE starts_at < ? AND ends_at > ? ORDER BY starts_at')
+    .all(to, from) as BookingRow[];
+  return rows.map(toBooking);
+};
+
+/**
+ * Stores a booking unless it overlaps one already made, in which case it
+ * returns null. The check and the insert share an immediate transaction, so
+ * two requests for the same slot can't both get it.
+ */
+export const createBooking = (booking: NewBooking) => {
+  const db = getDb();
+  const book = db.transaction(() => {
+    if (bookingsBetween(booking.startsAt, booking.endsAt).length > 0) return null;
+
+    const { lastInsertRowid } = db
+      .prepare(
+        `INSERT INTO bookings (name, email, topic, starts_at, ends_at, timezone, ip_hash,
+           created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        booking.name,
+        booking.email,
+        booking.topic,
+        booking.startsAt,
+        booking.endsAt,
+        booking.timezone,
+        booking.ipHash ?? null,
+        new Date().toISOString()
+      );
+    return getBooking(Number(lastInsertRowid));
+  });
+  return book.immediate();
+};
+
+export const getBooking = (id: number) => {
+  const row = getDb().prepare('SELECT * FROM bookings WHERE id = ?').get(id) as
+    | BookingRow
+    | undefined;
+  return row ? toBooking(row) : null;
+};
+
+// Soonest first; `upcoming` leaves out calls that are over
+export const listBookings = ({ upcoming = false }: { upcoming?: boolean } = {}) => {
+  const rows = getDb()
+    .prepare('SELECT * FROM bookings WHERE ends_at > ? ORDER BY starts_at')
+    .all(upcoming ? new Date().toISOString() : '') as BookingRow[];
+  return rows.map(toBooking);
+};
@@ -0,0 +1,133 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+
+// Schema changes, applied in order. `PRAGMA user_version` records how many have run.
+const migrations = [
+  `
+    CREATE TABLE messages (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      email TEXT NOT NULL,
+      message TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'sent', 'failed')),
+      error TEXT,
+      ip_hash TEXT,
+      user_agent TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      sent_at TEXT,
+      read_at TEXT,
+      archived_at TEXT,
+      replied_at TEXT
+    );
+    CREATE INDEX messages_created_at ON messages (created_at);
+
+    CREATE TABLE replies (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      message_id INTEGER NOT NULL REFERENCES messages (id) ON DELETE CASCADE,
+      body TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    );
+    CREATE INDEX replies_message_id ON replies (message_id);
+  `,
+  `
+    CREATE TABLE outbox (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      message_id INTEGER REFERENCES messages (id) ON DELETE CASCADE,
+      kind TEXT NOT NULL,
+      mail TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'processing', 'sent', 'dead')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at TEXT NOT NULL,
+      last_error TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      sent_at TEXT
+    );
+    CREATE INDEX outbox_due ON outbox (status, next_attempt_at);
+    CREATE INDEX outbox_message_id ON outbox (message_id);
+  `,
+  `
+    ALTER TABLE messages ADD COLUMN spam_score INTEGER NOT NULL DEFAULT 0;
+    ALTER TABLE messages ADD COLUMN spam_reasons TEXT NOT NULL DEFAULT '[]';
+  `,
+  `
+    CREATE TABLE rate_limit_hits (
+      key TEXT NOT NULL,
+      hit_at INTEGER NOT NULL
+    );
+    CREATE INDEX rate_limit_hits_key ON rate_limit_hits (key, hit_at);
+
+    CREATE TABLE access_rules (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      kind TEXT NOT NULL CHECK (kind IN ('ip', 'email', 'domain')),
+      value TEXT NOT NULL,
+      action TEXT NOT NULL CHECK (action IN ('allow', 'deny')),
+      note TEXT,
+      created_at TEXT NOT NULL,
+      UNIQUE (kind, value)
+    );
+  `,
+  `
+    CREATE TABLE attachments (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      message_id INTEGER NOT NULL REFERENCES messages (id) ON DELETE CASCADE,
+      filename TEXT NOT NULL,
+      content_type TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      sha256 TEXT NOT NULL,
+      stored_name TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    );
+    CREATE INDEX attachments_message_id ON attachments (message_id);
+  `,
+  `
+    ALTER TABLE messages ADD COLUMN inquiry_type TEXT NOT NULL DEFAULT 'general';
+    ALTER TABLE messages ADD COLUMN inquiry_details TEXT NOT NULL DEFAULT '{}';
+    CREATE INDEX messages_inquiry_type ON messages (inquiry_type);
+  `,
+  `
+    CREATE TABLE bookings (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      email TEXT NOT NULL,
+      topic TEXT NOT NULL,
+      starts_at TEXT NOT NULL UNIQUE,
+      ends_at TEXT NOT NULL,
+      timezone TEXT NOT NULL,
+      ip_hash TEXT,
+      created_at TEXT NOT NULL
+    );
+  `,
+];
+
+const migrate = (db: Database.Database) => {
+  const version = db.pragma('user_version', { simple: true }) as number;
+
+  migrations.slice(version).forEach((sql, index) => {
+    db.transaction(() => {
+      db.exec(sql);
+      db.pragma(`user_version = ${version + index + 1}`);
+    })();
+  });
+};
+
+let db: Database.Database | undefined;
+
+// Opened on first use, so importing the module has no side effects
+export const getDb = () => {
+  if (db) return db;
+
+  const file =
+    process.env.DATABASE_PATH || path.join(import.meta.dirname, '..', 'data', 'portfolio.db');
+  if (file !== ':memory:') fs.mkdirSync(path.dirname(file), { recursive: true });
+
+  db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  migrate(db);
+
+  return db;
+};
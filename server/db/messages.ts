@@ -0,0 +1,263 @@
+import { getDb } from './index';
+import type {
+  InboxMessage,
+  InboxReply,
+  InquiryDetails,
+  InquiryType,
+  MessageFolder,
+  MessageStatus,
+} from '../types';
+
+export const MESSAGE_STATUSES: readonly MessageStatus[] = ['received', 'sent', 'failed'];
+export const MESSAGE_FOLDERS: readonly MessageFolder[] = ['inbox', 'archived', 'all'];
+
+interface MessageRow {
+  id: number;
+  name: string;
+  email: string;
+  message: string;
+  status: MessageStatus;
+  error: string | null;
+  ip_hash: string | null;
+  user_agent: string | null;
+  spam_score: number;
+  spam_reasons: string;
+  inquiry_type: InquiryType;
+  inquiry_details: string;
+  created_at: string;
+  updated_at: string;
+  sent_at: string | null;
+  read_at: string | null;
+  archived_at: string | null;
+  replied_at: string | null;
+}
+
+interface ReplyRow {
+  id: number;
+  message_id: number;
+  body: string;
+  created_at: string;
+}
+
+export interface NewMessage {
+  name: string;
+  email: string;
+  message: string;
+  ipHash?: string | null;
+  userAgent?: string | null;
+  spamScore?: number;
+  spamReasons?: string[];
+  inquiryType?: InquiryType;
+  inquiryDetails?: Partial<InquiryDetails>;
+}
+
+export interface MessageQuery {
+  q?: string;
+  status?: MessageStatus | undefined;
+  inquiryType?: InquiryType | undefined;
+  folder?: MessageFolder;
+  unread?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+const now = () => new Date().toISOString();
+
+// Rows use snake_case columns; the API speaks camelCase
+const toMessage = (row: MessageRow): InboxMessage => ({
+  id: row.id,
+  name: row.name,
+  email: row.email,
+  message: row.message,
+  status: row.status,
+  error: row.error,
+  ipHash: row.ip_hash,
+  userAgent: row.user_agent,
+  spamScore: row.spam_score,
+  spamReasons: JSON.parse(row.spam_reasons),
+  inquiryType: row.inquiry_type,
+  inquiryDetails: JSON.parse(row.inquiry_details),
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  sentAt: row.sent_at,
+  readAt: row.read_at,
+  archivedAt: row.archived_at,
+  repliedAt: row.replied_at,
+});
+
+const toReply = (row: ReplyRow): InboxReply => ({
+  id: row.id,
+  messageId: row.message_id,
+  body: row.body,
+  createdAt: row.created_at,
+});
+
+// Store a submission before anything tries to deliver it
+export const createMessage = ({
+  name,
+  email,
+  message,
+  ipHash = null,
+  userAgent = null,
+  spamScore = 0,
+  spamReasons = [],
+  inquiryType = 'general',
+  inquiryDetails = {},
+}: NewMessage) => {
+  const timestamp = now();
+  const { lastInsertRowid } = getDb()
+    .prepare(
+      `INSERT INTO messages (name, email, message, ip_hash, user_agent, spam_score, spam_reasons,
+         inquiry_type, inquiry_details, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      name,
+      email,
+      message,
+      ipHash,
+      userAgent,
+      spamScore,
+      JSON.stringify(spamReasons),
+      inquiryType,
+      JSON.stringify(inquiryDetails),
+      timestamp,
+      timestamp
+    );
+
+  return getMessage(Number(lastInsertRowid)) as InboxMessage;
+};
+
+export const getMessage = (id: number) => {
+  const row = getDb().prepare('SELECT * FROM messages WHERE id = ?').get(id) as
+    | MessageRow
+    | undefined;
+  return row ? toMessage(row) : null;
+};
+
+export const setMessageStatus = (
+  id: number,
+  status: MessageStatus,
+  error: string | null = null
+) => {
+  const timestamp = now();
+  getDb()
+    .prepare(
+      `UPDATE messages
+       SET status = ?, error = ?, updated_at = ?,
+           sent_at = CASE WHEN ? = 'sent' THEN ? ELSE sent_at END
+       WHERE id = ?`
+    )
+    .run(status, error, timestamp, status, timestamp, id);
+};
+
+// LIKE wildcards in the search text are matched literally
+const likePattern = (text: string) => `%${text.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+
+/**
+ * Newest first. `q` searches name, email and message; `folder` is one of
+ * MESSAGE_FOLDERS, `status` one of MESSAGE_STATUSES and `inquiryType` a key
+ * of INQUIRY_TYPES.
+ */
+export const listMessages = ({
+  q,
+  status,
+  inquiryType,
+  folder = 'inbox',
+  unread = false,
+  limit = 50,
+  offset = 0,
+}: MessageQuery) => {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  if (q) {
+    conditions.push(
+      "(name LIKE ? ESCAPE '\\' OR email LIKE ? ESCAPE '\\' OR message LIKE ? ESCAPE '\\')"
+    );
+    params.push(likePattern(q), likePattern(q), likePattern(q));
+  }
+  if (status) {
+    conditions.push('status = ?');
+    params.push(status);
+  }
+  if (inquiryType) {
+    conditions.push('inquiry_type = ?');
+    params.push(inquiryType);
+  }
+  if (folder === 'inbox') conditions.push('archived_at IS NULL');
+  if (folder === 'archived') conditions.push('archived_at IS NOT NULL');
+  if (unread) conditions.push('read_at IS NULL');
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const db = getDb();
+  const { total } = db
+    .prepare(`SELECT COUNT(*) AS total FROM messages ${where}`)
+    .get(...params) as { total: number };
+  const rows = db
+    .prepare(`SELECT * FROM messages ${where} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`)
+    .all(...params, limit, offset) as MessageRow[];
+
+  return { messages: rows.map(toMessage), total };
+};
+
+// Unread messages in the inbox, for the badge in the admin page
+export const countUnread = () =>
+  (
+    getDb()
+      .prepare(
+        'SELECT COUNT(*) AS unread FROM messages WHERE read_at IS NULL AND archived_at IS NULL'
+      )
+      .get() as { unread: number }
+  ).unread;
+
+// `read` and `archived` are toggles; anything left undefined is unchanged
+export const updateFlags = (
+  id: number,
+  { read, archived }: { read?: boolean | undefined; archived?: boolean | undefined }
+) => {
+  const timestamp = now();
+  const flag = (value: boolean | undefined) =>
+    value === undefined ? undefined : value ? timestamp : null;
+  const changes = { read_at: flag(read), archived_at: flag(archived) };
+  const columns = (Object.keys(changes) as (keyof typeof changes)[]).filter(
+    (column) => changes[column] !== undefined
+  );
+
+  if (columns.length > 0) {
+    getDb()
+      .prepare(
+        `UPDATE messages SET ${columns.map((column) => `${column} = ?`).join(', ')}, updated_at = ?
+         WHERE id = ?`
+      )
+      .run(...columns.map((column) => changes[column]), timestamp, id);
+  }
+  return getMessage(id);
+};
+
+export const listReplies = (messageId: number) =>
+  (
+    getDb()
+      .prepare('SELECT * FROM replies WHERE message_id = ? ORDER BY created_at')
+      .all(messageId) as ReplyRow[]
+  ).map(toReply);
+
+// Replying also marks the message as read
+export const addReply = (messageId: number, body: string) => {
+  const db = getDb();
+  const timestamp = now();
+
+  db.transaction(() => {
+    db.prepare('INSERT INTO replies (message_id, body, created_at) VALUES (?, ?, ?)').run(
+      messageId,
+      body,
+      timestamp
+    );
+    db.prepare(
+      `UPDATE messages SET replied_at = ?, read_at = COALESCE(read_at, ?), updated_at = ?
+       WHERE id = ?`
+    ).run(timestamp, timestamp, timestamp, messageId);
+  })();
+
+  return listReplies(messageId);
+};
@@ -0,0 +1,164 @@
+import { getDb } from './index';
+import type { DeliveryStatus, InboxDelivery, MailMessage, OutboxJob } from '../types';
+
+export const OUTBOX_STATUSES: readonly DeliveryStatus[] = ['pending', 'processing', 'sent', 'dead'];
+
+interface OutboxRow {
+  id: number;
+  message_id: number | null;
+  kind: string;
+  mail: string;
+  status: DeliveryStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+  sent_at: string | null;
+}
+
+const now = () => new Date().toISOString();
+
+// The stored mail options are internal; the admin API only sees delivery state
+const toJob = (row: OutboxRow): InboxDelivery => ({
+  id: row.id,
+  messageId: row.message_id,
+  kind: row.kind,
+  status: row.status,
+  attempts: row.attempts,
+  nextAttemptAt: row.next_attempt_at,
+  lastError: row.last_error,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  sentAt: row.sent_at,
+});
+
+/**
+ * Queue mail options for delivery. `kind` names the email
+ * (`owner-notification`, `auto-reply`, ...) so each is retried on its own.
+ */
+export const enqueueMail = ({
+  messageId = null,
+  kind,
+  mail,
+}: {
+  messageId?: number | null;
+  kind: string;
+  mail: MailMessage;
+}) => {
+  const timestamp = now();
+  const { lastInsertRowid } = getDb()
+    .prepare(
+      `INSERT INTO outbox (message_id, kind, mail, next_attempt_at, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    )
+    .run(messageId, kind, JSON.stringify(mail), timestamp, timestamp, timestamp);
+
+  return getJob(Number(lastInsertRowid)) as InboxDelivery;
+};
+
+export const getJob = (id: number) => {
+  const row = getDb().prepare('SELECT * FROM outbox WHERE id = ?').get(id) as
+    | OutboxRow
+    | undefined;
+  return row ? toJob(row) : null;
+};
+
+// Marks due jobs as processing and returns them with their mail options
+export const claimDueJobs = (limit: number): OutboxJob[] => {
+  const db = getDb();
+  const timestamp = now();
+
+  return db.transaction(() => {
+    const rows = db
+      .prepare(
+        `SELECT * FROM outbox WHERE status = 'pending' AND next_attempt_at <= ?
+         ORDER BY next_attempt_at, id LIMIT ?`
+      )
+      .all(timestamp, limit) as OutboxRow[];
+    const claim = db.prepare(
+      `UPDATE outbox SET status = 'processing', attempts = attempts + 1, updated_at = ?
+       WHERE id = ?`
+    );
+
+    return rows.map((row) => {
+      claim.run(timestamp, row.id);
+      return { ...toJob(row), attempts: row.attempts + 1, mail: JSON.parse(row.mail) };
+    });
+  })();
+};
+
+export const markSent = (id: number) => {
+  const timestamp = now();
+  getDb()
+    .prepare(
+      `UPDATE outbox SET status = 'sent', last_error = NULL, sent_at = ?, updated_at = ?
+       WHERE id = ?`
+    )
+    .run(timestamp, timestamp, id);
+};
+
+export const scheduleRetry = (id: number, error: string, nextAttemptAt: Date) => {
+  getDb()
+    .prepare(
+      `UPDATE outbox SET status = 'pending', last_error = ?, next_attempt_at = ?, updated_at = ?
+       WHERE id = ?`
+    )
+    .run(error, nextAttemptAt.toISOString(), now(), id);
+};
+
+// Dead letters stay in the table until someone requeues them
+export const markDead = (id: number, error: string) => {
+  getDb()
+    .prepare("UPDATE outbox SET status = 'dead', last_error = ?, updated_at = ? WHERE id = ?")
+    .run(error, now(), id);
+};
+
+// Gives a dead job a fresh set of attempts, due immediately
+export const requeueJob = (id: number) => {
+  const timestamp = now();
+  getDb()
+    .prepare(
+      `UPDATE outbox SET status = 'pending', attempts = 0, next_attempt_at = ?, updated_at = ?
+       WHERE id = ? AND status = 'dead'`
+    )
+    .run(timestamp, timestamp, id);
+  return getJob(id);
+};
+
+// Jobs left processing by a crash or restart go back in the queue
+export const releaseStaleJobs = () =>
+  getDb()
+    .prepare("UPDATE outbox SET status = 'pending', updated_at = ? WHERE status = 'processing'")
+    .run(now()).changes;
+
+export const listJobs = ({
+  status,
+  messageId,
+  limit = 50,
+  offset = 0,
+}: {
+  status?: DeliveryStatus | undefined;
+  messageId?: number;
+  limit?: number;
+  offset?: number;
+} = {}) => {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  if (status) {
+    conditions.push('status = ?');
+    params.push(status);
+  }
+  if (messageId) {
+    conditions.push('message_id = ?');
+    params.push(messageId);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  return (
+    getDb()
+      .prepare(`SELECT * FROM outbox ${where} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`)
+      .all(...params, limit, offset) as OutboxRow[]
+  ).map(toJob);
+};
@@ -0,0 +1,101 @@
+// Loaded first, since some modules read their settings as they are imported
+import 'dotenv/config';
+import express, { type ErrorRequestHandler } from 'express';
+import cors from 'cors';
+import helmet from 'helmet';
+import emailRoutes from './routes/email';
+import adminRoutes from './routes/admin';
+import bookingRoutes from './routes/booking';
+import { startOutboxWorker } from './lib/outbox';
+import { getTransport } from './transports';
+import { getSpamConfig } from './spam/config';
+import { getRateLimitStore } from './rateLimit';
+import { getBookingConfig } from './booking/config';
+import { getIpHashSecret } from './lib/hashIp';
+import { getTrustProxy } from './lib/trustProxy';
+
+const app = express();
+
+// Security middleware
+app.use(helmet());
+
+// CORS configuration
+const corsOptions: cors.CorsOptions = {
+  origin: process.env.ALLOWED_ORIGINS?.split(',') || [
+    'http://localhost:5173',
+    'http://localhost:3000',
+  ],
+  methods: ['GET', 'POST', 'PATCH', 'DELETE'],
+  // So the contact form can read how many messages it has left
+  exposedHeaders: [
+    'RateLimit-Limit',
+    'RateLimit-Remaining',
+    'RateLimit-Reset',
+    'RateLimit-Policy',
+    'Retry-After',
+  ],
+  credentials: true,
+  optionsSuccessStatus: 200,
+};
+
+app.use(cors(corsOptions));
+
+// Body parsing middleware. Nothing sent as JSON comes close to 100kb; files
+// come as multipart, parsed by the contact route within its own limits.
+app.use(express.json({ limit: '100kb' }));
+app.use(express.urlencoded({ extended: true, limit: '100kb' }));
+
+// API routes
+app.use('/api/email', emailRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/booking', bookingRoutes);
+
+// Health check endpoint
+app.get('/health', (_req, res) => {
+  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+});
+
+// 404 handler
+app.use((_req, res) => {
+  res.status(404).json({ success: false, message: 'Route not found' });
+});
+
+// Global error handler
+const errorHandler: ErrorRequestHandler = (err, _req, res, _next) => {
+  // Body parsing errors carry their own status, like 413 for a body over the limit
+  if (typeof err.status === 'number' && err.status >= 400 && err.status < 500) {
+    res.status(err.status).json({ success: false, message: err.message });
+    return;
+  }
+
+  console.error('Global error:', err);
+  res.status(500).json({
+    success: false,
+    message: 'Internal server error',
+  });
+};
+
+app.use(errorHandler);
+
+// Fail fast on invalid settings rather than on the first message
+try {
+  // Which X-Forwarded-For entries to believe, so `req.ip` is the visitor behind a proxy
+  const trustProxy = getTrustProxy();
+  app.set('trust proxy', trustProxy);
+  console.log(`Trusted proxies: ${trustProxy === false ? 'none' : trustProxy}`);
+  console.log(`Mail transport: ${getTransport().name}`);
+  console.log(`Spam checks: ${getSpamConfig().checks.join(', ') || 'none'}`);
+  getIpHashSecret();
+  console.log(`Rate limit store: ${getRateLimitStore().name}`);
+  const booking = getBookingConfig();
+  console.log(`Call booking: ${booking.enabled ? `on (${booking.timezone})` : 'off'}`);
+} catch (error) {
+  console.error((error as Error).message);
+  process.exit(1);
+}
+
+const PORT = process.env.PORT || 3001;
+app.listen(PORT, () => {
+  console.log(`Server running on port ${PORT}`);
+  startOutboxWorker();
+});
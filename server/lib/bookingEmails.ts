@@ -0,0 +1,49 @@
+/**
+ * The emails sent for a booked call, both carrying the same invitation so
+ * the event lines up in each calendar. Each returns the message options the
+ * outbox stores and delivers.
+ */
+
+import { senderAddress } from '../transports';
+import { renderEmail } from '../templates';
+import { callInvite } from '../booking/ics';
+import { getPortfolio } from './portfolio';
+import type { Booking, MailCalendarEvent, MailMessage } from '../types';
+
+const ownerAddress = () => process.env.CONTACT_EMAIL || getPortfolio().email;
+
+const invite = (booking: Booking): MailCalendarEvent => {
+  const portfolio = getPortfolio();
+  return {
+    method: 'REQUEST',
+    filename: 'invite.ics',
+    content: callInvite({
+      booking,
+      organizer: { name: portfolio.name, address: ownerAddress() },
+      summary: `Call: ${portfolio.name} and ${booking.name}`,
+      host: new URL(portfolio.url).hostname,
+    }),
+  };
+};
+
+// Email to site owner, with the time in their time zone
+export const bookingNotification = (
+  booking: Booking,
+  timezone: string,
+  confirmed = true
+): MailMessage => ({
+  from: { name: 'Portfolio Bookings', address: senderAddress() },
+  to: ownerAddress(),
+  replyTo: booking.email,
+  ...renderEmail('booking-notification', { booking, timezone, confirmed }),
+  icalEvent: invite(booking),
+});
+
+// Confirmation to the guest, with the time in theirs
+export const bookingConfirmation = (booking: Booking): MailMessage => ({
+  from: { name: getPortfolio().name, address: senderAddress() },
+  to: booking.email,
+  replyTo: ownerAddress(),
+  ...renderEmail('booking-confirmation', { booking }),
+  icalEvent: invite(booking),
+});
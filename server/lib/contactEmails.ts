@@ -0,0 +1,37 @@
+/**
+ * The emails sent for a contact form submission. Each returns the message
+ * options the outbox stores and delivers.
+ */
+
+import { senderAddress } from '../transports';
+import { renderEmail } from '../templates';
+import { getPortfolio } from './portfolio';
+import { mailAttachments, type QuarantinedFile } from '../attachments';
+import type { ContactFormData, InboxMessage, MailMessage } from '../types';
+
+// Email to site owner, with the sender's files attached
+export const ownerNotification = (
+  submission: ContactFormData,
+  attachments: QuarantinedFile[] = []
+): MailMessage => ({
+  from: { name: 'Portfolio Contact', address: senderAddress() },
+  to: process.env.CONTACT_EMAIL || getPortfolio().email,
+  replyTo: submission.email,
+  ...renderEmail('owner-notification', { submission, attachments }),
+  ...(attachments.length > 0 && { attachments: mailAttachments(attachments) }),
+});
+
+// Auto-reply to the sender
+export const autoReply = (submission: ContactFormData): MailMessage => ({
+  from: { name: getPortfolio().name, address: senderAddress() },
+  to: submission.email,
+  ...renderEmail('auto-reply', { submission }),
+});
+
+// Reply written in the admin inbox
+export const adminReply = (message: InboxMessage, body: string): MailMessage => ({
+  from: { name: getPortfolio().name, address: senderAddress() },
+  to: message.email,
+  replyTo: process.env.CONTACT_EMAIL || senderAddress(),
+  ...renderEmail('admin-reply', { message, body }),
+});
@@ -0,0 +1,63 @@
+/**
+ * Readers for settings in the environment. Each one records what is wrong
+ * with a value in `problems` instead of throwing, so a settings module can
+ * report every invalid setting together in one ConfigError.
+ */
+
+export type Env = Record<string, string | undefined>;
+
+// Lists every problem at once, so a misconfigured server can be fixed in one go
+export class ConfigError extends Error {
+  problems: string[];
+
+  constructor(area: string, problems: string[]) {
+    super(`Invalid ${area} configuration:\n${problems.map((line) => `  - ${line}`).join('\n')}`);
+    this.name = 'ConfigError';
+    this.problems = problems;
+  }
+}
+
+export const integer = (
+  env: Env,
+  name: string,
+  fallback: number,
+  { min, max }: { min: number; max: number },
+  problems: string[]
+) => {
+  const value = env[name];
+  if (value === undefined || value === '') return fallback;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    problems.push(`${name} must be a whole number between ${min} and ${max}`);
+  }
+  return number;
+};
+
+export const boolean = (env: Env, name: string, fallback: boolean, problems: string[]) => {
+  const value = env[name];
+  if (value === undefined || value === '') return fallback;
+  if (value !== 'true' && value !== 'false') problems.push(`${name} must be true or false`);
+  return value === 'true';
+};
+
+export const oneOf = <T extends string>(
+  env: Env,
+  name: string,
+  options: readonly T[],
+  fallback: T,
+  problems: string[]
+) => {
+  const value = (env[name] || fallback) as T;
+  if (!options.includes(value)) problems.push(`${name} must be one of: ${options.join(', ')}`);
+  return value;
+};
+
+// Comma-separated values, trimmed and lowercased; `fallback` when unset
+export const list = (env: Env, name: string, fallback: readonly string[] = []) => {
+  const value = env[name];
+  if (value === undefined || value.trim() === '') return [...fallback];
+  return value
+    .split(',')
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean);
+};
@@ -0,0 +1,48 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+const secretFile = () =>
+  process.env.IP_HASH_SECRET_FILE || path.join(import.meta.dirname, '..', 'data', 'ip-hash-secret');
+
+/**
+ * Without IP_HASH_SECRET, a secret is generated once and kept in
+ * IP_HASH_SECRET_FILE, so hashes still match after a restart: rate limit
+ * windows carry over and IP access rules keep matching.
+ */
+const loadSecret = () => {
+  if (process.env.IP_HASH_SECRET) return process.env.IP_HASH_SECRET;
+
+  const file = secretFile();
+  try {
+    return fs.readFileSync(file, 'utf8').trim();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+
+  const generated = crypto.randomBytes(32).toString('hex');
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  try {
+    fs.writeFileSync(file, `${generated}\n`, { mode: 0o600, flag: 'wx' });
+  } catch (error) {
+    // Another process wrote it first; use theirs
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      return fs.readFileSync(file, 'utf8').trim();
+    }
+    throw error;
+  }
+  console.warn(`IP_HASH_SECRET is not set; generated one and saved it to ${file}`);
+  return generated;
+};
+
+let key: string | undefined;
+
+// Read or generated on first use
+export const getIpHashSecret = () => {
+  key = key || loadSecret();
+  return key;
+};
+
+// Keyed hash, so stored addresses can be compared but not reversed
+export const hashIp = (ip: string | undefined) =>
+  ip ? crypto.createHmac('sha256', getIpHashSecret()).update(ip).digest('hex') : null;
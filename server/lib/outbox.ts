@@ -0,0 +1,86 @@
+import { getTransport } from '../transports';
+import { setMessageStatus } from '../db/messages';
+import { claimDueJobs, markSent, scheduleRetry, markDead, releaseStaleJobs } from '../db/outbox';
+import type { DeliveryError, MessageStatus, OutboxJob } from '../types';
+
+const MAX_ATTEMPTS = Number(process.env.OUTBOX_MAX_ATTEMPTS) || 6;
+const BASE_DELAY_MS = Number(process.env.OUTBOX_RETRY_DELAY_MS) || 30 * 1000; // 30 seconds
+const MAX_DELAY_MS = 60 * 60 * 1000; // 1 hour
+const POLL_INTERVAL_MS = Number(process.env.OUTBOX_POLL_MS) || 15 * 1000;
+const BATCH_SIZE = 10;
+
+// 30s, 1m, 2m, 4m, ... capped at an hour, with ±20% jitter so retries don't bunch up
+const retryDelay = (attempts: number) => {
+  const delay = Math.min(BASE_DELAY_MS * 2 ** (attempts - 1), MAX_DELAY_MS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+};
+
+// The submission's status follows its owner notification
+const updateMessage = (job: OutboxJob, status: MessageStatus, error?: string) => {
+  if (job.messageId && job.kind === 'owner-notification') {
+    setMessageStatus(job.messageId, status, error);
+  }
+};
+
+let timer: NodeJS.Timeout | undefined;
+let running = false;
+
+const deliver = async (job: OutboxJob) => {
+  try {
+    const info = await getTransport().send(job.mail);
+    markSent(job.id);
+    updateMessage(job, 'sent');
+    console.log(`Outbox: sent ${job.kind} #${job.id}:`, info.messageId);
+  } catch (caught) {
+    const error = caught as DeliveryError;
+    const reason = error.message || String(error);
+
+    if (error.permanent || job.attempts >= MAX_ATTEMPTS) {
+      markDead(job.id, reason);
+      updateMessage(job, 'failed', reason);
+      console.error(`Outbox: ${job.kind} #${job.id} failed for good:`, reason);
+    } else {
+      const delay = retryDelay(job.attempts);
+      scheduleRetry(job.id, reason, new Date(Date.now() + delay));
+      console.warn(`Outbox: ${job.kind} #${job.id} failed, retrying in ${delay}ms:`, reason);
+    }
+  }
+};
+
+// Deliver everything that's due, one batch after another
+export const processOutbox = async () => {
+  if (running) return;
+  running = true;
+
+  try {
+    let jobs: OutboxJob[];
+    while ((jobs = claimDueJobs(BATCH_SIZE)).length > 0) {
+      for (const job of jobs) await deliver(job);
+    }
+  } catch (error) {
+    console.error('Outbox error:', error);
+  } finally {
+    running = false;
+  }
+};
+
+// Called after enqueuing, so new mail goes out without waiting for the next poll
+export const wakeOutbox = () => {
+  if (timer) setImmediate(processOutbox);
+};
+
+export const startOutboxWorker = () => {
+  if (timer) return;
+
+  const released = releaseStaleJobs();
+  if (released > 0) console.warn(`Outbox: requeued ${released} interrupted job(s)`);
+
+  timer = setInterval(processOutbox, POLL_INTERVAL_MS);
+  timer.unref();
+  processOutbox();
+};
+
+export const stopOutboxWorker = () => {
+  clearInterval(timer);
+  timer = undefined;
+};
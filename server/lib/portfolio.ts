@@ -0,0 +1,64 @@
+import fs from 'fs';
+import path from 'path';
+import { parse } from 'yaml';
+
+/**
+ * The parts of the site's content (`content/` at the repository root) that
+ * emails need, read from the same files the frontend is built from.
+ */
+
+export interface Portfolio {
+  name: string;
+  title: string;
+  email: string;
+  phone: string;
+  location: string;
+  availability: string;
+  url: string;
+  linkedin: string;
+  github: string;
+  socials: { name: string; url: string }[];
+}
+
+interface SocialEntry {
+  id: string;
+  name: string;
+  url: string;
+}
+
+const CONTENT_DIR =
+  process.env.CONTENT_DIR || path.join(import.meta.dirname, '..', '..', 'content');
+
+// Content files may be YAML or JSON, like the build accepts
+const readContent = (name: string) => {
+  for (const extension of ['yaml', 'yml', 'json']) {
+    const file = path.join(CONTENT_DIR, `${name}.${extension}`);
+    if (fs.existsSync(file)) return parse(fs.readFileSync(file, 'utf-8'));
+  }
+  throw new Error(`Missing content file: ${path.join(CONTENT_DIR, name)}.yaml`);
+};
+
+let portfolio: Portfolio | undefined;
+
+export const getPortfolio = () => {
+  if (portfolio) return portfolio;
+
+  const profile = readContent('profile');
+  const socials: SocialEntry[] = readContent('socials');
+  const site = readContent('site');
+  const social = (id: string) => socials.find((item) => item.id === id)?.url ?? '';
+
+  portfolio = {
+    name: profile.name,
+    title: profile.title,
+    email: profile.email,
+    phone: profile.phone,
+    location: profile.shortLocation,
+    availability: profile.availability,
+    url: site.url,
+    linkedin: social('linkedin'),
+    github: social('github'),
+    socials: socials.map(({ name, url }) => ({ name, url })),
+  };
+  return portfolio;
+};
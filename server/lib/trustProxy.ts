@@ -0,0 +1,50 @@
+import { isIP } from 'net';
+import { ConfigError, list, type Env } from './env';
+
+// Ranges Express knows by name
+const PRESETS = ['loopback', 'linklocal', 'uniquelocal'];
+
+// An address, or a subnet like 10.0.0.0/8
+const isAddress = (value: string) => {
+  const [address = '', prefix, ...rest] = value.split('/');
+  const version = isIP(address);
+  if (!version || rest.length > 0) return false;
+  const maxPrefix = version === 4 ? 32 : 128;
+  return prefix === undefined || (/^\d+$/.test(prefix) && Number(prefix) <= maxPrefix);
+};
+
+export type TrustProxy = false | number | string[];
+
+/**
+ * Which proxies in front of the server to believe about the visitor's address
+ * (X-Forwarded-For), as Express's `trust proxy` setting: none by default, a
+ * number of hops, or addresses, subnets and presets like `loopback`. `true`
+ * is refused, since it believes whatever address a client claims, and rate
+ * limits and IP rules would be easy to dodge.
+ */
+export const loadTrustProxy = (env: Env = process.env): TrustProxy => {
+  const value = env.TRUST_PROXY?.trim().toLowerCase() ?? '';
+  if (value === '' || value === 'false' || value === '0') return false;
+  if (/^\d+$/.test(value)) {
+    if (Number(value) <= 10) return Number(value);
+    throw new ConfigError('proxy', ['TRUST_PROXY must be at most 10 hops']);
+  }
+
+  const entries = list(env, 'TRUST_PROXY');
+  const invalid = entries.filter((entry) => !PRESETS.includes(entry) && !isAddress(entry));
+  if (value === 'true' || invalid.length > 0) {
+    throw new ConfigError('proxy', [
+      'TRUST_PROXY must be a number of hops or a comma-separated list of addresses, subnets ' +
+        `or ${PRESETS.join(', ')}${value === 'true' ? '' : ` (not ${invalid.join(', ')})`}`,
+    ]);
+  }
+  return entries;
+};
+
+let trustProxy: TrustProxy | undefined;
+
+// Loaded on first use; throws a ConfigError when the setting is invalid
+export const getTrustProxy = () => {
+  trustProxy = trustProxy ?? loadTrustProxy();
+  return trustProxy;
+};
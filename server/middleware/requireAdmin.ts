@@ -0,0 +1,30 @@
+import crypto from 'crypto';
+import type { RequestHandler } from 'express';
+
+const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+
+// Bearer token check against ADMIN_TOKEN; the admin API is off until one is set
+const requireAdmin: RequestHandler = (req, res, next) => {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    res.status(503).json({
+      success: false,
+      message: 'Admin API is disabled. Set ADMIN_TOKEN to enable it.',
+    });
+    return;
+  }
+
+  const [scheme, provided] = (req.get('authorization') || '').split(' ');
+  // Comparing digests keeps the comparison constant-time whatever the lengths
+  const valid =
+    scheme === 'Bearer' && !!provided && crypto.timingSafeEqual(digest(provided), digest(token));
+
+  if (!valid) {
+    res.status(401).json({ success: false, message: 'Unauthorized' });
+    return;
+  }
+
+  next();
+};
+
+export default requireAdmin;
@@ -0,0 +1,79 @@
+import type express from 'express';
+import { hashIp } from '../lib/hashIp';
+import { findAccessRule } from '../db/accessRules';
+import {
+  consumeRateLimit,
+  refundRateLimit,
+  setRateLimitHeaders,
+  type LimitKind,
+} from '../rateLimit';
+import type { SenderCheck, SenderMessages } from '../types';
+
+/**
+ * Access rules and rate limits for the public forms. `checkSender` needs only
+ * the connection, so it runs before the body is parsed and a refused client
+ * can't make the server buffer its uploads first. Email and domain rules
+ * need the body; `senderDenied` applies them once it's parsed.
+ */
+
+const senderOf = (req: express.Request): SenderCheck => {
+  if (!req.sender) throw new Error('checkSender must run before the sender is checked');
+  return req.sender;
+};
+
+// Counts a hit against the sender's `kind` limit and sets the headers for every limit checked
+// so far; when this one is reached, answers 429 and returns true
+export const limited = (
+  req: express.Request,
+  res: express.Response,
+  kind: LimitKind,
+  id: string
+) => {
+  const sender = senderOf(req);
+  if (sender.allowed) return false;
+
+  const result = consumeRateLimit(kind, id);
+  sender.limits.push(result);
+  const retryAfter = setRateLimitHeaders(res, sender.limits);
+  if (result.allowed) return false;
+
+  res.status(429).json({ success: false, message: sender.messages.rateLimited[kind], retryAfter });
+  return true;
+};
+
+// Checks the IP's access rule and counts a hit against its limit
+export const checkSender =
+  (messages: SenderMessages): express.RequestHandler =>
+  (req, res, next) => {
+    const ipHash = hashIp(req.ip);
+    const rule = findAccessRule({ ipHash, email: '' });
+    req.sender = { ipHash, messages, limits: [], allowed: rule?.action === 'allow' };
+
+    if (rule?.action === 'deny') {
+      res.status(403).json({ success: false, message: messages.denied });
+      return;
+    }
+    if (limited(req, res, 'ip', ipHash ?? 'unknown')) return;
+    next();
+  };
+
+/**
+ * Checks the rules for the sender's email and its domain; answers 403 and
+ * returns true when one denies them. One that allows them lifts the limits,
+ * taking back the IP hit counted before it could be known.
+ */
+export const senderDenied = (req: express.Request, res: express.Response, email: string) => {
+  const sender = senderOf(req);
+  const rule = findAccessRule({ ipHash: sender.ipHash, email });
+  if (rule?.action === 'deny') {
+    res.status(403).json({ success: false, message: sender.messages.denied });
+    return true;
+  }
+
+  if (rule?.action === 'allow' && !sender.allowed) {
+    if (sender.limits.length > 0) refundRateLimit('ip', sender.ipHash ?? 'unknown');
+    sender.limits = [];
+    sender.allowed = true;
+  }
+  return false;
+};
@@ -0,0 +1,56 @@
+import path from 'path';
+import { ConfigError, integer, oneOf, type Env } from '../lib/env';
+
+export const RATE_LIMIT_STORES = ['sqlite', 'memory', 'file'] as const;
+
+export type RateLimitStoreName = (typeof RATE_LIMIT_STORES)[number];
+
+// At most `max` hits in any `windowMs`
+export interface LimitRule {
+  max: number;
+  windowMs: number;
+}
+
+export interface RateLimitConfig {
+  store: RateLimitStoreName;
+  // Where the file store keeps its counts
+  file: string;
+  ip: LimitRule;
+  email: LimitRule;
+}
+
+const rule = (env: Env, prefix: string, max: number, minutes: number, problems: string[]) => ({
+  max: integer(env, `${prefix}_MAX`, max, { min: 1, max: 10000 }, problems),
+  windowMs:
+    integer(env, `${prefix}_WINDOW_MINUTES`, minutes, { min: 1, max: 7 * 24 * 60 }, problems) *
+    60 * 1000,
+});
+
+/**
+ * Rate limit settings from the environment. Contact submissions are limited
+ * per IP address (every attempt counts) and per sender email (only valid
+ * submissions count). Throws a ConfigError listing every invalid setting.
+ */
+export const loadRateLimitConfig = (env: Env = process.env): RateLimitConfig => {
+  const problems: string[] = [];
+
+  const config: RateLimitConfig = {
+    store: oneOf(env, 'RATE_LIMIT_STORE', RATE_LIMIT_STORES, 'sqlite', problems),
+    file: path.resolve(
+      env.RATE_LIMIT_FILE || path.join(import.meta.dirname, '..', 'data', 'rate-limits.json')
+    ),
+    ip: rule(env, 'RATE_LIMIT_IP', 10, 60, problems),
+    email: rule(env, 'RATE_LIMIT_EMAIL', 3, 60, problems),
+  };
+
+  if (problems.length > 0) throw new ConfigError('rate limit', problems);
+  return config;
+};
+
+let config: RateLimitConfig | undefined;
+
+// Loaded on first use; throws a ConfigError when the settings are invalid
+export const getRateLimitConfig = () => {
+  config = config || loadRateLimitConfig();
+  return config;
+};
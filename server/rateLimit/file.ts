@@ -0,0 +1,53 @@
+import fs from 'fs';
+import path from 'path';
+import { createMemoryStore, type HitLog } from './memory';
+import type { RateLimitStore } from '../types';
+
+const load = (file: string): HitLog => {
+  try {
+    return new Map(Object.entries(JSON.parse(fs.readFileSync(file, 'utf8'))));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn(`Could not read ${file}; starting with no rate limit hits:`, error);
+    }
+    return new Map();
+  }
+};
+
+/**
+ * The memory store, saved to a JSON file after every change. Written to a
+ * temporary file and renamed, so a crash never leaves half a file behind.
+ * Meant for one server process; use the sqlite store to share limits.
+ */
+export const createFileStore = (file: string): RateLimitStore => {
+  const log = load(file);
+  const memory = createMemoryStore(log);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+
+  const save = () => {
+    const temp = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(temp, JSON.stringify(Object.fromEntries(log)));
+    fs.renameSync(temp, file);
+  };
+
+  return {
+    name: 'file',
+    hits: memory.hits,
+    add: (key, at) => {
+      memory.add(key, at);
+      save();
+    },
+    prune: (before) => {
+      memory.prune(before);
+      save();
+    },
+    clear: (key) => {
+      memory.clear(key);
+      save();
+    },
+    removeLatest: (key) => {
+      memory.removeLatest(key);
+      save();
+    },
+  };
+};
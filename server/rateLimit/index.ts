@@ -0,0 +1,120 @@
+import crypto from 'crypto';
+import type express from 'express';
+import { getRateLimitConfig, type RateLimitConfig } from './config';
+import { createMemoryStore } from './memory';
+import { createSqliteStore } from './sqlite';
+import { createFileStore } from './file';
+import type { RateLimitStore } from '../types';
+
+/**
+ * Sliding-window rate limits for the contact form: at most `max` hits in any
+ * `windowMs`, counted from the hit log in the configured store
+ * (RATE_LIMIT_STORE). Senders are limited by IP address and by email address
+ * separately, so one busy network doesn't block everyone behind it.
+ */
+
+export type LimitKind = 'ip' | 'email';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  windowMs: number;
+  // When the oldest hit in the window expires, freeing up a slot (ms)
+  resetAt: number;
+}
+
+const createStore = (config: RateLimitConfig): RateLimitStore => {
+  switch (config.store) {
+    case 'memory':
+      return createMemoryStore();
+    case 'sqlite':
+      return createSqliteStore();
+    case 'file':
+      return createFileStore(config.file);
+  }
+};
+
+let store: RateLimitStore | undefined;
+
+export const getRateLimitStore = () => {
+  store = store || createStore(getRateLimitConfig());
+  return store;
+};
+
+// IPs arrive hashed already; email addresses are hashed so the store holds none
+const counterKey = (kind: LimitKind, id: string) =>
+  kind === 'email'
+    ? `email:${crypto.createHash('sha256').update(id.trim().toLowerCase()).digest('hex')}`
+    : `ip:${id}`;
+
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+let prunedAt = 0;
+
+// Hits older than the longest window can't count any more
+const pruneExpired = (config: RateLimitConfig, now: number) => {
+  if (now - prunedAt < PRUNE_INTERVAL_MS) return;
+  prunedAt = now;
+  getRateLimitStore().prune(now - Math.max(config.ip.windowMs, config.email.windowMs));
+};
+
+/**
+ * Counts a hit for `id` against its limit, unless the limit is already
+ * reached: denied attempts aren't recorded, so waiting always helps.
+ */
+export const consumeRateLimit = (
+  kind: LimitKind,
+  id: string,
+  config: RateLimitConfig = getRateLimitConfig(),
+  now = Date.now()
+): RateLimitResult => {
+  const { max, windowMs } = config[kind];
+  const key = counterKey(kind, id);
+  pruneExpired(config, now);
+
+  const hits = getRateLimitStore().hits(key, now - windowMs);
+  const allowed = hits.length < max;
+  if (allowed) {
+    getRateLimitStore().add(key, now);
+    hits.push(now);
+  }
+
+  return {
+    allowed,
+    limit: max,
+    remaining: Math.max(0, max - hits.length),
+    windowMs,
+    resetAt: (hits[0] ?? now) + windowMs,
+  };
+};
+
+export const resetRateLimit = (kind: LimitKind, id: string) =>
+  getRateLimitStore().clear(counterKey(kind, id));
+
+// Takes back the latest hit for `id`, for a request that turned out not to count
+export const refundRateLimit = (kind: LimitKind, id: string) =>
+  getRateLimitStore().removeLatest(counterKey(kind, id));
+
+/**
+ * Sets the `RateLimit-*` headers (IETF draft) for the limit closest to
+ * running out, and `Retry-After` when it has. Returns the seconds until
+ * that limit resets.
+ */
+export const setRateLimitHeaders = (res: express.Response, results: RateLimitResult[]) => {
+  const [tightest] = [...results].sort(
+    (a, b) => Number(a.allowed) - Number(b.allowed) || a.remaining - b.remaining
+  );
+  if (!tightest) return 0;
+
+  const reset = Math.max(1, Math.ceil((tightest.resetAt - Date.now()) / 1000));
+  res.set({
+    'RateLimit-Policy': results
+      .map(({ limit, windowMs }) => `${limit};w=${windowMs / 1000}`)
+      .join(', '),
+    'RateLimit-Limit': String(tightest.limit),
+    'RateLimit-Remaining': String(tightest.remaining),
+    'RateLimit-Reset': String(reset),
+  });
+  if (!tightest.allowed) res.set('Retry-After', String(reset));
+  return reset;
+};
@@ -0,0 +1,28 @@
+import type { RateLimitStore } from '../types';
+
+export type HitLog = Map<string, number[]>;
+
+// Keeps `log` as it is changed, so the file store can build on it
+export const createMemoryStore = (log: HitLog = new Map()): RateLimitStore => ({
+  name: 'memory',
+  hits: (key, since) => (log.get(key) ?? []).filter((at) => at >= since),
+  add: (key, at) => {
+    log.set(key, [...(log.get(key) ?? []), at]);
+  },
+  prune: (before) => {
+    for (const [key, times] of log) {
+      const kept = times.filter((at) => at >= before);
+      if (kept.length > 0) log.set(key, kept);
+      else log.delete(key);
+    }
+  },
+  clear: (key) => {
+    log.delete(key);
+  },
+  // Hits are added in time order
+  removeLatest: (key) => {
+    const kept = (log.get(key) ?? []).slice(0, -1);
+    if (kept.length > 0) log.set(key, kept);
+    else log.delete(key);
+  },
+});
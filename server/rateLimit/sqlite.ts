@@ -0,0 +1,29 @@
+import { getDb } from '../db';
+import type { RateLimitStore } from '../types';
+
+// Hits in the app's database, so limits survive restarts and are shared between processes
+export const createSqliteStore = (): RateLimitStore => ({
+  name: 'sqlite',
+  hits: (key, since) =>
+    getDb()
+      .prepare('SELECT hit_at FROM rate_limit_hits WHERE key = ? AND hit_at >= ? ORDER BY hit_at')
+      .pluck()
+      .all(key, since) as number[],
+  add: (key, at) => {
+    getDb().prepare('INSERT INTO rate_limit_hits (key, hit_at) VALUES (?, ?)').run(key, at);
+  },
+  prune: (before) => {
+    getDb().prepare('DELETE FROM rate_limit_hits WHERE hit_at < ?').run(before);
+  },
+  clear: (key) => {
+    getDb().prepare('DELETE FROM rate_limit_hits WHERE key = ?').run(key);
+  },
+  removeLatest: (key) => {
+    getDb()
+      .prepare(
+        `DELETE FROM rate_limit_hits WHERE rowid =
+           (SELECT rowid FROM rate_limit_hits WHERE key = ? ORDER BY hit_at DESC LIMIT 1)`
+      )
+      .run(key);
+  },
+});
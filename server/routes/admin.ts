@@ -0,0 +1,285 @@
+import { isIP } from 'net';
+import express from 'express';
+import requireAdmin from '../middleware/requireAdmin';
+import { getTransport } from '../transports';
+import { adminReply } from '../lib/contactEmails';
+import {
+  MESSAGE_STATUSES,
+  MESSAGE_FOLDERS,
+  getMessage,
+  listMessages,
+  countUnread,
+  updateFlags,
+  listReplies,
+  addReply,
+} from '../db/messages';
+import { OUTBOX_STATUSES, getJob, listJobs, requeueJob } from '../db/outbox';
+import { listAttachments } from '../db/attachments';
+import { listBookings } from '../db/bookings';
+import {
+  ACCESS_RULE_ACTIONS,
+  ACCESS_RULE_KINDS,
+  deleteAccessRule,
+  listAccessRules,
+  saveAccessRule,
+} from '../db/accessRules';
+import { wakeOutbox } from '../lib/outbox';
+import { hashIp } from '../lib/hashIp';
+import { resetRateLimit } from '../rateLimit';
+import { fieldError, isInquiryType } from '../../src/utils/validation';
+import type {
+  AccessRuleAction,
+  AccessRuleKind,
+  DeliveryStatus,
+  InboxMessage,
+  MessageFolder,
+  MessageStatus,
+} from '../types';
+
+const router = express.Router();
+
+router.use(requireAdmin);
+
+// Resolve `:id` once for every message route
+router.param('id', (req, res, next, id: string) => {
+  const message = /^\d+$/.test(id) ? getMessage(Number(id)) : null;
+  if (!message) {
+    res.status(404).json({ success: false, message: 'Message not found' });
+    return;
+  }
+  req.inboxMessage = message;
+  next();
+});
+
+// Set by the `:id` param handler above
+const inboxMessage = (req: express.Request) => req.inboxMessage as InboxMessage;
+
+const toInt = (value: unknown, fallback: number, max: number) => {
+  const number = parseInt(String(value), 10);
+  return Number.isNaN(number) || number < 0 ? fallback : Math.min(number, max);
+};
+
+const isOneOf = <T extends string>(options: readonly T[], value: unknown): value is T =>
+  (options as readonly unknown[]).includes(value);
+
+// GET /api/admin/messages?q=&status=&inquiryType=&folder=&unread=&limit=&offset=
+router.get('/messages', (req, res) => {
+  const { q, folder = 'inbox', unread } = req.query;
+  const status = req.query.status || undefined;
+  const inquiryType = req.query.inquiryType || undefined;
+
+  if (status !== undefined && !isOneOf<MessageStatus>(MESSAGE_STATUSES, status)) {
+    res.status(400).json({ success: false, message: `Unknown status: ${status}` });
+    return;
+  }
+  if (inquiryType !== undefined && !isInquiryType(inquiryType)) {
+    res.status(400).json({ success: false, message: `Unknown inquiry type: ${inquiryType}` });
+    return;
+  }
+  if (!isOneOf<MessageFolder>(MESSAGE_FOLDERS, folder)) {
+    res.status(400).json({ success: false, message: `Unknown folder: ${folder}` });
+    return;
+  }
+
+  const result = listMessages({
+    q: typeof q === 'string' ? q.trim().substring(0, 200) : '',
+    status,
+    inquiryType,
+    folder,
+    unread: unread === 'true',
+    limit: toInt(req.query.limit, 50, 100),
+    offset: toInt(req.query.offset, 0, Number.MAX_SAFE_INTEGER),
+  });
+
+  res.json({ success: true, ...result, unread: countUnread() });
+});
+
+// GET /api/admin/messages/:id - Message with its attachments, replies and queued emails
+router.get('/messages/:id', (req, res) => {
+  const message = inboxMessage(req);
+  res.json({
+    success: true,
+    message,
+    attachments: listAttachments(message.id),
+    replies: listReplies(message.id),
+    deliveries: listJobs({ messageId: message.id }),
+  });
+});
+
+// PATCH /api/admin/messages/:id - { read?: boolean, archived?: boolean }
+router.patch('/messages/:id', (req, res) => {
+  const { read, archived } = req.body || {};
+  const invalid = [read, archived].some(
+    (value) => value !== undefined && typeof value !== 'boolean'
+  );
+
+  if (invalid || (read === undefined && archived === undefined)) {
+    res.status(400).json({
+      success: false,
+      message: 'Send `read` and/or `archived` as booleans',
+    });
+    return;
+  }
+
+  res.json({ success: true, message: updateFlags(inboxMessage(req).id, { read, archived }) });
+});
+
+// POST /api/admin/messages/:id/reply - { body: string }, emailed to the sender
+router.post('/messages/:id/reply', async (req, res) => {
+  const body = typeof req.body?.body === 'string' ? req.body.body.trim() : '';
+  const message = inboxMessage(req);
+
+  if (body.length === 0 || body.length > 10000) {
+    res.status(400).json({
+      success: false,
+      message: 'Reply must be between 1 and 10000 characters',
+    });
+    return;
+  }
+
+  try {
+    await getTransport().send(adminReply(message, body));
+  } catch (error) {
+    console.error('Error sending reply:', error);
+    res.status(502).json({
+      success: false,
+      message: 'The reply could not be sent. Please try again later.',
+    });
+    return;
+  }
+
+  const replies = addReply(message.id, body);
+  res.status(201).json({ success: true, message: getMessage(message.id), replies });
+});
+
+// GET /api/admin/outbox?status= - Queued emails, e.g. `status=dead` for dead letters
+router.get('/outbox', (req, res) => {
+  const status = req.query.status || undefined;
+
+  if (status !== undefined && !isOneOf<DeliveryStatus>(OUTBOX_STATUSES, status)) {
+    res.status(400).json({ success: false, message: `Unknown status: ${status}` });
+    return;
+  }
+
+  res.json({
+    success: true,
+    jobs: listJobs({
+      status,
+      limit: toInt(req.query.limit, 50, 100),
+      offset: toInt(req.query.offset, 0, Number.MAX_SAFE_INTEGER),
+    }),
+  });
+});
+
+// GET /api/admin/bookings?upcoming=true - Booked calls, soonest first
+router.get('/bookings', (req, res) => {
+  res.json({ success: true, bookings: listBookings({ upcoming: req.query.upcoming === 'true' }) });
+});
+
+// POST /api/admin/outbox/:jobId/retry - Put a dead letter back in the queue
+router.post('/outbox/:jobId/retry', (req, res) => {
+  const job = /^\d+$/.test(req.params.jobId) ? getJob(Number(req.params.jobId)) : null;
+
+  if (!job) {
+    res.status(404).json({ success: false, message: 'Job not found' });
+    return;
+  }
+  if (job.status !== 'dead') {
+    res.status(409).json({ success: false, message: `Job is ${job.status}, not dead` });
+    return;
+  }
+
+  const requeued = requeueJob(job.id);
+  wakeOutbox();
+  res.json({ success: true, job: requeued });
+});
+
+const IP_HASH = /^[0-9a-f]{64}$/;
+const DOMAIN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+/**
+ * The value a rule is stored with, or null when it isn't valid for its kind.
+ * IP addresses are hashed like the inbox's `ipHash`, which is accepted too.
+ */
+const ruleValue = (kind: AccessRuleKind, input: string) => {
+  const value = input.trim().toLowerCase();
+  switch (kind) {
+    case 'ip':
+      return IP_HASH.test(value) ? value : isIP(value) ? hashIp(value) : null;
+    case 'email':
+      return fieldError('email', value) ? null : value;
+    case 'domain':
+      return DOMAIN.test(value.replace(/^@/, '')) ? value.replace(/^@/, '') : null;
+  }
+};
+
+// GET /api/admin/access-rules - The contact form's allowlist and denylist
+router.get('/access-rules', (_req, res) => {
+  res.json({ success: true, rules: listAccessRules() });
+});
+
+// POST /api/admin/access-rules - { kind, value, action, note? }; replaces a rule for the same value
+router.post('/access-rules', (req, res) => {
+  const { kind, value, action, note } = req.body || {};
+
+  if (!isOneOf<AccessRuleKind>(ACCESS_RULE_KINDS, kind)) {
+    res.status(400).json({
+      success: false,
+      message: `kind must be one of: ${ACCESS_RULE_KINDS.join(', ')}`,
+    });
+    return;
+  }
+  if (!isOneOf<AccessRuleAction>(ACCESS_RULE_ACTIONS, action)) {
+    res.status(400).json({
+      success: false,
+      message: `action must be one of: ${ACCESS_RULE_ACTIONS.join(', ')}`,
+    });
+    return;
+  }
+  const stored = typeof value === 'string' ? ruleValue(kind, value) : null;
+  if (!stored) {
+    res.status(400).json({ success: false, message: `value is not a valid ${kind}` });
+    return;
+  }
+  if (note !== undefined && typeof note !== 'string') {
+    res.status(400).json({ success: false, message: 'note must be a string' });
+    return;
+  }
+
+  const rule = saveAccessRule({
+    kind,
+    value: stored,
+    action,
+    note: note?.trim().substring(0, 500) || null,
+  });
+  res.status(201).json({ success: true, rule });
+});
+
+// DELETE /api/admin/access-rules/:ruleId
+router.delete('/access-rules/:ruleId', (req, res) => {
+  const deleted = /^\d+$/.test(req.params.ruleId) && deleteAccessRule(Number(req.params.ruleId));
+
+  if (!deleted) {
+    res.status(404).json({ success: false, message: 'Rule not found' });
+    return;
+  }
+  res.json({ success: true });
+});
+
+// POST /api/admin/rate-limits/reset - { ip?, email? }; forgets a sender's recent messages
+router.post('/rate-limits/reset', (req, res) => {
+  const { ip, email } = req.body || {};
+  const ipHash = typeof ip === 'string' && ip.trim() ? ruleValue('ip', ip) : null;
+  const address = typeof email === 'string' && email.trim() ? ruleValue('email', email) : null;
+
+  if (!ipHash && !address) {
+    res.status(400).json({ success: false, message: 'Send an `ip` and/or a valid `email`' });
+    return;
+  }
+
+  if (ipHash) resetRateLimit('ip', ipHash);
+  if (address) resetRateLimit('email', address);
+  res.json({ success: true });
+});
+
+export default router;
@@ -0,0 +1,158 @@
+import express from 'express';
+import { validateBooking } from '../../src/utils/booking';
+import { bookingConfirmation, bookingNotification } from '../lib/bookingEmails';
+import { wakeOutbox } from '../lib/outbox';
+import { getDb } from '../db';
+import { createBooking, type NewBooking } from '../db/bookings';
+import { enqueueMail } from '../db/outbox';
+import { checkSender, limited, senderDenied } from '../middleware/sender';
+import { getBookingConfig, type BookingConfig } from '../booking/config';
+import { isOpenSlot, openSlots } from '../booking/availability';
+import { assessSpam, readProtection } from '../spam';
+import type { BookingAvailability, BookingResponse, SenderMessages } from '../types';
+
+const router = express.Router();
+
+const SENDER_MESSAGES = {
+  denied: 'Bookings from this sender are not accepted.',
+  rateLimited: {
+    ip: 'Too many requests from this address. Please try again later.',
+    email: 'Too many requests from this email address. Please try again later.',
+  },
+} satisfies SenderMessages;
+
+const TAKEN = 'That time is no longer available. Please pick another.';
+
+const BOOKED = "Your call is booked! I've sent an invitation to your email.";
+
+/**
+ * Store the booking and queue its invitations in one transaction, so neither
+ * is lost. Null when the slot was taken in the meantime. Bookings held for
+ * review send the guest nothing, since their address may not be theirs.
+ */
+const acceptBooking = (
+  booking: NewBooking,
+  config: BookingConfig,
+  { confirm }: { confirm: boolean }
+) =>
+  getDb().transaction(() => {
+    const stored = createBooking(booking);
+    if (!stored) return null;
+
+    enqueueMail({
+      kind: 'booking-notification',
+      mail: bookingNotification(stored, config.timezone, confirm),
+    });
+    if (confirm) {
+      enqueueMail({ kind: 'booking-confirmation', mail: bookingConfirmation(stored) });
+    }
+    return stored;
+  }).immediate();
+
+// Turned off with BOOKING_ENABLED=false
+router.use((_req, res, next) => {
+  if (getBookingConfig().enabled) {
+    next();
+    return;
+  }
+  res.status(404).json({ success: false, message: 'Calls cannot be booked right now.' });
+});
+
+// GET /api/booking/availability - Slots that can be booked right now
+router.get('/availability', (_req, res: express.Response<BookingAvailability>) => {
+  const config = getBookingConfig();
+  res.set('Cache-Control', 'no-store').json({
+    timezone: config.timezone,
+    slotMinutes: config.slotMinutes,
+    slots: openSlots(config),
+  });
+});
+
+/**
+ * POST /api/booking - Book one of the open slots and queue the invitations
+ *
+ * Counts against the same rate limits and access rules as the contact form,
+ * and goes through the same spam checks, with the topic as its message.
+ */
+router.post('/', checkSender(SENDER_MESSAGES), (req, res: express.Response<BookingResponse>) => {
+  try {
+    const config = getBookingConfig();
+    const ipHash = req.sender?.ipHash ?? null;
+    const email = typeof req.body?.email === 'string' ? req.body.email : '';
+    if (senderDenied(req, res, email)) return;
+
+    const { values, errors } = validateBooking(req.body);
+    if (errors) {
+      res.status(400).json({
+        success: false,
+        message: 'Please correct the highlighted fields.',
+        errors,
+      });
+      return;
+    }
+
+    if (limited(req, res, 'email', values.email)) return;
+
+    if (!isOpenSlot(values.start, config)) {
+      res.status(409).json({ success: false, message: TAKEN, errors: { start: TAKEN } });
+      return;
+    }
+
+    const startsAt = values.start;
+    const endsAt = new Date(Date.parse(startsAt) + config.slotMinutes * 60 * 1000).toISOString();
+
+    const spam = assessSpam({
+      name: values.name,
+      email: values.email,
+      inquiryType: 'general',
+      message: values.topic,
+      company: '',
+      role: '',
+      budget: '',
+      timeline: '',
+      location: '',
+      ...readProtection(req.body),
+    });
+
+    // Answered like any other booking, and the slot stays open
+    if (spam.verdict === 'reject') {
+      const reasons = spam.findings.map((finding) => finding.reason);
+      console.warn(`Spam booking rejected (score ${spam.score}): ${reasons.join('; ')}`);
+      res.status(201).json({ success: true, message: BOOKED, booking: { startsAt, endsAt } });
+      return;
+    }
+
+    const booking = acceptBooking(
+      {
+        name: values.name,
+        email: values.email,
+        topic: values.topic,
+        startsAt,
+        endsAt,
+        timezone: values.timezone,
+        ipHash,
+      },
+      config,
+      { confirm: spam.verdict === 'accept' }
+    );
+    if (!booking) {
+      res.status(409).json({ success: false, message: TAKEN, errors: { start: TAKEN } });
+      return;
+    }
+    wakeOutbox();
+
+    res.status(201).json({
+      success: true,
+      message: BOOKED,
+      booking: { startsAt: booking.startsAt, endsAt: booking.endsAt },
+    });
+  } catch (error) {
+    console.error('Error booking call:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to book the call. Please try again later or contact me directly.',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,212 @@
+import express from 'express';
+import multer from 'multer';
+import { inquiryDetails, validateContact } from '../../src/utils/validation';
+import { ATTACHMENT_LIMITS, formatFileSize } from '../../src/utils/attachments';
+import { getTransport } from '../transports';
+import { ownerNotification, autoReply } from '../lib/contactEmails';
+import { describeTemplates, isTemplateName, renderSample } from '../templates';
+import { html } from '../templates/html';
+import { wakeOutbox } from '../lib/outbox';
+import { getDb } from '../db';
+import { createMessage, type NewMessage } from '../db/messages';
+import { addAttachments } from '../db/attachments';
+import { enqueueMail } from '../db/outbox';
+import { checkSender, limited, senderDenied } from '../middleware/sender';
+import { assessSpam, createChallenge, readProtection } from '../spam';
+import {
+  checkAttachments,
+  discardAttachments,
+  quarantineAttachments,
+  uploadAttachments,
+  type QuarantinedFile,
+} from '../attachments';
+import type {
+  ContactChallenge,
+  ContactFormData,
+  ContactResponse,
+  SenderMessages,
+} from '../types';
+
+const router = express.Router();
+
+const RECEIVED = 'Message received! I will get back to you soon.';
+
+const SENDER_MESSAGES = {
+  denied: 'Messages from this sender are not accepted.',
+  rateLimited: {
+    ip: 'Too many messages from this address. Please try again later.',
+    email: 'Too many messages from this email address. Please try again later.',
+  },
+} satisfies SenderMessages;
+
+const INVALID = 'Please correct the highlighted fields.';
+
+const TOO_LARGE = 'The message has too many or too long fields.';
+
+// Multer's file limit errors, in the form's words; the others are about the other fields
+const UPLOAD_ERRORS: Partial<Record<multer.MulterError['code'], string>> = {
+  LIMIT_FILE_SIZE: `Each file must be ${formatFileSize(ATTACHMENT_LIMITS.maxFileSize)} or less`,
+  LIMIT_FILE_COUNT: `Attach at most ${ATTACHMENT_LIMITS.maxFiles} files`,
+  LIMIT_UNEXPECTED_FILE: `Attach at most ${ATTACHMENT_LIMITS.maxFiles} files`,
+};
+
+// Multipart bodies carry the attachments; JSON bodies pass straight through
+const parseAttachments: express.RequestHandler = (req, res, next) => {
+  uploadAttachments(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const attachmentError = UPLOAD_ERRORS[error.code];
+      if (attachmentError) {
+        res.status(400).json({
+          success: false,
+          message: INVALID,
+          errors: { attachments: attachmentError },
+        } satisfies ContactResponse);
+      } else {
+        res.status(413).json({ success: false, message: TOO_LARGE } satisfies ContactResponse);
+      }
+      return;
+    }
+    next(error);
+  });
+};
+
+/**
+ * Store the submission and queue its emails in one transaction, so neither is
+ * lost. Submissions held for review get no auto-reply, since their address
+ * may not be the sender's.
+ */
+const acceptSubmission = (
+  data: ContactFormData,
+  meta: Omit<NewMessage, keyof ContactFormData>,
+  { autoReply: sendAutoReply, attachments }: { autoReply: boolean; attachments: QuarantinedFile[] }
+) =>
+  getDb().transaction(() => {
+    const stored = createMessage({ ...data, inquiryDetails: inquiryDetails(data), ...meta });
+    const messageId = stored.id;
+    addAttachments(messageId, attachments);
+    enqueueMail({
+      messageId,
+      kind: 'owner-notification',
+      mail: ownerNotification(data, attachments),
+    });
+    if (sendAutoReply) {
+      enqueueMail({ messageId, kind: 'auto-reply', mail: autoReply(data) });
+    }
+    return stored;
+  })();
+
+// GET /api/email/challenge - Token and proof-of-work difficulty for the next submission
+router.get('/challenge', (_req, res: express.Response<ContactChallenge>) => {
+  res.set('Cache-Control', 'no-store').json(createChallenge());
+});
+
+/**
+ * POST /api/email/contact - Store a message and queue its emails
+ *
+ * Every attempt counts against the sender's IP limit; only valid ones count
+ * against the email address's. Senders on the allowlist skip both limits.
+ */
+router.post(
+  '/contact',
+  checkSender(SENDER_MESSAGES),
+  parseAttachments,
+  async (req, res: express.Response<ContactResponse>) => {
+    let attachments: QuarantinedFile[] = [];
+    try {
+      const ipHash = req.sender?.ipHash ?? null;
+      // Now with the sender's email, whose rules can deny them or lift the limits
+      const email = typeof req.body?.email === 'string' ? req.body.email : '';
+      if (senderDenied(req, res, email)) return;
+
+      // Same rules as the form; values come back trimmed
+      const { values, errors } = validateContact(req.body);
+      const files = (req.files ?? []) as Express.Multer.File[];
+      const attachmentError = checkAttachments(files);
+      if (errors || attachmentError) {
+        res.status(400).json({
+          success: false,
+          message: INVALID,
+          errors: { ...errors, ...(attachmentError && { attachments: attachmentError }) },
+        });
+        return;
+      }
+
+      if (limited(req, res, 'email', values.email)) return;
+
+      const spam = assessSpam({ ...values, ...readProtection(req.body) });
+      const reasons = spam.findings.map((finding) => finding.reason);
+
+      // Answered like any other message, so bots can't learn what gave them away
+      if (spam.verdict === 'reject') {
+        console.warn(`Spam rejected (score ${spam.score}): ${reasons.join('; ')}`);
+        res.status(202).json({ success: true, message: RECEIVED });
+        return;
+      }
+
+      // Only files that passed every check, from senders that did, reach the disk
+      attachments = await quarantineAttachments(files);
+      acceptSubmission(
+        values,
+        {
+          ipHash,
+          userAgent: req.get('user-agent')?.substring(0, 500) || null,
+          spamScore: spam.score,
+          spamReasons: reasons,
+        },
+        { autoReply: spam.verdict === 'accept', attachments }
+      );
+      wakeOutbox();
+
+      // Delivery happens in the background; the message is safe either way
+      res.status(202).json({ success: true, message: RECEIVED });
+    } catch (error) {
+      console.error('Error storing message:', error);
+      await discardAttachments(attachments).catch(() => {});
+
+      // Send generic error to client (don't expose internal details)
+      res.status(500).json({
+        success: false,
+        message: 'Failed to send message. Please try again later or contact me directly.',
+      });
+    }
+  }
+);
+
+// Test and preview endpoints (development only)
+if (process.env.NODE_ENV === 'development') {
+  router.get('/test', (_req, res) => {
+    res.json({
+      status: 'Email route is working',
+      transport: getTransport().name,
+    });
+  });
+
+  // GET /api/email/preview - Links to every email template
+  router.get('/preview', (_req, res) => {
+    const items = describeTemplates().map(
+      ({ name, description }) => html`<li>
+        <a href="preview/${name}">${name}</a> (<a href="preview/${name}?format=text">text</a>)
+        — ${description}
+      </li>`
+    );
+    res.type('html').send(String(html`<h1>Email templates</h1><ul>${items}</ul>`));
+  });
+
+  // GET /api/email/preview/:template?format=text - A template rendered with sample data
+  router.get('/preview/:template', (req, res) => {
+    const { template } = req.params;
+    if (!isTemplateName(template)) {
+      res.status(404).json({ success: false, message: `Unknown template: ${template}` });
+      return;
+    }
+
+    const email = renderSample(template);
+    if (req.query.format === 'text') {
+      res.type('text').send(`Subject: ${email.subject}\n\n${email.text}`);
+      return;
+    }
+    res.type('html').send(email.html);
+  });
+}
+
+export default router;
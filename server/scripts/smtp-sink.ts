@@ -0,0 +1,66 @@
+/**
+ * Local SMTP stand-in for trying the outbox without a real mail account:
+ *
+ *   npm run smtp:sink -- [--port 2525] [--fail 2] [--reject]
+ *
+ * Point the server at it with SMTP_HOST=localhost SMTP_PORT=2525 (and no
+ * SMTP_USER). Every message is accepted and summarised on the console.
+ * `--fail n` answers the first n messages with a temporary 451 error to
+ * exercise retries; `--reject` answers every message with a permanent 550,
+ * which sends the jobs straight to the dead-letter state.
+ */
+
+import { parseArgs } from 'util';
+import { SMTPServer } from 'smtp-server';
+
+const { values } = parseArgs({
+  options: {
+    port: { type: 'string', default: process.env.SMTP_SINK_PORT || '2525' },
+    fail: { type: 'string', default: '0' },
+    reject: { type: 'boolean', default: false },
+  },
+});
+
+let failuresLeft = Number(values.fail) || 0;
+let received = 0;
+
+const smtpError = (message: string, responseCode: number) =>
+  Object.assign(new Error(message), { responseCode });
+
+const header = (raw: string, name: string) => {
+  const match = new RegExp(`^${name}:\\s*(.*)$`, 'im').exec(raw);
+  return match?.[1]?.trim() ?? '';
+};
+
+const server = new SMTPServer({
+  authOptional: true,
+  disabledCommands: ['STARTTLS'],
+  onData(stream, session, callback) {
+    const chunks: Buffer[] = [];
+    stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+    stream.on('end', () => {
+      const raw = Buffer.concat(chunks).toString('utf-8');
+      const summary = `"${header(raw, 'Subject')}" → ${session.envelope.rcptTo
+        .map((rcpt) => rcpt.address)
+        .join(', ')}`;
+
+      if (values.reject) {
+        console.log(`rejected (550) ${summary}`);
+        return callback(smtpError('Mailbox unavailable', 550));
+      }
+      if (failuresLeft > 0) {
+        failuresLeft -= 1;
+        console.log(`deferred (451) ${summary}`);
+        return callback(smtpError('Try again later', 451));
+      }
+
+      received += 1;
+      console.log(`#${received} accepted ${summary} (${raw.length} bytes)`);
+      callback();
+    });
+  },
+});
+
+server.listen(Number(values.port), () => {
+  console.log(`SMTP sink listening on port ${values.port}`);
+});
@@ -0,0 +1,107 @@
+import crypto from 'crypto';
+import { leadingZeroBits, powInput } from '../../src/utils/proofOfWork';
+import { DISPOSABLE_DOMAINS } from './disposableDomains';
+import type { SpamCheckName } from './config';
+import type { SpamCheck } from '../types';
+
+/**
+ * The spam checks. Scores are chosen so that one sure sign (a filled-in
+ * honeypot) reaches the default reject threshold of 10 on its own, while
+ * weaker signs, like a missing token from a browser that couldn't load the
+ * challenge, only add up to a review.
+ */
+
+// Bots fill in every field; people never see this one
+const honeypot: SpamCheck = {
+  name: 'honeypot',
+  run: ({ website }) => (website ? { score: 10, reason: 'Hidden field was filled in' } : null),
+};
+
+// Why a token can't be used, worded for the inbox
+const TOKEN_PROBLEMS = {
+  missing: 'is missing',
+  invalid: 'was not issued by this server',
+  expired: 'has expired',
+  used: 'was already used',
+};
+
+// The form token proves when the form was loaded, and can only be used once
+const timing: SpamCheck = {
+  name: 'timing',
+  run: (_input, config, token) => {
+    if (!token.valid) {
+      // A made-up token counts as much as a wrong proof of work. A stale form was only
+      // slow, not fast; proof of work still won't count for it.
+      const score = { missing: 4, invalid: 8, expired: 0, used: 6 }[token.reason];
+      return score > 0 ? { score, reason: `Form token ${TOKEN_PROBLEMS[token.reason]}` } : null;
+    }
+
+    const elapsed = Date.now() - token.issuedAt;
+    if (elapsed < config.minSubmitMs) {
+      return { score: 6, reason: `Sent ${Math.round(elapsed / 1000)}s after loading the form` };
+    }
+    return null;
+  },
+};
+
+// Only counts when done for a token this server issued and that hasn't been used yet
+const proofOfWork: SpamCheck = {
+  name: 'proof-of-work',
+  run: ({ token, proof }, { powDifficulty }, tokenCheck) => {
+    if (!token || !proof) return { score: 4, reason: 'Proof of work is missing' };
+    if (!tokenCheck.valid) {
+      const problem = TOKEN_PROBLEMS[tokenCheck.reason];
+      return { score: 8, reason: `Proof of work is for a token that ${problem}` };
+    }
+
+    const digest = crypto.createHash('sha256').update(powInput(token, proof)).digest();
+    return /^\d{1,12}$/.test(proof) && leadingZeroBits(digest) >= powDifficulty
+      ? null
+      : { score: 8, reason: 'Proof of work is wrong' };
+  },
+};
+
+const LINK = /\b(?:https?:\/\/|www\.)\S+/gi;
+
+// A link or two is normal; a list of them rarely is, and a link in a name never
+const links: SpamCheck = {
+  name: 'links',
+  run: ({ name, message }, { maxLinks }) => {
+    if (name.match(LINK)) return { score: 6, reason: 'Name contains a link' };
+
+    const count = message.match(LINK)?.length ?? 0;
+    if (count <= maxLinks) return null;
+    return { score: Math.min((count - maxLinks) * 3, 9), reason: `Message has ${count} links` };
+  },
+};
+
+const keywords: SpamCheck = {
+  name: 'keywords',
+  run: ({ name, message }, config) => {
+    const text = `${name} ${message}`.toLowerCase();
+    const found = config.keywords.filter((keyword) => text.includes(keyword));
+    if (found.length === 0) return null;
+    return { score: Math.min(found.length * 3, 9), reason: `Contains ${found.join(', ')}` };
+  },
+};
+
+const disposableEmail: SpamCheck = {
+  name: 'disposable-email',
+  run: ({ email }, { blockedDomains }) => {
+    const domain = email.split('@').pop()?.toLowerCase() ?? '';
+    // Subdomains of a listed domain count too
+    const blocked = [...DISPOSABLE_DOMAINS, ...blockedDomains].some(
+      (listed) => domain === listed || domain.endsWith(`.${listed}`)
+    );
+    return blocked ? { score: 5, reason: `${domain} is a disposable email domain` } : null;
+  },
+};
+
+export const spamChecks: Record<SpamCheckName, SpamCheck> = {
+  honeypot,
+  timing,
+  'proof-of-work': proofOfWork,
+  links,
+  keywords,
+  'disposable-email': disposableEmail,
+};
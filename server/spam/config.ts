@@ -0,0 +1,97 @@
+import crypto from 'crypto';
+import { ConfigError, integer, list, type Env } from '../lib/env';
+
+export const SPAM_CHECKS = [
+  'honeypot',
+  'timing',
+  'proof-of-work',
+  'links',
+  'keywords',
+  'disposable-email',
+] as const;
+
+export type SpamCheckName = (typeof SPAM_CHECKS)[number];
+
+export interface SpamConfig {
+  checks: SpamCheckName[];
+  // Total scores at which a submission is flagged for review, or dropped
+  reviewScore: number;
+  rejectScore: number;
+  // Signs the form tokens
+  secret: string;
+  minSubmitMs: number;
+  tokenTtlMs: number;
+  // Leading zero bits the proof of work needs; 0 turns it into a formality
+  powDifficulty: number;
+  maxLinks: number;
+  keywords: string[];
+  blockedDomains: string[];
+}
+
+// Phrases that show up in bulk spam far more than in messages to a developer
+const DEFAULT_KEYWORDS = [
+  'backlinks',
+  'casino',
+  'crypto investment',
+  'forex',
+  'guest post',
+  'increase your traffic',
+  'loan offer',
+  'seo services',
+  'viagra',
+  'web traffic',
+];
+
+/**
+ * Spam settings from the environment. SPAM_CHECKS turns checks on (all by
+ * default); SPAM_REVIEW_SCORE and SPAM_REJECT_SCORE are the thresholds for
+ * the total score. Throws a ConfigError listing every invalid setting.
+ */
+export const loadSpamConfig = (env: Env = process.env): SpamConfig => {
+  const problems: string[] = [];
+
+  const checks = list(env, 'SPAM_CHECKS', SPAM_CHECKS);
+  const unknown = checks.filter((check) => !(SPAM_CHECKS as readonly string[]).includes(check));
+  if (unknown.length > 0) {
+    problems.push(`SPAM_CHECKS has unknown checks: ${unknown.join(', ')}`);
+  }
+
+  const reviewScore = integer(env, 'SPAM_REVIEW_SCORE', 5, { min: 1, max: 100 }, problems);
+  const rejectScore = integer(env, 'SPAM_REJECT_SCORE', 10, { min: 1, max: 100 }, problems);
+  if (rejectScore < reviewScore) {
+    problems.push('SPAM_REJECT_SCORE must not be lower than SPAM_REVIEW_SCORE');
+  }
+
+  // Without a configured secret, tokens issued before a restart stop verifying
+  let secret = env.SPAM_SECRET;
+  if (!secret) {
+    console.warn('SPAM_SECRET is not set; using a random secret for this process');
+    secret = crypto.randomBytes(32).toString('hex');
+  }
+
+  const config: SpamConfig = {
+    checks: checks as SpamCheckName[],
+    reviewScore,
+    rejectScore,
+    secret,
+    minSubmitMs:
+      integer(env, 'SPAM_MIN_SUBMIT_SECONDS', 3, { min: 0, max: 600 }, problems) * 1000,
+    tokenTtlMs:
+      integer(env, 'SPAM_TOKEN_TTL_HOURS', 24, { min: 1, max: 24 * 30 }, problems) * 3600 * 1000,
+    powDifficulty: integer(env, 'SPAM_POW_DIFFICULTY', 16, { min: 0, max: 24 }, problems),
+    maxLinks: integer(env, 'SPAM_MAX_LINKS', 2, { min: 0, max: 100 }, problems),
+    keywords: [...DEFAULT_KEYWORDS, ...list(env, 'SPAM_KEYWORDS')],
+    blockedDomains: list(env, 'SPAM_BLOCKED_DOMAINS'),
+  };
+
+  if (problems.length > 0) throw new ConfigError('spam', problems);
+  return config;
+};
+
+let config: SpamConfig | undefined;
+
+// Loaded on first use; throws a ConfigError when the settings are invalid
+export const getSpamConfig = () => {
+  config = config || loadSpamConfig();
+  return config;
+};
@@ -0,0 +1,50 @@
+import { getSpamConfig, type SpamConfig } from './config';
+import { spamChecks } from './checks';
+import { issueFormToken, redeemFormToken } from './token';
+import type { ContactChallenge, ContactProtection, SpamFinding, SpamInput } from '../types';
+
+/**
+ * Spam pipeline for the contact form and call bookings. Every enabled check
+ * (SPAM_CHECKS) can add to the submission's score; the total decides what
+ * happens to it:
+ *
+ *   accept  below SPAM_REVIEW_SCORE: stored and answered as usual
+ *   review  stored with its findings, but no auto-reply is sent
+ *   reject  at SPAM_REJECT_SCORE or above: dropped without telling the sender
+ */
+
+export type SpamVerdict = 'accept' | 'review' | 'reject';
+
+export interface SpamAssessment {
+  score: number;
+  verdict: SpamVerdict;
+  findings: SpamFinding[];
+}
+
+export const assessSpam = (input: SpamInput, config: SpamConfig = getSpamConfig()) => {
+  // Redeemed whichever checks are on, so no token is ever good for a second submission
+  const token = redeemFormToken(input.token, config);
+  const findings = config.checks.flatMap((name): SpamFinding[] => {
+    const check = spamChecks[name];
+    const result = check.run(input, config, token);
+    return result ? [{ check: check.name, ...result }] : [];
+  });
+  const score = findings.reduce((total, finding) => total + finding.score, 0);
+  const verdict: SpamVerdict =
+    score >= config.rejectScore ? 'reject' : score >= config.reviewScore ? 'review' : 'accept';
+
+  return { score, verdict, findings } satisfies SpamAssessment;
+};
+
+// A fresh token for the form to submit with, and the work it has to do for it
+export const createChallenge = (config: SpamConfig = getSpamConfig()): ContactChallenge => ({
+  token: issueFormToken(config),
+  difficulty: config.powDifficulty,
+});
+
+// The protection fields from a request body; anything missing is empty
+export const readProtection = (body: unknown): ContactProtection => {
+  const input = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>;
+  const text = (value: unknown) => (typeof value === 'string' ? value : '');
+  return { website: text(input.website), token: text(input.token), proof: text(input.proof) };
+};
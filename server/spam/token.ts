@@ -0,0 +1,68 @@
+import crypto from 'crypto';
+import type { SpamConfig } from './config';
+
+/**
+ * Form tokens: `<issued at>.<random>.<signature>`, handed out with the
+ * contact form's challenge. The signature proves this server issued the
+ * token, so the issue time can be trusted to tell how fast a form was filled.
+ */
+
+const sign = (payload: string, secret: string) =>
+  crypto.createHmac('sha256', secret).update(payload).digest('base64url');
+
+export const issueFormToken = ({ secret }: SpamConfig, now = Date.now()) => {
+  const payload = `${now}.${crypto.randomBytes(12).toString('base64url')}`;
+  return `${payload}.${sign(payload, secret)}`;
+};
+
+export type TokenCheck =
+  | { valid: true; issuedAt: number }
+  | { valid: false; reason: 'missing' | 'invalid' | 'expired' | 'used' };
+
+export const verifyFormToken = (token: string, { secret, tokenTtlMs }: SpamConfig): TokenCheck => {
+  if (!token) return { valid: false, reason: 'missing' };
+
+  const [issued, nonce, signature] = token.split('.');
+  const expected = Buffer.from(sign(`${issued}.${nonce}`, secret));
+  const actual = Buffer.from(signature ?? '');
+  const issuedAt = Number(issued);
+
+  if (
+    !nonce ||
+    !Number.isSafeInteger(issuedAt) ||
+    actual.length !== expected.length ||
+    !crypto.timingSafeEqual(actual, expected)
+  ) {
+    return { valid: false, reason: 'invalid' };
+  }
+  if (Date.now() - issuedAt > tokenTtlMs) return { valid: false, reason: 'expired' };
+
+  return { valid: true, issuedAt };
+};
+
+// Tokens already used, until they expire. Kept in memory, so per process.
+const usedTokens = new Map<string, number>();
+
+// False when the token has been used before
+export const consumeFormToken = (token: string, expiresAt: number) => {
+  const now = Date.now();
+  for (const [used, expiry] of usedTokens) {
+    if (expiry <= now) usedTokens.delete(used);
+  }
+
+  if (usedTokens.has(token)) return false;
+  usedTokens.set(token, expiresAt);
+  return true;
+};
+
+/**
+ * Verifies a submission's token and marks it used, so a token (and the proof
+ * of work done for it) counts for one submission only
+ */
+export const redeemFormToken = (token: string, config: SpamConfig): TokenCheck => {
+  const check = verifyFormToken(token, config);
+  if (!check.valid) return check;
+  return consumeFormToken(token, check.issuedAt + config.tokenTtlMs)
+    ? check
+    : { valid: false, reason: 'used' };
+};
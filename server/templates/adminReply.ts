@@ -0,0 +1,64 @@
+import { html } from './html';
+import { layout, field, quote } from './layout';
+import type { EmailTemplate } from './index';
+import type { InboxMessage } from '../types';
+
+interface AdminReplyData {
+  // The message being answered
+  message: Pick<InboxMessage, 'name' | 'message' | 'createdAt'>;
+  body: string;
+}
+
+const formatDate = (date: string) =>
+  `${new Date(date).toLocaleString('en-US', {
+    dateStyle: 'long',
+    timeStyle: 'short',
+    timeZone: 'UTC',
+  })} UTC`;
+
+// A reply written in the admin inbox, quoting the original message
+const adminReply: EmailTemplate<AdminReplyData> = {
+  description: 'Reply written in the admin inbox',
+  subject: () => 'Re: Your message on my portfolio',
+  html: ({ theme, portfolio, message, body }) =>
+    layout({
+      theme,
+      title: 'Re: Your message on my portfolio',
+      preheader: body.slice(0, 120),
+      heading: `Hi ${message.name},`,
+      body: html`
+        <div style="white-space: pre-wrap; margin-bottom: 24px">${body}</div>
+        <p style="margin: 0 0 24px">
+          ${portfolio.name}<br />
+          <span style="color: ${theme.text.secondary}">${portfolio.title}</span>
+        </p>
+        ${field(
+          theme,
+          `On ${formatDate(message.createdAt)}, you wrote:`,
+          quote(theme, message.message)
+        )}
+      `,
+    }),
+  text: ({ portfolio, message, body }) =>
+    [
+      `Hi ${message.name},`,
+      '',
+      body,
+      '',
+      portfolio.name,
+      portfolio.title,
+      '',
+      `On ${formatDate(message.createdAt)}, you wrote:`,
+      ...message.message.split('\n').map((line) => `> ${line}`),
+    ].join('\n'),
+  sample: () => ({
+    message: {
+      name: 'Ada Lovelace',
+      message: "Hi! I'd love to talk about a frontend role.",
+      createdAt: new Date().toISOString(),
+    },
+    body: 'Thanks for getting in touch! I would be happy to talk.\n\nHow about Tuesday at 3pm?',
+  }),
+};
+
+export default adminReply;
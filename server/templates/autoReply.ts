@@ -0,0 +1,55 @@
+import { html, type HtmlValue } from './html';
+import { layout, link } from './layout';
+import type { EmailTemplate } from './index';
+import type { ContactFormData } from '../types';
+
+const p = (content: HtmlValue) => html`<p style="margin: 0 0 16px">${content}</p>`;
+
+// Confirmation sent back to whoever used the contact form
+const autoReply: EmailTemplate<{
+  submission: Pick<ContactFormData, 'name' | 'email' | 'message'>;
+}> = {
+  description: 'Automatic confirmation to the sender',
+  subject: () => 'Thank you for contacting me!',
+  html: ({ theme, portfolio, submission }) =>
+    layout({
+      theme,
+      title: 'Thank You!',
+      preheader: "I've received your message and will get back to you soon.",
+      heading: 'Thank You!',
+      body: html`
+        ${p(html`Hi ${submission.name},`)}
+        ${p(
+          "Thank you for reaching out! I've received your message and will get back to you " +
+            'as soon as possible.'
+        )}
+        ${p(html`Best regards,<br />
+          <strong style="color: ${theme.accent.DEFAULT}">${portfolio.name}</strong><br />
+          ${portfolio.title}`)}
+      `,
+      footer: html`📧 ${link(theme, `mailto:${portfolio.email}`, portfolio.email)}<br />
+        ${portfolio.socials.map(
+          (social, index) => html`${index > 0 && ' · '}${link(theme, social.url, social.name)}`
+        )}`,
+    }),
+  text: ({ portfolio, submission }) =>
+    [
+      `Hi ${submission.name},`,
+      '',
+      "Thank you for reaching out! I've received your message and will get back to you as soon " +
+        'as possible.',
+      '',
+      'Best regards,',
+      portfolio.name,
+      portfolio.title,
+      '',
+      '--',
+      portfolio.email,
+      ...portfolio.socials.map((social) => `${social.name}: ${social.url}`),
+    ].join('\n'),
+  sample: () => ({
+    submission: { name: 'Ada Lovelace', email: 'ada@example.com', message: 'Hello!' },
+  }),
+};
+
+export default autoReply;
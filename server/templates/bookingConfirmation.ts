@@ -0,0 +1,63 @@
+import { html, type HtmlValue } from './html';
+import { layout, link } from './layout';
+import { formatSlot } from '../../src/utils/booking';
+import type { EmailTemplate } from './index';
+import type { BookedCall } from './bookingNotification';
+
+const p = (content: HtmlValue) => html`<p style="margin: 0 0 16px">${content}</p>`;
+
+// Sent to whoever booked a call, in their own time zone, with the invite attached
+const bookingConfirmation: EmailTemplate<{ booking: BookedCall }> = {
+  description: 'Confirmation of a booked call to the guest',
+  subject: ({ portfolio }) => `Your call with ${portfolio.name}`,
+  html: ({ theme, portfolio, booking }) =>
+    layout({
+      theme,
+      title: 'Call Confirmed',
+      preheader: formatSlot(booking.startsAt, booking.endsAt, booking.timezone),
+      heading: 'Call Confirmed',
+      body: html`
+        ${p(html`Hi ${booking.name},`)}
+        ${p(html`Thanks for booking a call! It's set for
+          <strong>${formatSlot(booking.startsAt, booking.endsAt, booking.timezone)}</strong>.`)}
+        ${p(
+          "The invitation is attached, so you can add it to your calendar. I'll send the " +
+            'details for joining before we talk.'
+        )}
+        ${p(html`Best regards,<br />
+          <strong style="color: ${theme.accent.DEFAULT}">${portfolio.name}</strong><br />
+          ${portfolio.title}`)}
+      `,
+      footer: html`Need to change the time? Reply to this email or write to
+        ${link(theme, `mailto:${portfolio.email}`, portfolio.email)}.`,
+    }),
+  text: ({ portfolio, booking }) =>
+    [
+      `Hi ${booking.name},`,
+      '',
+      "Thanks for booking a call! It's set for " +
+        `${formatSlot(booking.startsAt, booking.endsAt, booking.timezone)}.`,
+      '',
+      "The invitation is attached, so you can add it to your calendar. I'll send the details " +
+        'for joining before we talk.',
+      '',
+      'Best regards,',
+      portfolio.name,
+      portfolio.title,
+      '',
+      '--',
+      `Need to change the time? Reply to this email or write to ${portfolio.email}.`,
+    ].join('\n'),
+  sample: () => ({
+    booking: {
+      name: 'Ada Lovelace',
+      email: 'ada@example.com',
+      topic: '',
+      startsAt: '2026-10-19T14:00:00.000Z',
+      endsAt: '2026-10-19T14:30:00.000Z',
+      timezone: 'America/New_York',
+    },
+  }),
+};
+
+export default bookingConfirmation;
@@ -0,0 +1,77 @@
+import { html } from './html';
+import { layout, field, quote, link } from './layout';
+import { formatSlot } from '../../src/utils/booking';
+import type { EmailTemplate } from './index';
+import type { Booking } from '../types';
+
+export type BookedCall = Pick<
+  Booking,
+  'name' | 'email' | 'topic' | 'startsAt' | 'endsAt' | 'timezone'
+>;
+
+const HELD = 'It looked like spam, so the guest was not sent an invitation.';
+
+// Sent to the site owner when a visitor books a call, with the invite attached
+const bookingNotification: EmailTemplate<{
+  booking: BookedCall;
+  // The owner's time zone, which the time is given in
+  timezone: string;
+  // False when the booking was held for review, so the guest got no invitation
+  confirmed: boolean;
+}> = {
+  description: 'Notification to the site owner about a booked call',
+  subject: ({ booking }) => `Call booked by ${booking.name}`,
+  html: ({ theme, portfolio, booking, timezone, confirmed }) =>
+    layout({
+      theme,
+      title: 'New Call Booked',
+      preheader: formatSlot(booking.startsAt, booking.endsAt, timezone),
+      heading: 'New Call Booked',
+      body: html`
+        ${field(
+          theme,
+          'When:',
+          html`<p style="margin: 0">${formatSlot(booking.startsAt, booking.endsAt, timezone)}</p>`
+        )}
+        ${field(theme, 'With:', html`<p style="margin: 0">${booking.name}</p>`)}
+        ${field(
+          theme,
+          'Email:',
+          html`<p style="margin: 0">
+            ${link(theme, `mailto:${booking.email}`, booking.email)}
+          </p>`
+        )}
+        ${field(theme, "Guest's time zone:", html`<p style="margin: 0">${booking.timezone}</p>`)}
+        ${booking.topic && field(theme, 'Topic:', quote(theme, booking.topic))}
+        ${!confirmed && field(theme, 'Held for review:', html`<p style="margin: 0">${HELD}</p>`)}
+      `,
+      footer: html`This call was booked from your portfolio.
+        ${link(theme, `${portfolio.url}/admin`, 'Open the inbox')}`,
+    }),
+  text: ({ portfolio, booking, timezone, confirmed }) =>
+    [
+      `When: ${formatSlot(booking.startsAt, booking.endsAt, timezone)}`,
+      `With: ${booking.name}`,
+      `Email: ${booking.email}`,
+      `Guest's time zone: ${booking.timezone}`,
+      ...(booking.topic ? ['', 'Topic:', booking.topic] : []),
+      ...(confirmed ? [] : ['', `Held for review: ${HELD}`]),
+      '',
+      '--',
+      `Booked from your portfolio. Inbox: ${portfolio.url}/admin`,
+    ].join('\n'),
+  sample: () => ({
+    booking: {
+      name: 'Ada Lovelace',
+      email: 'ada@example.com',
+      topic: 'The frontend role we talked about <script>alert("escaped")</script>',
+      startsAt: '2026-10-19T14:00:00.000Z',
+      endsAt: '2026-10-19T14:30:00.000Z',
+      timezone: 'America/New_York',
+    },
+    timezone: 'Europe/London',
+    confirmed: true,
+  }),
+};
+
+export default bookingNotification;
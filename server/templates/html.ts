@@ -0,0 +1,44 @@
+// Markup that is already safe; everything else interpolated into `html` is escaped
+export class SafeHtml {
+  value: string;
+
+  constructor(value: string) {
+    this.value = value;
+  }
+
+  toString() {
+    return this.value;
+  }
+}
+
+// What can go in an `html` template: false, null and undefined render nothing
+export type HtmlValue = SafeHtml | string | number | boolean | null | undefined | HtmlValue[];
+
+export const escapeHtml = (text: unknown) =>
+  String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const toHtml = (value: HtmlValue): string => {
+  if (value === null || value === undefined || value === false) return '';
+  if (Array.isArray(value)) return value.map(toHtml).join('');
+  if (value instanceof SafeHtml) return value.value;
+  return escapeHtml(value);
+};
+
+/**
+ * Tagged template for email markup. Interpolated values are HTML-escaped,
+ * so user input can go in directly; nested `html` results and arrays of them
+ * are kept as markup.
+ */
+export const html = (strings: TemplateStringsArray, ...values: HtmlValue[]) =>
+  new SafeHtml(strings.reduce((out, string, index) => out + toHtml(values[index - 1]) + string));
+
+// Inline `style` attribute from an object, for email clients that ignore <style>
+export const style = (rules: Record<string, string | number>) =>
+  Object.entries(rules)
+    .map(([property, value]) => `${property.replace(/[A-Z]/g, '-$&').toLowerCase()}: ${value}`)
+    .join('; ');
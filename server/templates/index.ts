@@ -0,0 +1,68 @@
+import theme from '../../src/styles/colors.json';
+import { getPortfolio, type Portfolio } from '../lib/portfolio';
+import type { SafeHtml } from './html';
+import ownerNotification from './ownerNotification';
+import autoReply from './autoReply';
+import adminReply from './adminReply';
+import bookingNotification from './bookingNotification';
+import bookingConfirmation from './bookingConfirmation';
+
+export type Theme = typeof theme;
+
+// What every template function is called with
+export type TemplateVars<Data> = Data & { portfolio: Portfolio; theme: Theme };
+
+export interface EmailTemplate<Data> {
+  description: string;
+  subject: (vars: TemplateVars<Data>) => string;
+  html: (vars: TemplateVars<Data>) => SafeHtml;
+  text: (vars: TemplateVars<Data>) => string;
+  sample: () => Data;
+}
+
+/**
+ * Email templates. Each one has a `subject`, an `html` and a `text` version,
+ * all called with the template's data plus `portfolio` (the site owner's
+ * details from content/) and `theme` (the site's colors). `sample` returns
+ * data for the development preview.
+ */
+const definitions = {
+  'owner-notification': ownerNotification,
+  'auto-reply': autoReply,
+  'admin-reply': adminReply,
+  'booking-notification': bookingNotification,
+  'booking-confirmation': bookingConfirmation,
+};
+
+export type TemplateName = keyof typeof definitions;
+type TemplateData = {
+  [Name in TemplateName]: (typeof definitions)[Name] extends EmailTemplate<infer Data>
+    ? Data
+    : never;
+};
+
+const templates: { [Name in TemplateName]: EmailTemplate<TemplateData[Name]> } = definitions;
+
+export const TEMPLATE_NAMES = Object.keys(templates) as TemplateName[];
+
+export const isTemplateName = (name: string): name is TemplateName =>
+  (TEMPLATE_NAMES as string[]).includes(name);
+
+// { subject, html, text }, ready to spread into the mail options
+export const renderEmail = <Name extends TemplateName>(name: Name, data: TemplateData[Name]) => {
+  const template: EmailTemplate<TemplateData[Name]> = templates[name];
+  if (!template) throw new Error(`Unknown email template: ${name}`);
+
+  const vars = Object.assign({}, data, { portfolio: getPortfolio(), theme });
+  return {
+    subject: template.subject(vars),
+    html: String(template.html(vars)),
+    text: template.text(vars),
+  };
+};
+
+export const describeTemplates = () =>
+  TEMPLATE_NAMES.map((name) => ({ name, description: templates[name].description }));
+
+export const renderSample = <Name extends TemplateName>(name: Name) =>
+  renderEmail(name, templates[name].sample());
@@ -0,0 +1,96 @@
+import { html, style, type HtmlValue } from './html';
+import type { Theme } from './index';
+
+const FONT = "-apple-system, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif";
+
+const gradient = (theme: Theme) =>
+  `linear-gradient(135deg, ${theme.accent.DEFAULT} 0%, ${theme.primary.light} 100%)`;
+
+/**
+ * Page shell shared by the HTML emails: a dark card in the site's colors
+ * with a heading band and an optional footer. `preheader` is the preview
+ * line inbox lists show next to the subject.
+ */
+export const layout = ({
+  theme,
+  title,
+  preheader,
+  heading,
+  body,
+  footer,
+}: {
+  theme: Theme;
+  title: string;
+  preheader: string;
+  heading: string;
+  body: HtmlValue;
+  footer?: HtmlValue;
+}) => html`<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>${title}</title>
+  </head>
+  <body style="${style({ margin: 0, padding: '24px 12px', backgroundColor: theme.primary.dark })}">
+    <span style="display: none; max-height: 0; overflow: hidden">${preheader}</span>
+    <div
+      style="${style({
+        maxWidth: '600px',
+        margin: '0 auto',
+        fontFamily: FONT,
+        color: theme.text.primary,
+        backgroundColor: theme.primary.light,
+        borderRadius: '10px',
+        overflow: 'hidden',
+      })}"
+    >
+      <div
+        style="${style({
+          padding: '28px 30px',
+          backgroundColor: theme.accent.DEFAULT,
+          backgroundImage: gradient(theme),
+        })}"
+      >
+        <h1 style="${style({ margin: 0, fontSize: '24px', color: theme.primary.DEFAULT })}">
+          ${heading}
+        </h1>
+      </div>
+      <div style="${style({ padding: '30px', fontSize: '16px', lineHeight: 1.6 })}">${body}</div>
+      ${footer &&
+      html`<div
+        style="${style({
+          padding: '20px 30px',
+          borderTop: `1px solid ${theme.accent.DEFAULT}`,
+          fontSize: '12px',
+          color: theme.text.secondary,
+        })}"
+      >
+        ${footer}
+      </div>`}
+    </div>
+  </body>
+</html>`;
+
+// A labelled block, e.g. the sender's name or their message
+export const field = (theme: Theme, label: string, content: HtmlValue) =>
+  html`<div style="margin-bottom: 20px">
+    <p style="${style({ margin: '0 0 6px', fontWeight: 'bold', color: theme.accent.DEFAULT })}">
+      ${label}
+    </p>
+    ${content}
+  </div>`;
+
+// User-written text, with its line breaks kept
+export const quote = (theme: Theme, text: string) => html`<div
+  style="${style({
+    padding: '15px',
+    whiteSpace: 'pre-wrap',
+    backgroundColor: theme.primary.DEFAULT,
+    borderLeft: `3px solid ${theme.accent.DEFAULT}`,
+    borderRadius: '5px',
+  })}"
+>${text}</div>`;
+
+export const link = (theme: Theme, href: string, text: string) =>
+  html`<a href="${href}" style="color: ${theme.accent.DEFAULT}; text-decoration: none">${text}</a>`;
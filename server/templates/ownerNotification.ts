@@ -0,0 +1,97 @@
+import { html } from './html';
+import { layout, field, quote, link } from './layout';
+import { formatFileSize } from '../../src/utils/attachments';
+import { VALIDATION, describeValue, inquiryDetails } from '../../src/utils/validation';
+import type { EmailTemplate } from './index';
+import type { ContactFormData, InquiryField } from '../types';
+
+interface AttachedFile {
+  filename: string;
+  size: number;
+}
+
+const describeFile = ({ filename, size }: AttachedFile) => `${filename} (${formatFileSize(size)})`;
+
+// The inquiry type, then each detail the sender gave: [label, value]
+const describeInquiry = (submission: ContactFormData) => [
+  ['Inquiry', describeValue('inquiryType', submission.inquiryType)],
+  ...Object.entries(inquiryDetails(submission)).map(([detail, value]) => [
+    VALIDATION[detail as InquiryField].label,
+    describeValue(detail as InquiryField, value),
+  ]),
+];
+
+// Sent to the site owner for every contact form submission, with its attachments
+const ownerNotification: EmailTemplate<{
+  submission: ContactFormData;
+  attachments: AttachedFile[];
+}> = {
+  description: 'Notification to the site owner about a new message',
+  subject: ({ submission }) => {
+    const { inquiryType, name } = submission;
+    const kind = inquiryType === 'general' ? '' : ` (${describeValue('inquiryType', inquiryType)})`;
+    return `Portfolio Contact${kind} from ${name}`;
+  },
+  html: ({ theme, portfolio, submission, attachments }) =>
+    layout({
+      theme,
+      title: 'New Contact Message',
+      preheader: submission.message.slice(0, 120),
+      heading: 'New Contact Message',
+      body: html`
+        ${field(theme, 'From:', html`<p style="margin: 0">${submission.name}</p>`)}
+        ${field(
+          theme,
+          'Email:',
+          html`<p style="margin: 0">
+            ${link(theme, `mailto:${submission.email}`, submission.email)}
+          </p>`
+        )}
+        ${describeInquiry(submission).map(([label, value]) =>
+          field(theme, `${label}:`, html`<p style="margin: 0">${value}</p>`)
+        )}
+        ${field(theme, 'Message:', quote(theme, submission.message))}
+        ${attachments.length > 0 &&
+        field(
+          theme,
+          'Attachments:',
+          html`<p style="margin: 0">${attachments.map(describeFile).join(', ')}</p>`
+        )}
+      `,
+      footer: html`This message was sent from your portfolio contact form.
+        ${link(theme, `${portfolio.url}/admin`, 'Open the inbox')}`,
+    }),
+  text: ({ portfolio, submission, attachments }) =>
+    [
+      `Name: ${submission.name}`,
+      `Email: ${submission.email}`,
+      ...describeInquiry(submission).map(([label, value]) => `${label}: ${value}`),
+      '',
+      'Message:',
+      submission.message,
+      '',
+      ...(attachments.length > 0
+        ? [`Attachments: ${attachments.map(describeFile).join(', ')}`, '']
+        : []),
+      '--',
+      `Sent from your portfolio contact form. Inbox: ${portfolio.url}/admin`,
+    ].join('\n'),
+  sample: () => ({
+    submission: {
+      name: 'Ada Lovelace',
+      email: 'ada@example.com',
+      inquiryType: 'job',
+      company: 'Analytical Engines Ltd',
+      role: 'Senior Frontend Engineer',
+      location: 'London or remote',
+      budget: '',
+      timeline: '',
+      message:
+        "Hi! I saw your portfolio and I'd love to talk about a frontend role.\n\n" +
+        'Are you free for a call next week? <script>alert("escaped")</script>',
+    },
+    attachments: [{ filename: 'Frontend Engineer.pdf', size: 184320 }],
+  }),
+};
+
+export default ownerNotification;
@@ -0,0 +1,106 @@
+import path from 'path';
+import validator from 'email-validator';
+import { ConfigError, boolean, integer, oneOf, type Env } from '../lib/env';
+
+export const MAIL_TRANSPORTS = ['smtp', 'file', 'webhook'] as const;
+const FILE_FORMATS = ['eml', 'mbox'] as const;
+
+export type MailTransportName = (typeof MAIL_TRANSPORTS)[number];
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  auth: { user: string; pass: string } | undefined;
+}
+
+export interface FileOptions {
+  dir: string;
+  format: (typeof FILE_FORMATS)[number];
+}
+
+export interface WebhookOptions {
+  url: string;
+  secret: string | undefined;
+  timeoutMs: number;
+}
+
+interface TransportOptions {
+  smtp: SmtpOptions;
+  file: FileOptions;
+  webhook: WebhookOptions;
+}
+
+export type MailConfig = {
+  [Name in MailTransportName]: { transport: Name; from: string } & Pick<TransportOptions, Name>;
+}[MailTransportName];
+
+// Thrown by loadMailConfig
+export class MailConfigError extends ConfigError {
+  constructor(problems: string[]) {
+    super('mail', problems);
+    this.name = 'MailConfigError';
+  }
+}
+
+const smtpConfig = (env: Env, problems: string[]): SmtpOptions => {
+  if (env.SMTP_USER && !env.SMTP_PASS) problems.push('SMTP_PASS is required with SMTP_USER');
+  if (!env.SMTP_HOST && !env.SMTP_USER) {
+    problems.push('MAIL_TRANSPORT=smtp needs SMTP_HOST, or SMTP_USER and SMTP_PASS for Gmail');
+  }
+
+  return {
+    host: env.SMTP_HOST || 'smtp.gmail.com',
+    port: integer(env, 'SMTP_PORT', 587, { min: 1, max: 65535 }, problems),
+    secure: boolean(env, 'SMTP_SECURE', false, problems),
+    // A local SMTP stand-in usually doesn't authenticate
+    auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASS ?? '' } : undefined,
+  };
+};
+
+const fileConfig = (env: Env, problems: string[]): FileOptions => ({
+  dir: path.resolve(env.MAIL_FILE_DIR || path.join(import.meta.dirname, '..', 'data', 'mail')),
+  format: oneOf(env, 'MAIL_FILE_FORMAT', FILE_FORMATS, 'eml', problems),
+});
+
+const webhookConfig = (env: Env, problems: string[]): WebhookOptions => {
+  const url = env.MAIL_WEBHOOK_URL ?? '';
+  if (!url) {
+    problems.push('MAIL_TRANSPORT=webhook needs MAIL_WEBHOOK_URL');
+  } else if (!/^https?:\/\/[^\s/]+/.test(url)) {
+    problems.push('MAIL_WEBHOOK_URL must be an http(s) URL');
+  }
+
+  return {
+    url,
+    // Signs the body so the receiver can check it came from this server
+    secret: env.MAIL_WEBHOOK_SECRET || undefined,
+    timeoutMs: integer(env, 'MAIL_WEBHOOK_TIMEOUT_MS', 10000, { min: 100, max: 120000 }, problems),
+  };
+};
+
+const transportConfigs: {
+  [Name in MailTransportName]: (env: Env, problems: string[]) => TransportOptions[Name];
+} = { smtp: smtpConfig, file: fileConfig, webhook: webhookConfig };
+
+/**
+ * Mail settings from the environment. MAIL_TRANSPORT picks the transport;
+ * without it, SMTP is used when SMTP settings are present and the file
+ * transport otherwise, so the contact flow works without any credentials.
+ * Throws a MailConfigError listing every invalid setting.
+ */
+export const loadMailConfig = (env: Env = process.env): MailConfig => {
+  const problems: string[] = [];
+  const fallback = env.SMTP_HOST || env.SMTP_USER ? 'smtp' : 'file';
+  const transport = oneOf(env, 'MAIL_TRANSPORT', MAIL_TRANSPORTS, fallback, problems);
+  const from = env.MAIL_FROM || env.SMTP_USER || 'portfolio@localhost';
+
+  if (env.MAIL_FROM && !validator.validate(env.MAIL_FROM)) {
+    problems.push('MAIL_FROM must be an email address');
+  }
+
+  const options = transportConfigs[transport]?.(env, problems);
+  if (problems.length > 0) throw new MailConfigError(problems);
+
+  return { transport, from, [transport]: options } as MailConfig;
+};
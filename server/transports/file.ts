@@ -0,0 +1,50 @@
+import fs from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import type { FileOptions } from './config';
+import type { MailTransport } from '../types';
+
+// `Sun, 18 Oct 2026 09:05:00 GMT` → `Sun Oct 18 09:05:00 2026`, as mbox separators expect
+const asctime = (date: Date) =>
+  date.toUTCString().replace(/^(\w+), (\d+) (\w+) (\d+) ([\d:]+) GMT$/, '$1 $3 $2 $5 $4');
+
+// mboxrd: body lines starting with (any number of `>` and) `From ` get one more `>`
+const toMboxEntry = (raw: string, sender: string | false, date: Date) =>
+  `From ${sender || 'MAILER-DAEMON'} ${asctime(date)}\n${raw
+    .replace(/\r\n/g, '\n')
+    .replace(/^(>*From )/gm, '>$1')}\n\n`;
+
+/**
+ * Writes every message to disk instead of sending it, for local development
+ * and tests: one `.eml` file per message, or all of them appended to one
+ * `outbox.mbox` that mail clients can open.
+ */
+export const createFileTransport = ({ dir, format }: FileOptions): MailTransport => {
+  // Only compiles the message; nothing leaves the machine
+  const compiler = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  return {
+    name: `file (${path.join(dir, format === 'mbox' ? 'outbox.mbox' : '*.eml')})`,
+    send: async (mail) => {
+      const info = await compiler.sendMail(mail);
+      const raw = info.message.toString('utf-8');
+      const date = new Date();
+
+      await fs.promises.mkdir(dir, { recursive: true });
+      if (format === 'mbox') {
+        await fs.promises.appendFile(
+          path.join(dir, 'outbox.mbox'),
+          toMboxEntry(raw, info.envelope.from, date)
+        );
+      } else {
+        const id = info.messageId.replace(/[^\w.-]+/g, '');
+        await fs.promises.writeFile(
+          path.join(dir, `${date.toISOString().replace(/[:.]/g, '-')}-${id}.eml`),
+          raw
+        );
+      }
+      return { messageId: info.messageId };
+    },
+    verify: () => fs.promises.mkdir(dir, { recursive: true }),
+  };
+};
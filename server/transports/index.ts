@@ -0,0 +1,37 @@
+import { loadMailConfig, type MailConfig } from './config';
+import { createSmtpTransport } from './smtp';
+import { createFileTransport } from './file';
+import { createWebhookTransport } from './webhook';
+import type { MailTransport } from '../types';
+
+/**
+ * Every transport implements MailTransport (see `../types`): a name for the
+ * logs, `send(mail)` and `verify()`.
+ */
+const createTransport = (config: MailConfig): MailTransport => {
+  switch (config.transport) {
+    case 'smtp':
+      return createSmtpTransport(config.smtp);
+    case 'file':
+      return createFileTransport(config.file);
+    case 'webhook':
+      return createWebhookTransport(config.webhook);
+  }
+};
+
+let config: MailConfig | undefined;
+let transport: MailTransport | undefined;
+
+// Loaded on first use; throws a MailConfigError when the settings are invalid
+export const getMailConfig = () => {
+  config = config || loadMailConfig();
+  return config;
+};
+
+export const getTransport = () => {
+  transport = transport || createTransport(getMailConfig());
+  return transport;
+};
+
+// Address the site's emails are sent from
+export const senderAddress = () => getMailConfig().from;
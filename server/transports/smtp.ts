@@ -0,0 +1,33 @@
+import nodemailer from 'nodemailer';
+import type { SmtpOptions } from './config';
+import type { DeliveryError, MailTransport } from '../types';
+
+// SMTP 5xx replies are permanent; retrying the same message won't change them
+const isPermanent = (error: { responseCode?: number }) =>
+  error.responseCode !== undefined && error.responseCode >= 500 && error.responseCode < 600;
+
+export const createSmtpTransport = ({ host, port, secure, auth }: SmtpOptions): MailTransport => {
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure, // true for 465, false for other ports
+    auth,
+    tls: {
+      rejectUnauthorized: true,
+    },
+  });
+
+  return {
+    name: `smtp (${host}:${port})`,
+    send: async (mail) => {
+      try {
+        const info = await transporter.sendMail(mail);
+        return { messageId: info.messageId };
+      } catch (error) {
+        (error as DeliveryError).permanent = isPermanent(error as { responseCode?: number });
+        throw error;
+      }
+    },
+    verify: () => transporter.verify(),
+  };
+};
@@ -0,0 +1,77 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import type { WebhookOptions } from './config';
+import type { DeliveryError, MailTransport } from '../types';
+
+// Client errors won't go away on retry, except timeouts and rate limits
+const isPermanent = (status: number) =>
+  status >= 400 && status < 500 && status !== 408 && status !== 429;
+
+/**
+ * POSTs every message as JSON to a URL, for mail APIs and automation tools.
+ * With a secret, the body's HMAC-SHA256 is sent in `X-Signature: sha256=<hex>`.
+ * Attachments are sent inline, as base64 `content`.
+ * Any 2xx response counts as delivered.
+ */
+export const createWebhookTransport = ({
+  url,
+  secret,
+  timeoutMs,
+}: WebhookOptions): MailTransport => {
+  const { hostname } = new URL(url);
+
+  const post = async (payload: object) => {
+    const body = JSON.stringify(payload);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'portfolio-server',
+    };
+    if (secret) {
+      headers['X-Signature'] = `sha256=${crypto
+        .createHmac('sha256', secret)
+        .update(body)
+        .digest('hex')}`;
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!response.ok) {
+      const error: DeliveryError = new Error(
+        `Webhook responded with ${response.status} ${response.statusText}`
+      );
+      error.permanent = isPermanent(response.status);
+      throw error;
+    }
+  };
+
+  return {
+    name: `webhook (${hostname})`,
+    send: async (mail) => {
+      const messageId = `<${crypto.randomUUID()}@${hostname}>`;
+      await post({
+        messageId,
+        from: mail.from,
+        to: mail.to,
+        replyTo: mail.replyTo,
+        subject: mail.subject,
+        text: mail.text,
+        html: mail.html,
+        attachments: await Promise.all(
+          (mail.attachments ?? []).map(async ({ filename, contentType, path }) => ({
+            filename,
+            contentType,
+            content: (await fs.promises.readFile(path)).toString('base64'),
+          }))
+        ),
+        icalEvent: mail.icalEvent,
+      });
+      return { messageId };
+    },
+    // Nothing to check without sending something
+    verify: async () => {},
+  };
+};
@@ -0,0 +1,164 @@
+/**
+ * Types shared across the server. The contact payload and the admin API's
+ * records come from the frontend (`src/types/`), so both sides agree on them.
+ */
+
+import type { InboxMessage } from '../src/types/inbox';
+export type {
+  Booking,
+  BookingAvailability,
+  BookingErrorResponse,
+  BookingFieldErrors,
+  BookingRequest,
+  BookingResponse,
+  BookingSuccessResponse,
+} from '../src/types/booking';
+import type { ContactFormData, ContactProtection } from '../src/types/contact';
+import type { SpamConfig } from './spam/config';
+import type { TokenCheck } from './spam/token';
+import type { LimitKind, RateLimitResult } from './rateLimit';
+
+export type {
+  ContactChallenge,
+  ContactFormData,
+  ContactProtection,
+  ContactResponse,
+  ContactErrorResponse,
+  ContactSuccessResponse,
+  InquiryDetails,
+  InquiryField,
+  InquiryType,
+} from '../src/types/contact';
+export type {
+  AccessRule,
+  AccessRuleAction,
+  AccessRuleKind,
+  InboxAttachment,
+  InboxMessage,
+  InboxReply,
+  InboxDelivery,
+  MessageStatus,
+  MessageFolder,
+  DeliveryStatus,
+} from '../src/types/inbox';
+
+export interface MailAddress {
+  name: string;
+  address: string;
+}
+
+// A file on disk to attach; read when the message is sent
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  path: string;
+}
+
+// A calendar invite, sent as the message's text/calendar alternative
+export interface MailCalendarEvent {
+  method: 'REQUEST' | 'CANCEL';
+  filename: string;
+  content: string;
+}
+
+// The message options the server sends; a JSON-safe subset of nodemailer's
+export interface MailMessage {
+  from: MailAddress | string;
+  to: string;
+  replyTo?: string;
+  subject: string;
+  text: string;
+  html: string;
+  attachments?: MailAttachment[];
+  icalEvent?: MailCalendarEvent;
+}
+
+/**
+ * A way of delivering mail. A failed `send` rejects with an error whose
+ * `permanent` flag tells the outbox not to retry it.
+ */
+export interface MailTransport {
+  name: string;
+  send: (mail: MailMessage) => Promise<{ messageId: string }>;
+  verify: () => Promise<unknown>;
+}
+
+export interface DeliveryError extends Error {
+  permanent?: boolean;
+}
+
+// What the outbox needs to deliver a queued job
+export interface OutboxJob {
+  id: number;
+  messageId: number | null;
+  kind: string;
+  attempts: number;
+  mail: MailMessage;
+}
+
+// A validated submission with the spam protection fields sent along with it
+export interface SpamInput extends ContactFormData, ContactProtection {}
+
+// Why a check thinks a submission is spam, and how strongly
+export interface SpamFinding {
+  check: string;
+  score: number;
+  reason: string;
+}
+
+/**
+ * One step of the spam pipeline. `run` returns a finding when the submission
+ * looks like spam and null when it doesn't. `token` is the submission's form
+ * token, already checked and redeemed by the pipeline.
+ */
+export interface SpamCheck {
+  name: string;
+  run: (
+    input: SpamInput,
+    config: SpamConfig,
+    token: TokenCheck
+  ) => Omit<SpamFinding, 'check'> | null;
+}
+
+/**
+ * Where rate limit hits are kept: a log of hit times (ms) per key. Counting
+ * the hits inside a window is the limiter's job; the store only keeps them.
+ */
+export interface RateLimitStore {
+  name: string;
+  // Times of the hits for `key` at or after `since`, oldest first
+  hits: (key: string, since: number) => number[];
+  add: (key: string, at: number) => void;
+  // Drop every hit before `before`
+  prune: (before: number) => void;
+  clear: (key: string) => void;
+  // Drop the latest hit for `key`
+  removeLatest: (key: string) => void;
+}
+
+// How a public form answers senders its access rules or rate limits refuse
+export interface SenderMessages {
+  denied: string;
+  rateLimited: Record<LimitKind, string>;
+}
+
+// What the sender checks learned so far about the request's sender
+export interface SenderCheck {
+  ipHash: string | null;
+  messages: SenderMessages;
+  // Every limit counted so far, for the `RateLimit-*` headers
+  limits: RateLimitResult[];
+  // On the allowlist, so no limit applies
+  allowed: boolean;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      // The message named by `:id` in the admin routes
+      inboxMessage?: InboxMessage;
+      // Set by `checkSender` in the public form routes
+      sender?: SenderCheck;
+    }
+  }
+}
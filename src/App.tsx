@@ -1,20 +1,26 @@
 import { useEffect } from 'react';
+import { Routes, Route, Navigate } from 'react-router-dom';
 import { Navbar } from '@/components/layout/Navbar';
 import { Footer } from '@/components/layout/Footer';
 import { ScrollProgress } from '@/components/layout/ScrollProgress';
 import { AnimatedBackground } from '@/components/3d/AnimatedBackground';
-import { Hero } from '@/components/sections/Hero';
-import { About } from '@/components/sections/About';
-import { Skills } from '@/components/sections/Skills';
-import { Projects } from '@/components/sections/Projects';
-import { Education } from '@/components/sections/Education';
-import { Contact } from '@/components/sections/Contact';
+import { HomePage } from '@/pages/HomePage';
+import { ProjectPage } from '@/pages/ProjectPage';
+import { BlogPage } from '@/pages/BlogPage';
+import { BlogPostPage } from '@/pages/BlogPostPage';
+import { ResumePage } from '@/pages/ResumePage';
+import { AdminInboxPage } from '@/pages/AdminInboxPage';
 import { canHandleHeavyAnimations } from '@/utils/performance';
+import { useHydrated } from '@/hooks/useHydrated';
+import { usePageMeta } from '@/hooks/usePageMeta';
 import { SpeedInsights } from "@vercel/speed-insights/next"
 import './styles/globals.css';
 
 function App() {
-  const enableHeavyAnimations = canHandleHeavyAnimations();
+  const hydrated = useHydrated();
+  const enableHeavyAnimations = hydrated && canHandleHeavyAnimations();
+
+  usePageMeta();
 
   useEffect(() => {
     // Prevent default scroll behavior during load for smoother animations
@@ -32,7 +38,7 @@ function App() {
   }, []);
 
   return (
-    <div className="relative bg-primary text-text-primary overflow-x-hidden">
+    <div className="relative bg-primary text-text-primary overflow-x-hidden print:bg-white">
       {/* <SpeedInsights/> */}
       {/* Navigation */}
       <Navbar />
@@ -45,12 +51,15 @@ function App() {
 
       {/* Main Content */}
       <main className="relative z-10">
-        <Hero />
-        <About />
-        <Skills />
-        <Projects />
-        <Education />
-        <Contact />
+        <Routes>
+          <Route path="/" element={<HomePage />} />
+          <Route path="/projects/:slug" element={<ProjectPage />} />
+          <Route path="/blog" element={<BlogPage />} />
+          <Route path="/blog/:slug" element={<BlogPostPage />} />
+          <Route path="/resume" element={<ResumePage />} />
+          <Route path="/admin" element={<AdminInboxPage />} />
+          <Route path="*" element={<Navigate to="/" replace />} />
+        </Routes>
       </main>
 
       {/* Footer */}
@@ -17,7 +17,7 @@ export const AnimatedBackground = () => {
   }
 
   return (
-    <div className="fixed inset-0 -z-10 opacity-30 pointer-events-none">
+    <div className="fixed inset-0 -z-10 opacity-30 pointer-events-none print:hidden">
       <Canvas
         camera={{ position: [0, 0, 5], fov: 75 }}
         dpr={[1, 2]} // Optimize pixel ratio for performance
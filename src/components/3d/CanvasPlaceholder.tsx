@@ -0,0 +1,17 @@
+interface CanvasPlaceholderProps {
+  icon?: string;
+  className?: string;
+}
+
+// Static stand-in for a 3D canvas in prerendered HTML and before hydration
+export const CanvasPlaceholder = ({ icon, className = '' }: CanvasPlaceholderProps) => (
+  <div
+    className={`w-full h-full flex items-center justify-center bg-gradient-to-br 
+               from-accent/5 via-transparent to-accent/10 ${className}`}
+    aria-hidden="true"
+  >
+    {icon && <div className="text-8xl opacity-60 animate-float">{icon}</div>}
+  </div>
+);
+
+export default CanvasPlaceholder;
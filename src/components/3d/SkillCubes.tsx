@@ -3,14 +3,8 @@ import { useFrame, useThree } from '@react-three/fiber';
 import { RoundedBox, Text, Html } from '@react-three/drei';
 import * as THREE from 'three';
 import { animated, useSpring } from '@react-spring/three';
-
-interface Skill {
-  name: string;
-  level: number;
-  icon?: string;
-  color: string;
-  description?: string;
-}
+import { COLORS, FEATURED_SKILLS } from '@/utils/constants';
+import type { Skill } from '@/types/content';
 
 interface SkillCubeProps {
   skill: Skill;
@@ -78,10 +72,10 @@ function SkillCube({ skill, position, index }: SkillCubeProps) {
       >
         {/* Front Face - Skill Name */}
         <meshStandardMaterial
-          color={skill.color}
+          color={skill.color ?? COLORS.accent.DEFAULT}
           metalness={0.6}
           roughness={0.2}
-          emissive={skill.color}
+          emissive={skill.color ?? COLORS.accent.DEFAULT}
           emissiveIntensity={hovered ? 0.3 : 0.1}
         />
 
@@ -214,72 +208,8 @@ function getPositions(
   return positions;
 }
 
-// Default skills data
-const defaultSkills: Skill[] = [
-  {
-    name: 'React.js',
-    level: 93,
-    icon: '⚛️',
-    color: '#61DAFB',
-    description: 'Building modern UIs with hooks and components',
-  },
-  {
-    name: 'JavaScript',
-    level: 92,
-    icon: '🟨',
-    color: '#F7DF1E',
-    description: 'ES6+ features and async programming',
-  },
-  {
-    name: 'TypeScript',
-    level: 88,
-    icon: '🔷',
-    color: '#3178C6',
-    description: 'Type-safe application development',
-  },
-  {
-    name: 'Node.js',
-    level: 85,
-    icon: '🟢',
-    color: '#339933',
-    description: 'Server-side JavaScript runtime',
-  },
-  {
-    name: 'MongoDB',
-    level: 88,
-    icon: '🍃',
-    color: '#47A248',
-    description: 'NoSQL database and data modeling',
-  },
-  {
-    name: 'Three.js',
-    level: 80,
-    icon: '🎮',
-    color: '#000000',
-    description: '3D graphics and WebGL rendering',
-  },
-  {
-    name: 'Tailwind',
-    level: 90,
-    icon: '💨',
-    color: '#06B6D4',
-    description: 'Utility-first CSS framework',
-  },
-  {
-    name: 'Git',
-    level: 87,
-    icon: '🔀',
-    color: '#F05032',
-    description: 'Version control and collaboration',
-  },
-  {
-    name: 'AWS',
-    level: 82,
-    icon: '☁️',
-    color: '#FF9900',
-    description: 'Cloud services and S3 storage',
-  },
-];
+// Default skills data - the featured skills from the portfolio content
+const defaultSkills: Skill[] = FEATURED_SKILLS;
 
 // Alternative: Flat Card Style (2D approach)
 export function SkillCards({ skills = defaultSkills }: { skills?: Skill[] }) {
@@ -323,10 +253,10 @@ function SkillCard({ skill, index }: { skill: Skill; index: number }) {
       >
         <boxGeometry args={[1.3, 0.8, 0.1]} />
         <meshStandardMaterial
-          color={skill.color}
+          color={skill.color ?? COLORS.accent.DEFAULT}
           metalness={0.5}
           roughness={0.3}
-          emissive={skill.color}
+          emissive={skill.color ?? COLORS.accent.DEFAULT}
           emissiveIntensity={hovered ? 0.4 : 0.1}
         />
       </animated.mesh>
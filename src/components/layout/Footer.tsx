@@ -1,8 +1,13 @@
+import { Link } from 'react-router-dom';
+import { useSectionNavigation } from '@/hooks/useSectionNavigation';
+import { NAV_LINKS, PERSONAL_INFO, PROJECTS, SOCIALS } from '@/utils/constants';
+
 // Define proper TypeScript interfaces
 interface FooterLink {
   name: string;
   href: string;
   external?: boolean; // Make optional
+  route?: boolean; // In-app route such as a project page
 }
 
 interface FooterSection {
@@ -19,28 +24,27 @@ const footerLinks: FooterLinks = {
     {
       title: 'Quick Links',
       links: [
-        { name: 'Home', href: '#home', external: false },
-        { name: 'About', href: '#about', external: false },
-        { name: 'Projects', href: '#projects', external: false },
-        { name: 'Contact', href: '#contact', external: false },
+        ...NAV_LINKS.map((link) => ({ name: link.name, href: link.href, external: false })),
+        { name: 'Blog', href: '/blog', route: true },
       ],
     },
     {
       title: 'Projects',
-      links: [
-        { name: 'File Sharing Platform', href: '#projects', external: false },
-        { name: 'Chat Application', href: '#projects', external: false },
-        { name: 'Authentication System', href: '#projects', external: false },
-        { name: 'TryHackMe Labs', href: '#projects', external: false },
-      ],
+      links: PROJECTS.map((project) => ({
+        name: project.title,
+        href: `/projects/${project.slug}`,
+        route: true,
+      })),
     },
     {
       title: 'Connect',
       links: [
-        { name: 'LinkedIn', href: 'https://in.linkedin.com/in/lokesh-trivedi-66572b246', external: true },
-        { name: 'GitHub', href: 'https://github.com/lokeshgit-stack', external: true },
-        { name: 'Email', href: 'mailto:lokeshtrivedi2004@gmail.com', external: true },
-        { name: 'Resume', href: '/resume.pdf', external: true },
+        ...SOCIALS.filter((social) => social.id !== 'phone').map((social) => ({
+          name: social.name,
+          href: social.url,
+          external: true,
+        })),
+        { name: 'Resume', href: PERSONAL_INFO.resume, external: true },
       ],
     },
   ],
@@ -49,13 +53,10 @@ const footerLinks: FooterLinks = {
 export const Footer = () => {
   const currentYear = new Date().getFullYear();
 
-  const scrollToSection = (href: string) => {
-    const element = document.querySelector(href);
-    element?.scrollIntoView({ behavior: 'smooth' });
-  };
+  const scrollToSection = useSectionNavigation();
 
   return (
-    <footer className="bg-primary-dark border-t border-accent/20 pt-16 pb-8">
+    <footer className="bg-primary-dark border-t border-accent/20 pt-16 pb-8 print:hidden">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         {/* Main Footer Content */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8 mb-12">
@@ -63,50 +64,31 @@ export const Footer = () => {
           <div className="lg:col-span-1">
             <div className="mb-4">
               <span className="text-3xl font-bold text-accent">
-                {'<'}<span className="text-text-primary">LT</span>{' />'}
+                {'<'}<span className="text-text-primary">{PERSONAL_INFO.initials}</span>{' />'}
               </span>
             </div>
             <p className="text-text-secondary mb-6 leading-relaxed">
-              Fullstack Developer specializing in React.js, CyberSecurity and modern web technologies.
+              {PERSONAL_INFO.title} specializing in React.js, CyberSecurity and modern web technologies.
               Building secure, responsive, and interactive applications.
             </p>
             
             {/* Social Links */}
             <div className="flex space-x-4">
-              <a
-                href="https://in.linkedin.com/in/lokesh-trivedi-66572b246"
-                target="_blank"
-                rel="noopener noreferrer"
-                className="w-10 h-10 flex items-center justify-center rounded-lg 
-                         bg-primary-light text-text-secondary hover:text-accent 
-                         hover:bg-accent/10 transition-all duration-300 transform 
-                         hover:scale-110"
-                aria-label="LinkedIn"
-              >
-                <span className="text-xl">💼</span>
-              </a>
-              <a
-                href="https://github.com/lokeshgit-stack"
-                target="_blank"
-                rel="noopener noreferrer"
-                className="w-10 h-10 flex items-center justify-center rounded-lg 
-                         bg-primary-light text-text-secondary hover:text-accent 
-                         hover:bg-accent/10 transition-all duration-300 transform 
-                         hover:scale-110"
-                aria-label="GitHub"
-              >
-                <span className="text-xl">🐙</span>
-              </a>
-              <a
-                href="mailto:lokeshtrivedi2004@gmail.com"
-                className="w-10 h-10 flex items-center justify-center rounded-lg 
-                         bg-primary-light text-text-secondary hover:text-accent 
-                         hover:bg-accent/10 transition-all duration-300 transform 
-                         hover:scale-110"
-                aria-label="Email"
-              >
-                <span className="text-xl">📧</span>
-              </a>
+              {SOCIALS.filter((social) => social.id !== 'phone').map((social) => (
+                <a
+                  key={social.id}
+                  href={social.url}
+                  target={social.url.startsWith('http') ? '_blank' : undefined}
+                  rel={social.url.startsWith('http') ? 'noopener noreferrer' : undefined}
+                  className="w-10 h-10 flex items-center justify-center rounded-lg 
+                           bg-primary-light text-text-secondary hover:text-accent 
+                           hover:bg-accent/10 transition-all duration-300 transform 
+                           hover:scale-110"
+                  aria-label={social.name}
+                >
+                  <span className="text-xl">{social.icon}</span>
+                </a>
+              ))}
             </div>
           </div>
 
@@ -135,6 +117,14 @@ export const Footer = () => {
                           </span>
                         )}
                       </a>
+                    ) : link.route ? (
+                      <Link
+                        to={link.href}
+                        className="text-text-secondary hover:text-accent transition-colors 
+                                 duration-300"
+                      >
+                        {link.name}
+                      </Link>
                     ) : (
                       <button
                         onClick={() => scrollToSection(link.href)}
@@ -156,7 +146,7 @@ export const Footer = () => {
           <div className="flex flex-col md:flex-row justify-between items-center space-y-4 md:space-y-0">
             {/* Copyright */}
             <p className="text-text-secondary text-sm">
-              © {currentYear} Lokesh Trivedi. All rights reserved.
+              © {currentYear} {PERSONAL_INFO.name}. All rights reserved.
             </p>
 
             {/* Tech Stack Badge */}
@@ -170,7 +160,7 @@ export const Footer = () => {
             {/* Location */}
             <p className="text-text-secondary text-sm flex items-center">
               <span className="mr-2">📍</span>
-              Sojat City, Rajasthan, India
+              {PERSONAL_INFO.shortLocation}
             </p>
           </div>
         </div>
@@ -1,4 +1,6 @@
 import { useState, useEffect, useRef } from 'react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import { useSectionNavigation } from '@/hooks/useSectionNavigation';
 import gsap from 'gsap';
 import { ScrollTrigger } from 'gsap/ScrollTrigger';
 
@@ -15,6 +17,7 @@ const navLinks: NavLink[] = [
   { name: 'Skills', href: '#skills' },
   { name: 'Projects', href: '#projects' },
   { name: 'Education', href: '#education' },
+  { name: 'Blog', href: '/blog' },
   { name: 'Contact', href: '#contact' },
 ];
 
@@ -23,6 +26,9 @@ export const Navbar = () => {
   const [activeSection, setActiveSection] = useState('home');
   const navRef = useRef<HTMLElement>(null);
   const logoRef = useRef<HTMLDivElement>(null);
+  const { pathname } = useLocation();
+  const navigate = useNavigate();
+  const goToSection = useSectionNavigation();
 
   useEffect(() => {
     // Hide navbar on scroll down, show on scroll up
@@ -57,6 +63,18 @@ export const Navbar = () => {
       ease: 'sine.inOut',
     });
 
+    return () => {
+      ScrollTrigger.getAll().forEach((trigger) => trigger.kill());
+    };
+  }, []);
+
+  useEffect(() => {
+    // Sections only exist on the home page; elsewhere highlight the matching route
+    if (pathname !== '/') {
+      setActiveSection(pathname.startsWith('/blog') ? 'blog' : '');
+      return;
+    }
+
     // Track active section
     const sections = document.querySelectorAll('section[id]');
     const observer = new IntersectionObserver(
@@ -72,23 +90,21 @@ export const Navbar = () => {
 
     sections.forEach((section) => observer.observe(section));
 
-    return () => {
-      sections.forEach((section) => observer.unobserve(section));
-      ScrollTrigger.getAll().forEach((trigger) => trigger.kill());
-    };
-  }, []);
+    return () => observer.disconnect();
+  }, [pathname]);
 
+  // Section anchors scroll on the home page; paths such as `/blog` are routes
   const scrollToSection = (href: string) => {
     setIsOpen(false);
-    const element = document.querySelector(href);
-    element?.scrollIntoView({ behavior: 'smooth' });
+    if (href.startsWith('/')) navigate(href);
+    else goToSection(href);
   };
 
   return (
     <nav
       ref={navRef}
       className="fixed top-0 left-0 right-0 z-50 bg-primary/90 backdrop-blur-md 
-               border-b border-accent/20 shadow-lg"
+               border-b border-accent/20 shadow-lg print:hidden"
     >
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex items-center justify-between h-16">
@@ -135,15 +151,14 @@ export const Navbar = () => {
 
           {/* Resume Button */}
           <div className="hidden md:block">
-            <a
-              href="/resume.pdf"
-              download
+            <Link
+              to="/resume"
               className="px-4 py-2 border-2 border-accent text-accent rounded-md 
                        hover:bg-accent hover:text-primary transition-all duration-300
                        font-semibold"
             >
               Resume
-            </a>
+            </Link>
           </div>
 
           {/* Mobile menu button */}
@@ -196,15 +211,15 @@ export const Navbar = () => {
               {link.name}
             </button>
           ))}
-          <a
-            href="/resume.pdf"
-            download
+          <Link
+            to="/resume"
+            onClick={() => setIsOpen(false)}
             className="block w-full text-center px-3 py-2 mt-4 border-2 border-accent 
                      text-accent rounded-md hover:bg-accent hover:text-primary 
                      transition-all font-semibold"
           >
-            Download Resume
-          </a>
+            Resume
+          </Link>
         </div>
       </div>
     </nav>
@@ -29,7 +29,7 @@ export const ScrollProgress = () => {
   return (
     <>
       {/* Top Progress Bar */}
-      <div className="fixed top-0 left-0 right-0 z-[60] h-1 bg-primary-light">
+      <div className="fixed top-0 left-0 right-0 z-[60] h-1 bg-primary-light print:hidden">
         <div
           className="h-full bg-gradient-to-r from-accent to-accent-hover 
                    shadow-lg shadow-accent/50 transition-all duration-100"
@@ -41,7 +41,7 @@ export const ScrollProgress = () => {
       {isVisible && (
         <button
           onClick={() => window.scrollTo({ top: 0, behavior: 'smooth' })}
-          className="fixed bottom-8 right-8 z-50 w-14 h-14 flex items-center 
+          className="fixed bottom-8 right-8 z-50 w-14 h-14 flex items-center print:hidden 
                    justify-center rounded-full bg-primary-light border-2 
                    border-accent/30 hover:border-accent shadow-lg 
                    hover:shadow-accent/50 transition-all duration-300 
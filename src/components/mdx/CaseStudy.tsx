@@ -0,0 +1,24 @@
+import type { ReactNode } from 'react';
+import { getCaseStudy } from '@/content/caseStudies';
+import type { Project } from '@/types/content';
+import { mdxComponents } from './MDXComponents';
+
+interface CaseStudyProps {
+  project: Project;
+  fallback?: ReactNode;
+  className?: string;
+}
+
+// Renders a project's MDX case study, or `fallback` when it has none
+export const CaseStudy = ({ project, fallback = null, className = '' }: CaseStudyProps) => {
+  const Content = getCaseStudy(project);
+  if (!Content) return <>{fallback}</>;
+
+  return (
+    <div className={`case-study ${className}`}>
+      <Content components={mdxComponents} />
+    </div>
+  );
+};
+
+export default CaseStudy;
@@ -0,0 +1,184 @@
+import type { ComponentPropsWithoutRef, ReactNode } from 'react';
+import type { MDXComponents } from 'mdx/types';
+import { Link } from 'react-router-dom';
+import { Canvas } from '@react-three/fiber';
+import { ParticleField } from '@/components/3d/ParticleField';
+import { CanvasPlaceholder } from '@/components/3d/CanvasPlaceholder';
+import { useHydrated } from '@/hooks/useHydrated';
+
+// Callout box for notes, warnings and takeaways inside a case study
+interface CalloutProps {
+  children: ReactNode;
+  type?: 'info' | 'warning' | 'success';
+  title?: string;
+}
+
+export const Callout = ({ children, type = 'info', title }: CalloutProps) => {
+  const styles = {
+    info: { icon: '💡', border: 'border-accent/40', title: 'text-accent' },
+    warning: { icon: '⚠️', border: 'border-yellow-400/40', title: 'text-yellow-400' },
+    success: { icon: '✅', border: 'border-green-400/40', title: 'text-green-400' },
+  };
+  const style = styles[type];
+
+  return (
+    <aside className={`my-6 p-5 bg-primary rounded-xl border-l-4 ${style.border}`}>
+      {title && (
+        <p className={`font-semibold mb-2 flex items-center gap-2 ${style.title}`}>
+          <span>{style.icon}</span>
+          {title}
+        </p>
+      )}
+      <div className="text-text-secondary [&>p]:my-0">{children}</div>
+    </aside>
+  );
+};
+
+// Live demo of a deployed React app, embedded in a sandboxed iframe
+interface EmbedProps {
+  src: string;
+  title: string;
+  height?: number;
+}
+
+export const Embed = ({ src, title, height = 480 }: EmbedProps) => (
+  <figure className="my-8">
+    <div className="rounded-xl overflow-hidden border-2 border-accent/20 bg-primary">
+      <iframe
+        src={src}
+        title={title}
+        loading="lazy"
+        sandbox="allow-scripts allow-same-origin allow-forms allow-popups"
+        className="w-full"
+        style={{ height }}
+      />
+    </div>
+    <figcaption className="mt-2 text-sm text-text-secondary text-center">
+      {title} —{' '}
+      <a href={src} target="_blank" rel="noopener noreferrer" className="text-accent hover:underline">
+        open in a new tab
+      </a>
+    </figcaption>
+  </figure>
+);
+
+// Interactive particle scene, reusing the site's ParticleField
+interface ParticleDemoProps {
+  variant?: 'stars' | 'nebula' | 'float' | 'wave' | 'spiral';
+  color?: string;
+  count?: number;
+  caption?: string;
+}
+
+export const ParticleDemo = ({
+  variant = 'spiral',
+  color = '#64FFDA',
+  count = 2000,
+  caption,
+}: ParticleDemoProps) => {
+  const hydrated = useHydrated();
+
+  return (
+    <figure className="my-8">
+      <div className="h-72 rounded-xl overflow-hidden border-2 border-accent/20 bg-primary-dark">
+        {hydrated ? (
+          <Canvas camera={{ position: [0, 0, 6], fov: 60 }} dpr={[1, 2]}>
+            <ParticleField
+              count={count}
+              size={0.03}
+              color={color}
+              radius={5}
+              variant={variant}
+              opacity={0.8}
+            />
+          </Canvas>
+        ) : (
+          <CanvasPlaceholder icon="✨" />
+        )}
+      </div>
+      {caption && (
+        <figcaption className="mt-2 text-sm text-text-secondary text-center">{caption}</figcaption>
+      )}
+    </figure>
+  );
+};
+
+const isExternal = (href: string) => /^https?:\/\//.test(href);
+
+/**
+ * Element overrides and shortcodes available to every MDX case study.
+ * Markdown is styled to match the rest of the site; the custom components
+ * (Callout, Embed, ParticleDemo) can be used in MDX without importing them.
+ */
+export const mdxComponents: MDXComponents = {
+  h2: (props: ComponentPropsWithoutRef<'h2'>) => (
+    <h2 className="text-2xl md:text-3xl font-bold text-text-primary mt-10 mb-4" {...props} />
+  ),
+  h3: (props: ComponentPropsWithoutRef<'h3'>) => (
+    <h3 className="text-xl font-semibold text-accent mt-8 mb-3" {...props} />
+  ),
+  p: (props: ComponentPropsWithoutRef<'p'>) => (
+    <p className="text-text-secondary leading-relaxed my-4" {...props} />
+  ),
+  a: ({ href = '', ...props }: ComponentPropsWithoutRef<'a'>) =>
+    // Site-relative links navigate in-app instead of reloading the page
+    href.startsWith('/') ? (
+      <Link to={href} className="text-accent hover:underline" {...props} />
+    ) : (
+      <a
+        href={href}
+        className="text-accent hover:underline"
+        {...(isExternal(href) && { target: '_blank', rel: 'noopener noreferrer' })}
+        {...props}
+      />
+    ),
+  ul: (props: ComponentPropsWithoutRef<'ul'>) => (
+    <ul
+      className="my-4 space-y-2 text-text-secondary [&>li]:relative [&>li]:pl-6
+               [&>li]:before:absolute [&>li]:before:left-0 [&>li]:before:text-accent
+               [&>li]:before:content-['▹']"
+      {...props}
+    />
+  ),
+  ol: (props: ComponentPropsWithoutRef<'ol'>) => (
+    <ol className="my-4 space-y-2 text-text-secondary list-decimal pl-6 marker:text-accent" {...props} />
+  ),
+  blockquote: (props: ComponentPropsWithoutRef<'blockquote'>) => (
+    <blockquote className="my-6 pl-4 border-l-4 border-accent/40 italic text-text-secondary" {...props} />
+  ),
+  code: (props: ComponentPropsWithoutRef<'code'>) => (
+    <code className="font-mono text-sm text-accent bg-primary px-1.5 py-0.5 rounded" {...props} />
+  ),
+  pre: (props: ComponentPropsWithoutRef<'pre'>) => (
+    <pre
+      className="my-6 p-4 bg-primary-dark rounded-xl border border-accent/20 overflow-x-auto
+               text-sm leading-relaxed [&>code]:bg-transparent [&>code]:p-0 [&>code]:text-text-primary"
+      {...props}
+    />
+  ),
+  img: ({ alt = '', ...props }: ComponentPropsWithoutRef<'img'>) => (
+    <img
+      alt={alt}
+      loading="lazy"
+      className="my-6 w-full rounded-xl border-2 border-accent/20"
+      {...props}
+    />
+  ),
+  table: (props: ComponentPropsWithoutRef<'table'>) => (
+    <div className="my-6 overflow-x-auto">
+      <table className="w-full text-sm text-left text-text-secondary" {...props} />
+    </div>
+  ),
+  th: (props: ComponentPropsWithoutRef<'th'>) => (
+    <th className="px-4 py-2 border-b border-accent/30 text-text-primary font-semibold" {...props} />
+  ),
+  td: (props: ComponentPropsWithoutRef<'td'>) => (
+    <td className="px-4 py-2 border-b border-accent/10" {...props} />
+  ),
+  hr: () => <hr className="my-10 border-accent/20" />,
+  Callout,
+  Embed,
+  ParticleDemo,
+};
+
+export default mdxComponents;
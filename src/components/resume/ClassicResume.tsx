@@ -0,0 +1,45 @@
+import {
+  ResumeEducation,
+  ResumeLinkText,
+  ResumeProjects,
+  ResumeSection,
+  type ResumeProps,
+} from '@/components/resume/ResumeSections';
+
+// Single column with a centred header, matching the classic PDF
+export const ClassicResume = ({ resume }: ResumeProps) => (
+  <div className="p-10 md:p-14" style={{ color: resume.colors.ink }}>
+    <header className="text-center">
+      <h1 className="text-4xl font-bold">{resume.name}</h1>
+      <p className="text-lg mt-1" style={{ color: resume.colors.muted }}>
+        {resume.title}
+      </p>
+      {[resume.contact, resume.links].map((links, row) => (
+        <p key={row} className="text-xs mt-2 flex flex-wrap justify-center gap-x-3 gap-y-1">
+          {links.map((link) => (
+            <ResumeLinkText key={link.label} link={link} />
+          ))}
+        </p>
+      ))}
+    </header>
+
+    <ResumeSection title="Summary" resume={resume}>
+      <p className="text-sm leading-relaxed">{resume.summary}</p>
+    </ResumeSection>
+
+    <ResumeSection title="Skills" resume={resume}>
+      <ul className="text-sm space-y-1">
+        {[...resume.skills, { category: 'Tools', items: resume.tools }].map((group) => (
+          <li key={group.category}>
+            <span className="font-bold">{group.category}:</span> {group.items.join(', ')}
+          </li>
+        ))}
+      </ul>
+    </ResumeSection>
+
+    <ResumeProjects resume={resume} />
+    <ResumeEducation resume={resume} />
+  </div>
+);
+
+export default ClassicResume;
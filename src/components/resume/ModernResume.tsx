@@ -0,0 +1,58 @@
+import {
+  ResumeEducation,
+  ResumeLinkText,
+  ResumeProjects,
+  ResumeSection,
+  type ResumeProps,
+} from '@/components/resume/ResumeSections';
+
+// Dark sidebar with contact details and skills, matching the modern PDF
+export const ModernResume = ({ resume }: ResumeProps) => {
+  const sidebarGroups = [
+    { title: 'Contact', links: resume.contact },
+    { title: 'Profiles', links: resume.links },
+    ...resume.skills.map((group) => ({
+      title: group.category,
+      links: [{ label: group.items.join(', ') }],
+    })),
+    { title: 'Tools', links: [{ label: resume.tools.join(', ') }] },
+  ];
+
+  return (
+    <div className="grid md:grid-cols-[14rem_1fr] print:grid-cols-[14rem_1fr]">
+      <aside className="p-8 text-white" style={{ backgroundColor: resume.colors.ink }}>
+        <h1 className="text-3xl font-bold leading-tight">{resume.name}</h1>
+        <p className="mt-1" style={{ color: resume.colors.accent }}>
+          {resume.title}
+        </p>
+        {sidebarGroups.map((group) => (
+          <div key={group.title} className="mt-6">
+            <h2
+              className="text-xs font-bold uppercase tracking-widest mb-2"
+              style={{ color: resume.colors.accent }}
+            >
+              {group.title}
+            </h2>
+            <ul className="text-xs space-y-1 break-words">
+              {group.links.map((link) => (
+                <li key={link.label}>
+                  <ResumeLinkText link={link} />
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </aside>
+
+      <div className="p-8 md:p-10" style={{ color: resume.colors.ink }}>
+        <ResumeSection title="Summary" resume={resume}>
+          <p className="text-sm leading-relaxed">{resume.summary}</p>
+        </ResumeSection>
+        <ResumeProjects resume={resume} />
+        <ResumeEducation resume={resume} />
+      </div>
+    </div>
+  );
+};
+
+export default ModernResume;
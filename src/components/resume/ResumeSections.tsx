@@ -0,0 +1,80 @@
+import type { ReactNode } from 'react';
+import type { Resume, ResumeLink } from '@/utils/resume';
+
+/**
+ * Building blocks shared by the resume templates. Each template mirrors the
+ * PDF layout of the same name in plugins/resume.
+ */
+
+export interface ResumeProps {
+  resume: Resume;
+}
+
+// Link when the entry has a URL, plain text otherwise
+export const ResumeLinkText = ({ link }: { link: ResumeLink }) =>
+  link.url ? (
+    <a href={link.url} className="hover:underline">
+      {link.label}
+    </a>
+  ) : (
+    <span>{link.label}</span>
+  );
+
+export const ResumeSection = ({
+  title,
+  resume,
+  children,
+}: {
+  title: string;
+  resume: Resume;
+  children: ReactNode;
+}) => (
+  <section className="mt-6 break-inside-avoid-page">
+    <h2
+      className="text-sm font-bold uppercase tracking-widest pb-1 mb-3 border-b-2"
+      style={{ borderColor: resume.colors.accent }}
+    >
+      {title}
+    </h2>
+    {children}
+  </section>
+);
+
+export const ResumeProjects = ({ resume }: ResumeProps) => (
+  <ResumeSection title="Projects" resume={resume}>
+    <div className="space-y-4">
+      {resume.projects.map((project) => (
+        <article key={project.title} className="break-inside-avoid">
+          <h3 className="font-bold">{project.title}</h3>
+          {(project.date || project.link) && (
+            <p className="text-xs" style={{ color: resume.colors.muted }}>
+              {project.date}
+              {project.date && project.link && ' · '}
+              {project.link && <ResumeLinkText link={project.link} />}
+            </p>
+          )}
+          <p className="text-sm leading-relaxed mt-1">{project.description}</p>
+          <p className="text-xs mt-1" style={{ color: resume.colors.muted }}>
+            {project.technologies.join(' · ')}
+          </p>
+        </article>
+      ))}
+    </div>
+  </ResumeSection>
+);
+
+export const ResumeEducation = ({ resume }: ResumeProps) => (
+  <ResumeSection title="Education" resume={resume}>
+    <div className="space-y-4">
+      {resume.education.map((item) => (
+        <article key={`${item.degree}-${item.institution}`} className="break-inside-avoid">
+          <h3 className="font-bold">{item.degree}</h3>
+          <p className="text-xs" style={{ color: resume.colors.muted }}>
+            {item.institution} · {item.duration}
+          </p>
+          <p className="text-sm leading-relaxed mt-1">{item.description}</p>
+        </article>
+      ))}
+    </div>
+  </ResumeSection>
+);
@@ -6,7 +6,8 @@ import { TextReveal } from '@/components/animations/TextReveal';
 import { Card, CardContent } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { canHandleHeavyAnimations } from '@/utils/performance';
-import { PERSONAL_INFO, SOCIAL_LINKS } from '@/utils/constants';
+import { useHydrated } from '@/hooks/useHydrated';
+import { PERSONAL_INFO } from '@/utils/constants';
 import gsap from 'gsap';
 import { ScrollTrigger } from 'gsap/ScrollTrigger';
 
@@ -45,7 +46,8 @@ export const About = () => {
   const sectionRef = useRef<HTMLElement>(null);
   const contentRef = useRef<HTMLDivElement>(null);
   const avatarRef = useRef<HTMLDivElement>(null);
-  const enableHeavyAnimations = canHandleHeavyAnimations();
+  const hydrated = useHydrated();
+  const enableHeavyAnimations = hydrated && canHandleHeavyAnimations();
 
   // Animate section entrance
   useScrollAnimation({
@@ -179,25 +181,11 @@ export const About = () => {
               </h3>
             </div>
 
-            <p className="reveal-text text-lg text-text-secondary leading-relaxed">
-              I'm a passionate Computer Science Engineering student at Mahaveer Institute
-              of Technology & Science, specializing in building exceptional digital
-              experiences with modern web technologies.
-            </p>
-
-            <p className="reveal-text text-lg text-text-secondary leading-relaxed">
-              My journey in web development started with a curiosity for creating
-              interactive user interfaces. Today, I focus on developing secure, responsive,
-              and performant applications using React.js, Node.js, and modern JavaScript
-              frameworks.
-            </p>
-
-            <p className="reveal-text text-lg text-text-secondary leading-relaxed">
-              I have hands-on experience building full-stack applications including secure
-              file-sharing platforms, real-time chat systems, and authentication solutions.
-              I'm also passionate about cybersecurity, having completed 25+ labs on
-              TryHackMe.
-            </p>
+            {PERSONAL_INFO.bio.map((paragraph) => (
+              <p key={paragraph} className="reveal-text text-lg text-text-secondary leading-relaxed">
+                {paragraph}
+              </p>
+            ))}
 
             {/* Contact Details Card */}
             {/* <Card variant="glass" className="reveal-text mt-8">
@@ -280,7 +268,7 @@ export const About = () => {
             <div className="reveal-text pt-6">
               <p className="text-sm text-text-secondary mb-3">Technologies I work with:</p>
               <div className="flex flex-wrap gap-2">
-                {['React.js', 'Node.js', 'TypeScript', 'MongoDB', 'AWS', 'Three.js'].map(
+                {PERSONAL_INFO.techStack.map(
                   (tech) => (
                     <span
                       key={tech}
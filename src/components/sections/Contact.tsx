@@ -1,10 +1,13 @@
-import { useRef } from 'react';
+import { useMemo, useRef, useState } from 'react';
 import { useScrollAnimation, useBatchScrollAnimation } from '@/hooks/useScrollAnimation';
 import { TextReveal } from '@/components/animations/TextReveal';
 import { ContactForm } from '@/components/ui/ContactForm';
+import { AvailabilityCalendar } from '@/components/ui/AvailabilityCalendar';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
-import { PERSONAL_INFO, SOCIAL_LINKS } from '@/utils/constants';
+import { QRCode } from '@/components/ui/QRCode';
+import { PERSONAL_INFO, SITE, SOCIALS } from '@/utils/constants';
+import { buildVCard, downloadVCard } from '@/utils/vcard';
 
 interface ContactInfo {
   icon: string;
@@ -32,15 +35,28 @@ const contactInfo: ContactInfo[] = [
   {
     icon: '📍',
     title: 'Location',
-    value: 'Sojat City, Rajasthan',
+    value: PERSONAL_INFO.shortLocation,
     link: '#',
     color: 'from-purple-500 to-pink-500',
   },
 ];
 
+// What the QR code in the "Save contact" card encodes
+const qrModes = [
+  { id: 'vcard', label: 'Contact card' },
+  { id: 'site', label: 'Website' },
+] as const;
+
+type QrMode = (typeof qrModes)[number]['id'];
+
 export const Contact = () => {
   const sectionRef = useRef<HTMLElement>(null);
   const formRef = useRef<HTMLDivElement>(null);
+  const [qrMode, setQrMode] = useState<QrMode>('vcard');
+  const qrValue = useMemo(
+    () => (qrMode === 'vcard' ? buildVCard({ compact: true }) : SITE.url),
+    [qrMode]
+  );
 
   // Animate section entrance
   useScrollAnimation({
@@ -55,24 +71,6 @@ export const Contact = () => {
     duration: 0.6,
   });
 
-  // Form submission handler
-  const handleFormSubmit = async (data: { name: string; email: string; message: string }) => {
-    // Submit to your backend API
-    const response = await fetch('/api/email/contact', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(data),
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to send message');
-    }
-
-    return response.json();
-  };
-
   return (
     <section
       ref={sectionRef}
@@ -134,7 +132,7 @@ export const Contact = () => {
         <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
           {/* Contact Form - Takes 3 columns */}
           <div ref={formRef} className="lg:col-span-3">
-            <ContactForm onSubmit={handleFormSubmit} />
+            <ContactForm />
           </div>
 
           {/* Sidebar - Takes 2 columns */}
@@ -171,31 +169,12 @@ export const Contact = () => {
                   Connect With Me
                 </h3>
                 <div className="space-y-3">
-                  {[
-                    {
-                      name: 'LinkedIn',
-                      icon: '💼',
-                      link: SOCIAL_LINKS.linkedin,
-                      label: 'Professional Network',
-                    },
-                    {
-                      name: 'GitHub',
-                      icon: '🐙',
-                      link: SOCIAL_LINKS.github,
-                      label: 'Code Repository',
-                    },
-                    {
-                      name: 'Email',
-                      icon: '📧',
-                      link: SOCIAL_LINKS.email,
-                      label: 'Direct Message',
-                    },
-                  ].map((social) => (
+                  {SOCIALS.filter((social) => social.id !== 'phone').map((social) => (
                     <a
-                      key={social.name}
-                      href={social.link}
-                      target={social.link.startsWith('http') ? '_blank' : undefined}
-                      rel={social.link.startsWith('http') ? 'noopener noreferrer' : undefined}
+                      key={social.id}
+                      href={social.url}
+                      target={social.url.startsWith('http') ? '_blank' : undefined}
+                      rel={social.url.startsWith('http') ? 'noopener noreferrer' : undefined}
                       className="flex items-center gap-3 p-3 bg-primary rounded-lg border 
                                border-accent/20 hover:border-accent hover:bg-accent/10 
                                transition-all duration-300 transform hover:translate-x-2 group"
@@ -216,6 +195,49 @@ export const Contact = () => {
               </div>
             </Card>
 
+            {/* Save Contact */}
+            <Card variant="glass">
+              <div className="p-6">
+                <h3 className="text-2xl font-bold text-text-primary mb-2 flex items-center gap-2">
+                  <span>📇</span>
+                  Save My Contact
+                </h3>
+                <p className="text-sm text-text-secondary mb-4">
+                  Meeting in person? Scan the code to add me to your contacts or open this site.
+                </p>
+                <div className="flex gap-2 mb-4" role="group" aria-label="QR code content">
+                  {qrModes.map((mode) => (
+                    <button
+                      key={mode.id}
+                      onClick={() => setQrMode(mode.id)}
+                      aria-pressed={qrMode === mode.id}
+                      className={`flex-1 px-3 py-1.5 rounded-full text-xs font-mono border transition-colors ${
+                        qrMode === mode.id
+                          ? 'bg-accent text-primary border-accent'
+                          : 'border-accent/30 text-text-secondary hover:text-accent hover:border-accent'
+                      }`}
+                    >
+                      {mode.label}
+                    </button>
+                  ))}
+                </div>
+                <div className="bg-white rounded-xl p-3 mx-auto max-w-[14rem] mb-4">
+                  <QRCode
+                    value={qrValue}
+                    label={
+                      qrMode === 'vcard'
+                        ? `QR code with ${PERSONAL_INFO.name}'s contact card`
+                        : `QR code linking to ${SITE.url}`
+                    }
+                    className="w-full h-auto"
+                  />
+                </div>
+                <Button variant="primary" size="md" fullWidth icon="⬇️" onClick={downloadVCard}>
+                  Save contact (.vcf)
+                </Button>
+              </div>
+            </Card>
+
             {/* Resume Download */}
             {/* <Card variant="glass">
               <div className="p-6 text-center">
@@ -247,35 +269,30 @@ export const Contact = () => {
                     Available for Work
                   </h3>
                 </div>
-                <p className="text-sm text-text-secondary">
-                  Currently open to full-time opportunities, freelance projects, and
-                  collaborations.
-                </p>
+                <p className="text-sm text-text-secondary">{PERSONAL_INFO.availability}</p>
               </div>
             </Card>
           </div>
         </div>
 
+        {/* Call Booking */}
+        <AvailabilityCalendar className="mt-12" />
+
         {/* Bottom Social Links */}
         <div className="mt-16 text-center">
           <p className="text-text-secondary mb-6">Follow me on social media</p>
           <div className="flex justify-center gap-4">
-            {[
-              { icon: '💼', link: SOCIAL_LINKS.linkedin, label: 'LinkedIn' },
-              { icon: '🐙', link: SOCIAL_LINKS.github, label: 'GitHub' },
-              { icon: '📧', link: SOCIAL_LINKS.email, label: 'Email' },
-              { icon: '📱', link: SOCIAL_LINKS.phone, label: 'Phone' },
-            ].map((social) => (
+            {SOCIALS.map((social) => (
               <a
-                key={social.label}
-                href={social.link}
-                target={social.link.startsWith('http') ? '_blank' : undefined}
-                rel={social.link.startsWith('http') ? 'noopener noreferrer' : undefined}
+                key={social.id}
+                href={social.url}
+                target={social.url.startsWith('http') ? '_blank' : undefined}
+                rel={social.url.startsWith('http') ? 'noopener noreferrer' : undefined}
                 className="w-14 h-14 flex items-center justify-center bg-primary-light 
                          rounded-full border-2 border-accent/20 hover:border-accent 
                          hover:bg-accent/10 transition-all duration-300 transform 
                          hover:scale-110 hover:-translate-y-1"
-                aria-label={social.label}
+                aria-label={social.name}
               >
                 <span className="text-2xl">{social.icon}</span>
               </a>
@@ -288,7 +305,7 @@ export const Contact = () => {
           <p className="text-lg text-text-secondary italic">
             "Thank you for visiting my portfolio. Looking forward to connecting with you!"
           </p>
-          <p className="text-accent font-semibold mt-2">- Lokesh Trivedi</p>
+          <p className="text-accent font-semibold mt-2">- {PERSONAL_INFO.name}</p>
         </div>
       </div>
     </section>
@@ -9,27 +9,6 @@ import { ScrollTrigger } from 'gsap/ScrollTrigger';
 
 gsap.registerPlugin(ScrollTrigger);
 
-interface EducationItem {
-  id: number;
-  degree: string;
-  institution: string;
-  duration: string;
-  description: string;
-  icon?: string;
-  color?: string;
-}
-
-// Extended education data with visual properties
-const educationData: EducationItem[] = EDUCATION.map((item, index) => ({
-  ...item,
-  icon: ['🎓', '📚', '📖'][index] || '🎓',
-  color: [
-    'from-blue-500 to-cyan-500',
-    'from-purple-500 to-pink-500',
-    'from-green-500 to-teal-500',
-  ][index] || 'from-blue-500 to-cyan-500',
-}));
-
 export const Education = () => {
   const sectionRef = useRef<HTMLElement>(null);
   const timelineRef = useRef<HTMLDivElement>(null);
@@ -159,7 +138,7 @@ export const Education = () => {
 
           {/* Education Cards */}
           <div className="space-y-12 md:space-y-16">
-            {educationData.map((item, index) => (
+            {EDUCATION.map((item, index) => (
               <div
                 key={item.id}
                 ref={(el) => (cardsRef.current[index] = el)}
@@ -1,4 +1,4 @@
-import { useRef, useEffect, useState } from 'react';
+import { useRef, useEffect, useMemo } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { PerspectiveCamera, OrbitControls, Environment } from '@react-three/drei';
 import { useHeroAnimations } from '@/components/animations/HeroAnimations';
@@ -7,7 +7,9 @@ import { Button } from '@/components/ui/Button';
 import { LaptopModel } from '@/components/3d/LaptopModel';
 import { ParticleField } from '@/components/3d/ParticleField';
 import { canHandleHeavyAnimations } from '@/utils/performance';
-import { PERSONAL_INFO } from '@/utils/constants';
+import { useHydrated } from '@/hooks/useHydrated';
+import { CanvasPlaceholder } from '@/components/3d/CanvasPlaceholder';
+import { PERSONAL_INFO, SOCIALS } from '@/utils/constants';
 import gsap from 'gsap';
 import { ScrollTrigger } from 'gsap/ScrollTrigger';
 
@@ -21,8 +23,12 @@ export const Hero = () => {
   const buttonRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLDivElement>(null);
 
-  // State for performance detection
-  const [enableHeavyAnimations] = useState(() => canHandleHeavyAnimations());
+  // Performance detection runs only in the browser, after hydration
+  const hydrated = useHydrated();
+  const enableHeavyAnimations = useMemo(
+    () => hydrated && canHandleHeavyAnimations(),
+    [hydrated]
+  );
 
   // Hero entrance animations hook
   useHeroAnimations({
@@ -106,40 +112,44 @@ export const Hero = () => {
         ref={canvasRef}
         className="absolute inset-0 z-0 pointer-events-none md:pointer-events-auto"
       >
-        <Canvas shadows dpr={[1, 2]}>
-          <PerspectiveCamera makeDefault position={[0, 1, 6]} fov={45} />
+        {hydrated ? (
+          <Canvas shadows dpr={[1, 2]}>
+            <PerspectiveCamera makeDefault position={[0, 1, 6]} fov={45} />
           
-          {/* Lighting */}
-          <ambientLight intensity={0.6} />
-          <spotLight
-            position={[10, 10, 10]}
-            angle={0.3}
-            penumbra={1}
-            intensity={1.2}
-            castShadow
-          />
-          <pointLight position={[-10, -10, -10]} intensity={0.5} color="#64FFDA" />
+            {/* Lighting */}
+            <ambientLight intensity={0.6} />
+            <spotLight
+              position={[10, 10, 10]}
+              angle={0.3}
+              penumbra={1}
+              intensity={1.2}
+              castShadow
+            />
+            <pointLight position={[-10, -10, -10]} intensity={0.5} color="#64FFDA" />
           
-          {/* Model */}
-          <LaptopModel
-            scale={1.2}
-            position={[0, -0.5, 0]} // Lowered slightly to not block text
-            enableAutoRotate={true}
-          />
+            {/* Model */}
+            <LaptopModel
+              scale={1.2}
+              position={[0, -0.5, 0]} // Lowered slightly to not block text
+              enableAutoRotate={true}
+            />
 
-          {/* Environment */}
-          {enableHeavyAnimations && <Environment preset="city" />}
+            {/* Environment */}
+            {enableHeavyAnimations && <Environment preset="city" />}
 
-          {/* Controls (Limited interaction) */}
-          <OrbitControls
-            enableZoom={false}
-            enablePan={false}
-            minPolarAngle={Math.PI / 2.5}
-            maxPolarAngle={Math.PI / 2}
-            enableRotate={true}
-            autoRotate={false}
-          />
-        </Canvas>
+            {/* Controls (Limited interaction) */}
+            <OrbitControls
+              enableZoom={false}
+              enablePan={false}
+              minPolarAngle={Math.PI / 2.5}
+              maxPolarAngle={Math.PI / 2}
+              enableRotate={true}
+              autoRotate={false}
+            />
+          </Canvas>
+        ) : (
+          <CanvasPlaceholder icon="💻" />
+        )}
       </div>
 
       {/* --- LAYER 3: Gradient Overlay --- */}
@@ -155,8 +165,8 @@ export const Hero = () => {
           className="text-3xl sm:text-7xl md:text-8xl lg:text-9xl font-extrabold text-text-primary mb-4 mt-20 
                    tracking-tight leading-tight drop-shadow-2xl"
         >
-          <span className="bg-gradient-to-r from-accent via-accent-light to-accent bg-clip-text text-transparent">
-            LOKESH TRIVEDI
+          <span className="uppercase bg-gradient-to-r from-accent via-accent-light to-accent bg-clip-text text-transparent">
+            {PERSONAL_INFO.name}
           </span>
         </h1>
 
@@ -173,10 +183,7 @@ export const Hero = () => {
           className="text-base sm:text-lg md:text-xl text-text-secondary max-w-2xl mx-auto 
                    mb-10 leading-relaxed px-4 md:px-0 drop-shadow-md"
         >
-          Passionate Computer Science Engineering student with strong skills in frontend
-          development using <span className="text-accent font-semibold">React.js</span> and
-          modern web technologies. Experienced in building secure, responsive, and interactive
-          applications.
+          {PERSONAL_INFO.summary}
         </p>
 
         {/* Action Buttons */}
@@ -207,9 +214,12 @@ export const Hero = () => {
         {/* Social Links Row */}
         <div className="mt-12 flex flex-wrap gap-4 justify-center items-center animate-fade-in-up delay-300">
           {[
-            { href: PERSONAL_INFO.github, icon: "🐙", label: "GitHub" },
-            { href: PERSONAL_INFO.linkedin, icon: "💼", label: "LinkedIn" },
-            { href: `mailto:${PERSONAL_INFO.email}`, icon: "📧", label: "Email" },
+            ...SOCIALS.filter((social) => social.id !== 'phone').map((social) => ({
+              href: social.url,
+              icon: social.icon,
+              label: social.name,
+              download: false,
+            })),
             { href: PERSONAL_INFO.resume, icon: "📄", label: "Resume", download: true }
           ].map((item, idx) => (
             <a
@@ -231,7 +241,7 @@ export const Hero = () => {
 
         {/* Tech Stack Badges (Desktop Only) */}
         <div className="hidden md:flex mt-10 flex-wrap gap-3 justify-center items-center max-w-3xl opacity-70 hover:opacity-100 transition-opacity duration-300">
-          {['React.js', 'TypeScript', 'Three.js', 'Node.js', 'MongoDB', 'Tailwind CSS'].map(
+          {PERSONAL_INFO.techStack.map(
             (tech) => (
               <span
                 key={tech}
@@ -1,108 +1,21 @@
-import { useRef, useState, useEffect } from 'react';
+import { useRef } from 'react';
 import { useScrollAnimation, useBatchScrollAnimation } from '@/hooks/useScrollAnimation';
 import { TextReveal, TypingText } from '@/components/animations/TextReveal';
 import { ProjectCard } from '@/components/ui/ProjectCard';
+import { ProjectFilterBar } from '@/components/ui/ProjectFilterBar';
 import { Button } from '@/components/ui/Button';
+import { useProjectFilters } from '@/hooks/useProjectFilters';
+import { PROJECTS, PERSONAL_INFO } from '@/utils/constants';
 import gsap from 'gsap';
 import { ScrollTrigger } from 'gsap/ScrollTrigger';
 
 gsap.registerPlugin(ScrollTrigger);
 
-// Project data with proper TypeScript interface
-interface Project {
-  id: number;
-  title: string;
-  description: string;
-  technologies: string[];
-  features: string[];
-  github?: string;
-  THM?: string;
-  demo?: string;
-  icon: string;
-  color: string;
-  image?: string;
-}
-
-const projects: Project[] = [
-  {
-    id: 1,
-    title: 'Secure File Sharing Platform',
-    description:
-      'Developed a secure platform for uploading, protecting, and sharing files. Integrated password protection, file expiration logic, and QR-based access with real-time tracking.',
-    technologies: ['React.js', 'Node.js', 'MongoDB', 'AWS S3', 'JWT'],
-    features: [
-      'Encrypted file storage using AWS S3',
-      'Password protection and file expiration',
-      'QR code-based access system',
-      'Email-based sharing with download tracking',
-      'Real-time file metadata management',
-    ],
-    github: 'https://github.com/lokeshgit-stack/File-sharing.git',
-    demo: 'https://file-sharing-service.vercel.app/',
-    icon: '📁',
-    color: 'from-blue-500 to-purple-500',
-  },
-  {
-    id: 2,
-    title: 'Real-Time Chat Application',
-    description:
-      'Built a real-time chat system with JWT-based authentication. Secured chat history using MongoDB with emphasis on secure data transmission and WebSocket connections.',
-    technologies: ['React.js', 'Node.js', 'MongoDB', 'JWT', 'WebSocket'],
-    features: [
-      'Real-time messaging with WebSocket',
-      'JWT-based authentication',
-      'Secure message encryption',
-      'User session control',
-      'Message history persistence',
-    ],
-    github: 'https://github.com/lokeshgit-stack/File-sharing.git',
-    demo: '#',
-    icon: '💬',
-    color: 'from-green-500 to-teal-500',
-  },
-  {
-    id: 3,
-    title: 'Authentication System',
-    description:
-      'Developed a comprehensive login/signup system with client-side validation and server-side authentication using secure password hashing and session management.',
-    technologies: ['PHP', 'MySQL', 'JavaScript', 'HTML/CSS', 'Bcrypt'],
-    features: [
-      'Client-side form validation',
-      'Server-side authentication',
-      'Bcrypt password hashing',
-      'Session management',
-      'SQL injection prevention',
-    ],
-    github: 'https://github.com/lokeshgit-stack/File-sharing.git',
-    demo: '#',
-    icon: '🔐',
-    color: 'from-orange-500 to-red-500',
-  },
-  {
-    id: 4,
-    title: 'Cybersecurity Labs & Ethical Hacking',
-    description:
-      'Completed 25+ cybersecurity labs covering network enumeration, OSINT, and basic web exploitation with hands-on attack vector analysis using industry-standard tools.',
-    technologies: ['Python', 'Kali Linux', 'Metasploit', 'Burp Suite', 'Nmap'],
-    features: [
-      'Network enumeration and scanning',
-      'OSINT investigations',
-      'Web exploitation techniques',
-      'Brute force attack analysis',
-      'Directory traversal and vulnerability assessment',
-    ],
-    THM: 'https://tryhackme.com/p/lokeshtrivedi200',
-    demo: 'https://tryhackme.com/p/lokeshtrivedi200',
-    icon: '🛡️',
-    color: 'from-purple-500 to-pink-500',
-  },
-];
-
 export const Projects = () => {
   const sectionRef = useRef<HTMLElement>(null);
   const headerRef = useRef<HTMLDivElement>(null);
-  const [filter, setFilter] = useState<string>('all');
-  const [filteredProjects, setFilteredProjects] = useState<Project[]>(projects);
+  const { filters, facets, results, isFiltered, setFilters, toggleFacet, resetFilters } =
+    useProjectFilters(PROJECTS);
 
   // Animate section entrance
   useScrollAnimation({
@@ -118,29 +31,6 @@ export const Projects = () => {
     start: 'top bottom-=100',
   });
 
-  // Filter projects by technology
-  useEffect(() => {
-    if (filter === 'all') {
-      setFilteredProjects(projects);
-    } else {
-      setFilteredProjects(
-        projects.filter((project) =>
-          project.technologies.some((tech) =>
-            tech.toLowerCase().includes(filter.toLowerCase())
-          )
-        )
-      );
-    }
-  }, [filter]);
-
-  const filterOptions = [
-    { label: 'All Projects', value: 'all' },
-    { label: 'React.js', value: 'react' },
-    { label: 'Node.js', value: 'node' },
-    { label: 'MongoDB', value: 'mongo' },
-    { label: 'Security', value: 'security' },
-  ];
-
   return (
     <section
       ref={sectionRef}
@@ -170,25 +60,22 @@ export const Projects = () => {
             />
           </div>
 
-          {/* Filter Buttons */}
-          {/* <div className="flex flex-wrap gap-3 justify-center items-center mt-8">
-            {filterOptions.map((option) => (
-              <Button
-                key={option.value}
-                variant={filter === option.value ? 'primary' : 'ghost'}
-                size="sm"
-                onClick={() => setFilter(option.value)}
-                className="min-w-[120px]"
-              >
-                {option.label}
-              </Button>
-            ))}
-          </div> */}
+          {/* Filters, Search & Sort */}
+          <ProjectFilterBar
+            filters={filters}
+            facets={facets}
+            resultCount={results.length}
+            totalCount={PROJECTS.length}
+            isFiltered={isFiltered}
+            onChange={setFilters}
+            onToggle={toggleFacet}
+            onReset={resetFilters}
+          />
         </div>
 
         {/* Projects Grid */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-          {filteredProjects.map((project) => (
+          {results.map((project) => (
             <div key={project.id} className="project-card-wrapper">
               <ProjectCard project={project} />
             </div>
@@ -196,12 +83,12 @@ export const Projects = () => {
         </div>
 
         {/* Empty State */}
-        {filteredProjects.length === 0 && (
+        {results.length === 0 && (
           <div className="text-center py-20">
             <p className="text-2xl text-text-secondary mb-4">
-              No projects found for this filter
+              No projects match these filters
             </p>
-            <Button variant="outline" onClick={() => setFilter('all')}>
+            <Button variant="outline" onClick={resetFilters}>
               Show All Projects
             </Button>
           </div>
@@ -232,7 +119,7 @@ export const Projects = () => {
                 variant="outline"
                 size="lg"
                 icon="🐙"
-                onClick={() => window.open('https://github.com/lokeshgit-stack', '_blank')}
+                onClick={() => window.open(PERSONAL_INFO.github, '_blank')}
               >
                 View GitHub
               </Button>
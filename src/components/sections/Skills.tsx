@@ -7,83 +7,19 @@ import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { SkillCubes } from '@/components/3d/SkillCubes';
 import { canHandleHeavyAnimations } from '@/utils/performance';
-import { SKILLS } from '@/utils/constants';
+import { useHydrated } from '@/hooks/useHydrated';
+import { SKILLS, FEATURED_SKILLS, TOOLS } from '@/utils/constants';
 import gsap from 'gsap';
 import { ScrollTrigger } from 'gsap/ScrollTrigger';
 
 gsap.registerPlugin(ScrollTrigger);
 
-// Skill category interface
-interface Skill {
-  name: string;
-  level: number;
-}
-
-interface SkillCategory {
-  title: string;
-  skills: Skill[];
-  icon: string;
-  color: string;
-}
-
-const skillCategories: SkillCategory[] = [
-  {
-    title: 'Frontend',
-    skills: [
-      { name: 'HTML5', level: 95 },
-      { name: 'CSS3', level: 90 },
-      { name: 'JavaScript (ES6+)', level: 92 },
-      { name: 'React.js', level: 93 },
-      { name: 'React Router', level: 90 },
-      { name: 'TypeScript', level: 88 },
-      { name: 'Tailwind CSS', level: 90 },
-      { name: 'Responsive Design', level: 95 },
-    ],
-    icon: '🎨',
-    color: 'from-blue-500 to-cyan-500',
-  },
-  {
-    title: 'Backend & APIs',
-    skills: [
-      { name: 'Node.js', level: 85 },
-      { name: 'Express.js', level: 87 },
-      { name: 'RESTful APIs', level: 90 },
-      { name: 'JWT Authentication', level: 88 },
-      { name: 'API Security', level: 85 },
-    ],
-    icon: '⚙️',
-    color: 'from-green-500 to-emerald-500',
-  },
-  {
-    title: 'Database',
-    skills: [
-      { name: 'MongoDB', level: 88 },
-      { name: 'Mongoose ODM', level: 85 },
-      { name: 'Data Modeling', level: 87 },
-      { name: 'SQL Basics', level: 80 },
-    ],
-    icon: '💾',
-    color: 'from-purple-500 to-pink-500',
-  },
-  {
-    title: 'Cloud & Tools',
-    skills: [
-      { name: 'AWS S3', level: 82 },
-      { name: 'Netlify/Vercel', level: 90 },
-      { name: 'Render', level: 85 },
-      { name: 'Git/GitHub', level: 87 },
-      { name: 'VS Code', level: 90 },
-    ],
-    icon: '☁️',
-    color: 'from-orange-500 to-red-500',
-  },
-];
-
 export const Skills = () => {
   const sectionRef = useRef<HTMLElement>(null);
   const cubesRef = useRef<HTMLDivElement>(null);
   const [view, setView] = useState<'grid' | '3d'>('grid');
-  const enableHeavy = canHandleHeavyAnimations();
+  const hydrated = useHydrated();
+  const enableHeavy = hydrated && canHandleHeavyAnimations();
 
   // Animate section entrance
   useScrollAnimation({
@@ -161,7 +97,7 @@ export const Skills = () => {
               <spotLight position={[10, 10, 10]} angle={0.3} penumbra={1} castShadow />
               <pointLight position={[-10, -10, -10]} intensity={0.5} color="#64FFDA" />
 
-              <SkillCubes layout="grid" spacing={1.8} />
+              <SkillCubes skills={FEATURED_SKILLS} layout="grid" spacing={1.8} />
 
               <OrbitControls
                 enableZoom={true}
@@ -176,7 +112,7 @@ export const Skills = () => {
         {/* Grid Skills View */}
         {view === 'grid' && (
           <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-            {skillCategories.map((category, index) => (
+            {SKILLS.map((category) => (
               <div key={category.title} className="skill-card">
                 <Card
                   variant="elevated"
@@ -239,23 +175,7 @@ export const Skills = () => {
           </h3>
 
           <div className="flex flex-wrap gap-3 justify-center max-w-4xl mx-auto">
-            {[
-              'Git',
-              'GitHub',
-              'VS Code',
-              'Postman',
-              'npm',
-              'Webpack',
-              'Vite',
-              'Jest',
-              'ESLint',
-              'Prettier',
-              'Figma',
-              'Three.js',
-              'GSAP',
-              'WebSocket',
-              'REST APIs',
-            ].map((tool) => (
+            {TOOLS.map((tool) => (
               <span
                 key={tool}
                 className="px-4 py-2 bg-primary border border-accent/30 rounded-full 
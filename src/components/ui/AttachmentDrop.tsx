@@ -0,0 +1,136 @@
+import { useRef, useState, type DragEvent } from 'react';
+import { ATTACHMENT_ACCEPT, ATTACHMENT_LIMITS, formatFileSize } from '@/utils/attachments';
+
+interface AttachmentDropProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  error?: string | null;
+  // Share of the upload done, from 0 to 1, while sending
+  progress?: number | null;
+  disabled?: boolean;
+}
+
+/**
+ * Optional files for the contact form: dropped onto the zone or picked with
+ * the file dialog, listed with a remove button each.
+ */
+export const AttachmentDrop = ({
+  files,
+  onChange,
+  error,
+  progress = null,
+  disabled = false,
+}: AttachmentDropProps) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const add = (added: FileList | null) => {
+    if (added && added.length > 0) onChange([...files, ...Array.from(added)]);
+  };
+
+  const borderColor = error
+    ? 'border-red-500'
+    : isDragging
+      ? 'border-accent bg-accent/5'
+      : 'border-accent/20';
+
+  const onDrop = (event: DragEvent) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (!disabled) add(event.dataTransfer.files);
+  };
+
+  return (
+    <div>
+      <label htmlFor="attachments" className="block text-text-primary font-semibold mb-2">
+        Attachments <span className="text-text-secondary font-normal">(optional)</span>
+      </label>
+      <div
+        onDragOver={(event) => {
+          event.preventDefault();
+          setIsDragging(!disabled);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={onDrop}
+        className={`px-4 py-6 bg-primary-dark border-2 border-dashed rounded-lg text-center
+                   text-sm text-text-secondary transition-colors
+                   ${borderColor}`}
+      >
+        <p>
+          Drop files here or{' '}
+          <button
+            type="button"
+            onClick={() => inputRef.current?.click()}
+            disabled={disabled}
+            className="text-accent underline hover:text-accent-hover disabled:opacity-50"
+          >
+            choose files
+          </button>
+        </p>
+        <p className="mt-1 text-xs">
+          PDF, Word, text or images · up to {ATTACHMENT_LIMITS.maxFiles} files of{' '}
+          {formatFileSize(ATTACHMENT_LIMITS.maxFileSize)} each
+        </p>
+        <input
+          ref={inputRef}
+          id="attachments"
+          type="file"
+          multiple
+          accept={ATTACHMENT_ACCEPT}
+          disabled={disabled}
+          onChange={(event) => {
+            add(event.target.files);
+            // Lets the same file be picked again after removing it
+            event.target.value = '';
+          }}
+          className="sr-only"
+        />
+      </div>
+
+      {files.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {files.map((file, index) => (
+            <li
+              key={`${file.name}-${index}`}
+              className="flex items-center justify-between gap-2 text-sm text-text-primary"
+            >
+              <span className="truncate">
+                📎 {file.name}{' '}
+                <span className="text-text-secondary">({formatFileSize(file.size)})</span>
+              </span>
+              <button
+                type="button"
+                onClick={() => onChange(files.filter((_file, other) => other !== index))}
+                disabled={disabled}
+                aria-label={`Remove ${file.name}`}
+                className="text-text-secondary hover:text-red-400 disabled:opacity-50"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {progress !== null && (
+        <div
+          role="progressbar"
+          aria-label="Upload progress"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.round(progress * 100)}
+          className="mt-3 h-2 bg-primary-dark rounded-full overflow-hidden"
+        >
+          <div
+            className="h-full bg-accent transition-[width] duration-200"
+            style={{ width: `${Math.round(progress * 100)}%` }}
+          />
+        </div>
+      )}
+
+      {error && <p className="mt-1 text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default AttachmentDrop;
@@ -0,0 +1,332 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { Button } from './Button';
+import { Card } from './Card';
+import { BookingApiError, fetchAvailability, requestBooking } from '@/utils/bookingApi';
+import { TOPIC_MAX_LENGTH, dayKey, formatSlot } from '@/utils/booking';
+import { formRules } from '@/utils/validation';
+import { useSpamProtection } from '@/hooks/useSpamProtection';
+import type { BookingAvailability, BookingRequest } from '@/types/booking';
+
+type BookingForm = Pick<BookingRequest, 'name' | 'email' | 'topic'>;
+
+const BOOKING_FAILED = 'Failed to book the call. Please try again or send me a message.';
+
+const inputClass = (invalid: boolean) =>
+  `w-full px-4 py-3 bg-primary-dark border-2 rounded-lg
+   text-text-primary placeholder-text-secondary/50
+   focus:outline-none focus:border-accent transition-colors
+   ${invalid ? 'border-red-500' : 'border-accent/20'}`;
+
+/**
+ * Open slots for a call, grouped by day and shown in the visitor's own time
+ * zone, with a short form to book the one picked. Renders nothing when
+ * booking is turned off on the server.
+ */
+export const AvailabilityCalendar = ({ className = '' }: { className?: string }) => {
+  const [availability, setAvailability] = useState<BookingAvailability | null>(null);
+  const [loadState, setLoadState] = useState<'loading' | 'ready' | 'off' | 'error'>('loading');
+  const [day, setDay] = useState<string | null>(null);
+  const [slot, setSlot] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [booked, setBooked] = useState<{ startsAt: string; endsAt: string } | null>(null);
+
+  const timeZone = useMemo(() => Intl.DateTimeFormat().resolvedOptions().timeZone, []);
+  const protection = useSpamProtection();
+  const honeypotRef = useRef<HTMLInputElement>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    setError,
+  } = useForm<BookingForm>({ defaultValues: { name: '', email: '', topic: '' } });
+
+  const load = useCallback(async () => {
+    try {
+      const result = await fetchAvailability();
+      setAvailability(result);
+      setLoadState(result ? 'ready' : 'off');
+    } catch (error) {
+      console.error('Availability error:', error);
+      setLoadState('error');
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Slot start times by the visitor's local day, in order
+  const days = useMemo(() => {
+    const grouped = new Map<string, string[]>();
+    for (const start of availability?.slots ?? []) {
+      const key = dayKey(start, timeZone);
+      grouped.set(key, [...(grouped.get(key) ?? []), start]);
+    }
+    return grouped;
+  }, [availability, timeZone]);
+
+  // The first day with slots, until the visitor picks another
+  const selectedDay = day !== null && days.has(day) ? day : (days.keys().next().value ?? null);
+  const daySlots = selectedDay ? (days.get(selectedDay) ?? []) : [];
+  const slotMs = (availability?.slotMinutes ?? 0) * 60 * 1000;
+  const slotEnd = (start: string) => new Date(Date.parse(start) + slotMs).toISOString();
+
+  const dayLabel = (start: string) =>
+    new Intl.DateTimeFormat(undefined, { weekday: 'short', day: 'numeric', month: 'short' })
+      .format(new Date(start));
+  const timeLabel = (start: string) =>
+    new Intl.DateTimeFormat(undefined, { timeStyle: 'short' }).format(new Date(start));
+
+  const onSubmitForm = async (data: BookingForm) => {
+    if (!slot) return;
+    setIsSubmitting(true);
+    setErrorMessage(null);
+
+    try {
+      const { token, proof } = await protection.prepare();
+      const { booking } = await requestBooking(
+        { ...data, start: slot, timezone: timeZone },
+        { website: honeypotRef.current?.value ?? '', token, proof }
+      );
+      setBooked(booking);
+      setSlot(null);
+      reset();
+      protection.renew();
+      load();
+    } catch (error) {
+      console.error('Booking error:', error);
+
+      if (error instanceof BookingApiError) {
+        const { start, ...fieldErrors } = error.fieldErrors;
+        Object.entries(fieldErrors).forEach(([field, message]) => {
+          setError(field as keyof BookingForm, { type: 'server', message });
+        });
+        setErrorMessage(start ?? error.message);
+        // Someone else got the slot first; show what is still open
+        if (error.status === 409) {
+          setSlot(null);
+          load();
+        }
+      } else {
+        setErrorMessage(BOOKING_FAILED);
+      }
+      // A slot taken at the last moment may have used the token up
+      if (!(error instanceof BookingApiError) || error.status === 409 || error.status >= 500) {
+        protection.renew();
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (loadState === 'off') return null;
+
+  return (
+    <Card variant="elevated" className={className}>
+      <h3 className="text-2xl font-bold text-text-primary mb-2 flex items-center gap-2">
+        <span>📅</span>
+        Book a Call
+      </h3>
+      <p className="text-text-secondary mb-6">
+        Prefer to talk? Pick a time that suits you and I'll send a calendar invitation.
+      </p>
+
+      {booked && (
+        <div
+          role="status"
+          className="mb-6 p-4 bg-green-500/10 border border-green-500/30 rounded-lg"
+        >
+          <p className="text-green-400 text-center font-semibold">
+            ✓ Booked for {formatSlot(booked.startsAt, booked.endsAt, timeZone)}. The invitation
+            is on its way to your inbox.
+          </p>
+        </div>
+      )}
+
+      {loadState === 'loading' && <p className="text-text-secondary">Loading open times…</p>}
+
+      {loadState === 'error' && (
+        <p className="text-text-secondary">
+          Open times couldn't be loaded.{' '}
+          <button type="button" onClick={load} className="text-accent underline">
+            Try again
+          </button>
+        </p>
+      )}
+
+      {loadState === 'ready' && days.size === 0 && (
+        <p className="text-text-secondary">
+          No times are open right now. Send me a message instead and we'll find one.
+        </p>
+      )}
+
+      {loadState === 'ready' && days.size > 0 && (
+        <div className="space-y-6">
+          {/* Days */}
+          <div className="flex gap-2 overflow-x-auto pb-2" role="group" aria-label="Day">
+            {[...days].map(([key, starts]) => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => {
+                  setDay(key);
+                  setSlot(null);
+                }}
+                aria-pressed={selectedDay === key}
+                className={`shrink-0 px-4 py-2 rounded-lg text-sm border-2 transition-colors ${
+                  selectedDay === key
+                    ? 'border-accent bg-accent/10 text-accent'
+                    : 'border-accent/20 text-text-secondary hover:border-accent/50'
+                }`}
+              >
+                {dayLabel(starts[0] ?? key)}
+              </button>
+            ))}
+          </div>
+
+          {/* Times on the selected day */}
+          <div>
+            <div
+              role="group"
+              aria-label="Time"
+              className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-2"
+            >
+              {daySlots.map((start) => (
+                <button
+                  key={start}
+                  type="button"
+                  onClick={() => {
+                    setSlot(start);
+                    setErrorMessage(null);
+                  }}
+                  aria-pressed={slot === start}
+                  className={`px-3 py-2 rounded-lg text-sm font-mono border-2 transition-colors ${
+                    slot === start
+                      ? 'border-accent bg-accent text-primary'
+                      : 'border-accent/20 text-text-primary hover:border-accent'
+                  }`}
+                >
+                  {timeLabel(start)}
+                </button>
+              ))}
+            </div>
+            <p className="mt-2 text-xs text-text-secondary">
+              Times shown in {timeZone} · {availability?.slotMinutes} minutes each
+            </p>
+          </div>
+
+          {slot && (
+            <form
+              onSubmit={handleSubmit(onSubmitForm)}
+              onFocus={protection.start}
+              className="space-y-4"
+            >
+              {/* Honeypot: hidden from people and screen readers, but bots fill it in */}
+              <div
+                aria-hidden="true"
+                className="absolute -left-[10000px] w-px h-px overflow-hidden"
+              >
+                <label htmlFor="booking-website">Website</label>
+                <input
+                  ref={honeypotRef}
+                  type="text"
+                  id="booking-website"
+                  name="website"
+                  tabIndex={-1}
+                  autoComplete="off"
+                />
+              </div>
+              <p className="text-text-primary font-semibold">
+                {formatSlot(slot, slotEnd(slot), timeZone)}
+              </p>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div>
+                  <label
+                    htmlFor="booking-name"
+                    className="block text-text-primary font-semibold mb-2"
+                  >
+                    Name <span className="text-accent">*</span>
+                  </label>
+                  <input
+                    {...register('name', formRules('name'))}
+                    type="text"
+                    id="booking-name"
+                    placeholder="Your name"
+                    className={inputClass(Boolean(errors.name))}
+                  />
+                  {errors.name && (
+                    <p className="mt-1 text-sm text-red-400">{errors.name.message}</p>
+                  )}
+                </div>
+                <div>
+                  <label
+                    htmlFor="booking-email"
+                    className="block text-text-primary font-semibold mb-2"
+                  >
+                    Email <span className="text-accent">*</span>
+                  </label>
+                  <input
+                    {...register('email', formRules('email'))}
+                    type="email"
+                    id="booking-email"
+                    placeholder="your.email@example.com"
+                    className={inputClass(Boolean(errors.email))}
+                  />
+                  {errors.email && (
+                    <p className="mt-1 text-sm text-red-400">{errors.email.message}</p>
+                  )}
+                </div>
+              </div>
+              <div>
+                <label
+                  htmlFor="booking-topic"
+                  className="block text-text-primary font-semibold mb-2"
+                >
+                  What would you like to talk about?{' '}
+                  <span className="text-text-secondary font-normal">(optional)</span>
+                </label>
+                <textarea
+                  {...register('topic', {
+                    maxLength: {
+                      value: TOPIC_MAX_LENGTH,
+                      message: `Topic must be at most ${TOPIC_MAX_LENGTH} characters`,
+                    },
+                  })}
+                  id="booking-topic"
+                  rows={3}
+                  className={`${inputClass(Boolean(errors.topic))} resize-none`}
+                />
+                {errors.topic && (
+                  <p className="mt-1 text-sm text-red-400">{errors.topic.message}</p>
+                )}
+              </div>
+              <Button
+                type="submit"
+                variant="primary"
+                size="lg"
+                fullWidth
+                isLoading={isSubmitting}
+                icon={isSubmitting ? undefined : '📅'}
+                iconPosition="right"
+              >
+                {isSubmitting ? 'Booking...' : 'Book this time'}
+              </Button>
+            </form>
+          )}
+        </div>
+      )}
+
+      {errorMessage && (
+        <div role="alert" className="mt-4 p-4 bg-red-500/10 border border-red-500/30 rounded-lg">
+          <p className="text-red-400 text-center font-semibold">✗ {errorMessage}</p>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default AvailabilityCalendar;
@@ -1,31 +1,126 @@
-import { useState, FormEvent } from 'react';
+import { useEffect, useRef, useState, FormEvent } from 'react';
 import { useForm } from 'react-hook-form';
 import { Button } from './Button';
 import { Card } from './Card';
+import { AttachmentDrop } from './AttachmentDrop';
+import { useCountdown } from '@/hooks/useCountdown';
+import { useSpamProtection } from '@/hooks/useSpamProtection';
+import { ContactApiError, submitContact } from '@/utils/contactApi';
+import {
+  INQUIRY_TYPES,
+  VALIDATION,
+  fieldOptions,
+  formRules,
+  isInquiryType,
+} from '@/utils/validation';
+import { attachmentError } from '@/utils/attachments';
+import type { ContactField, ContactFormData, InquiryField } from '@/types/contact';
 
-interface FormData {
-  name: string;
-  email: string;
-  message: string;
-}
+// Unsent form contents, kept across failed sends and reloads
+const DRAFT_KEY = 'contact-draft';
+
+const EMPTY_FORM: ContactFormData = {
+  name: '',
+  email: '',
+  inquiryType: 'general',
+  company: '',
+  role: '',
+  budget: '',
+  timeline: '',
+  location: '',
+  message: '',
+};
+
+const DETAIL_PLACEHOLDERS: Partial<Record<InquiryField, string>> = {
+  company: 'Company name',
+  role: 'e.g. Senior Frontend Engineer',
+  location: 'City, or remote',
+};
+
+const loadDraft = (): Partial<ContactFormData> | null => {
+  try {
+    return JSON.parse(localStorage.getItem(DRAFT_KEY) ?? 'null');
+  } catch {
+    return null;
+  }
+};
+
+const saveDraft = (values: Partial<ContactFormData>) => {
+  // The inquiry type always has a value; only typed text makes a draft
+  if (Object.entries(values).some(([field, value]) => field !== 'inquiryType' && value?.trim())) {
+    localStorage.setItem(DRAFT_KEY, JSON.stringify(values));
+  } else {
+    localStorage.removeItem(DRAFT_KEY);
+  }
+};
+
+const SEND_FAILED = 'Failed to send message. Please try again or contact me directly.';
+
+// 75 → "1:15"
+const formatWait = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
 
 interface ContactFormProps {
-  onSubmit?: (data: FormData) => Promise<void>;
+  onSubmit?: (data: ContactFormData) => Promise<void>;
   className?: string;
 }
 
 export const ContactForm = ({ onSubmit, className = '' }: ContactFormProps) => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitStatus, setSubmitStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [errorMessage, setErrorMessage] = useState(SEND_FAILED);
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  // Attachments can't be kept in the draft; they stay until sent or removed
+  const [files, setFiles] = useState<File[]>([]);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const retryIn = useCountdown(retryAt);
+  const protection = useSpamProtection();
+  const honeypotRef = useRef<HTMLInputElement>(null);
 
   const {
     register,
     handleSubmit,
     formState: { errors },
     reset,
-  } = useForm<FormData>();
+    setError,
+    watch,
+  } = useForm<ContactFormData>({ defaultValues: EMPTY_FORM });
 
-  const onSubmitForm = async (data: FormData) => {
+  const selectedType = watch('inquiryType');
+  const inquiryType = isInquiryType(selectedType) ? selectedType : 'general';
+  // The details the selected inquiry type asks for
+  const detailFields = Object.entries(INQUIRY_TYPES[inquiryType].fields) as [
+    InquiryField,
+    'required' | 'optional',
+  ][];
+
+  // Restore an unsent draft, then save every change to it
+  useEffect(() => {
+    const draft = loadDraft();
+    // Keeps EMPTY_FORM as what `reset()` goes back to after sending
+    if (draft) reset({ ...EMPTY_FORM, ...draft }, { keepDefaultValues: true });
+
+    const subscription = watch((values) => saveDraft(values));
+    return () => subscription.unsubscribe();
+  }, [reset, watch]);
+
+  // The rate limit has passed; the form can be sent again
+  useEffect(() => {
+    if (retryAt !== null && retryIn === 0) {
+      setRetryAt(null);
+      setSubmitStatus('idle');
+    }
+  }, [retryAt, retryIn]);
+
+  // Only lists that can be sent are kept; otherwise the files stay as they were
+  const changeFiles = (next: File[]) => {
+    const problem = attachmentError(next);
+    setFileError(problem);
+    if (!problem) setFiles(next);
+  };
+
+  const onSubmitForm = async (data: ContactFormData) => {
     setIsSubmitting(true);
     setSubmitStatus('idle');
 
@@ -33,39 +128,70 @@ export const ContactForm = ({ onSubmit, className = '' }: ContactFormProps) => {
       if (onSubmit) {
         await onSubmit(data);
       } else {
-        // Default: Send to backend API
-        const response = await fetch('/api/email/contact', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(data),
-        });
-
-        if (!response.ok) {
-          throw new Error('Failed to send message');
-        }
+        const { token, proof } = await protection.prepare();
+        const { rateLimit } = await submitContact(
+          data,
+          { website: honeypotRef.current?.value ?? '', token, proof },
+          { files, onProgress: setUploadProgress }
+        );
+        // That was the last message allowed for now; count down rather than fail on the next
+        if (rateLimit?.remaining === 0) setRetryAt(Date.now() + rateLimit.reset * 1000);
       }
 
       setSubmitStatus('success');
       reset();
+      setFiles([]);
+      localStorage.removeItem(DRAFT_KEY);
+      protection.renew();
 
       // Clear success message after 5 seconds
       setTimeout(() => setSubmitStatus('idle'), 5000);
     } catch (error) {
       console.error('Form submission error:', error);
-      setSubmitStatus('error');
 
-      // Clear error message after 5 seconds
-      setTimeout(() => setSubmitStatus('idle'), 5000);
+      // Show the server's validation messages under the fields they belong to
+      if (error instanceof ContactApiError) {
+        const { attachments, ...fieldErrors } = error.fieldErrors;
+        Object.entries(fieldErrors).forEach(([field, message]) => {
+          setError(field as ContactField, { type: 'server', message });
+        });
+        if (attachments) setFileError(attachments);
+        if (error.retryAfter) setRetryAt(Date.now() + error.retryAfter * 1000);
+        setErrorMessage(error.message);
+      } else {
+        setErrorMessage(SEND_FAILED);
+      }
+      // Only invalid and rate-limited submissions leave the form token unused
+      if (!(error instanceof ContactApiError) || error.status >= 500) protection.renew();
+
+      // The draft stays in the fields (and in storage) so nothing has to be retyped
+      setSubmitStatus('error');
     } finally {
       setIsSubmitting(false);
+      setUploadProgress(null);
     }
   };
 
   return (
     <Card variant="elevated" className={className}>
-      <form onSubmit={handleSubmit(onSubmitForm)} className="space-y-6">
+      <form
+        onSubmit={handleSubmit(onSubmitForm)}
+        onFocus={protection.start}
+        className="space-y-6"
+      >
+        {/* Honeypot: hidden from people and screen readers, but bots fill it in */}
+        <div aria-hidden="true" className="absolute -left-[10000px] w-px h-px overflow-hidden">
+          <label htmlFor="website">Website</label>
+          <input
+            ref={honeypotRef}
+            type="text"
+            id="website"
+            name="website"
+            tabIndex={-1}
+            autoComplete="off"
+          />
+        </div>
+
         {/* Name Field */}
         <div>
           <label
@@ -75,17 +201,7 @@ export const ContactForm = ({ onSubmit, className = '' }: ContactFormProps) => {
             Name <span className="text-accent">*</span>
           </label>
           <input
-            {...register('name', {
-              required: 'Name is required',
-              minLength: {
-                value: 2,
-                message: 'Name must be at least 2 characters',
-              },
-              maxLength: {
-                value: 100,
-                message: 'Name must be less than 100 characters',
-              },
-            })}
+            {...register('name', formRules('name'))}
             type="text"
             id="name"
             placeholder="Your name"
@@ -108,13 +224,7 @@ export const ContactForm = ({ onSubmit, className = '' }: ContactFormProps) => {
             Email <span className="text-accent">*</span>
           </label>
           <input
-            {...register('email', {
-              required: 'Email is required',
-              pattern: {
-                value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
-                message: 'Invalid email address',
-              },
-            })}
+            {...register('email', formRules('email'))}
             type="email"
             id="email"
             placeholder="your.email@example.com"
@@ -128,6 +238,89 @@ export const ContactForm = ({ onSubmit, className = '' }: ContactFormProps) => {
           )}
         </div>
 
+        {/* Inquiry Type */}
+        <fieldset>
+          <legend className="block text-text-primary font-semibold mb-2">
+            What is this about?
+          </legend>
+          <div className="flex flex-wrap gap-2">
+            {Object.entries(INQUIRY_TYPES).map(([type, { label }]) => (
+              <label
+                key={type}
+                className={`px-4 py-2 rounded-full text-sm border-2 cursor-pointer
+                         transition-colors focus-within:ring-2 focus-within:ring-accent/50
+                         ${
+                           inquiryType === type
+                             ? 'border-accent bg-accent/10 text-accent'
+                             : 'border-accent/20 text-text-secondary hover:border-accent/50'
+                         }`}
+              >
+                <input
+                  {...register('inquiryType', formRules('inquiryType'))}
+                  type="radio"
+                  value={type}
+                  className="sr-only"
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        {/* Inquiry Details, depending on the type */}
+        {detailFields.length > 0 && (
+          <div className="grid gap-6 sm:grid-cols-2">
+            {detailFields.map(([field, use]) => {
+              const options = fieldOptions(field);
+              const className = `w-full px-4 py-3 bg-primary-dark border-2 rounded-lg
+                       text-text-primary placeholder-text-secondary/50
+                       focus:outline-none focus:border-accent transition-colors
+                       ${errors[field] ? 'border-red-500' : 'border-accent/20'}`;
+
+              return (
+                <div key={field}>
+                  <label
+                    htmlFor={field}
+                    className="block text-text-primary font-semibold mb-2"
+                  >
+                    {VALIDATION[field].label}{' '}
+                    {use === 'required' ? (
+                      <span className="text-accent">*</span>
+                    ) : (
+                      <span className="text-text-secondary font-normal">(optional)</span>
+                    )}
+                  </label>
+                  {options ? (
+                    <select
+                      {...register(field, formRules(field, inquiryType))}
+                      id={field}
+                      className={className}
+                    >
+                      <option value="">Select…</option>
+                      {Object.entries(options).map(([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      {...register(field, formRules(field, inquiryType))}
+                      type="text"
+                      id={field}
+                      placeholder={DETAIL_PLACEHOLDERS[field]}
+                      className={className}
+                    />
+                  )}
+                  {errors[field] && (
+                    <p className="mt-1 text-sm text-red-400">{errors[field]?.message}</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
         {/* Message Field */}
         <div>
           <label
@@ -137,17 +330,7 @@ export const ContactForm = ({ onSubmit, className = '' }: ContactFormProps) => {
             Message <span className="text-accent">*</span>
           </label>
           <textarea
-            {...register('message', {
-              required: 'Message is required',
-              minLength: {
-                value: 10,
-                message: 'Message must be at least 10 characters',
-              },
-              maxLength: {
-                value: 5000,
-                message: 'Message must be less than 5000 characters',
-              },
-            })}
+            {...register('message', formRules('message'))}
             id="message"
             rows={6}
             placeholder="Your message..."
@@ -162,6 +345,14 @@ export const ContactForm = ({ onSubmit, className = '' }: ContactFormProps) => {
           )}
         </div>
 
+        <AttachmentDrop
+          files={files}
+          onChange={changeFiles}
+          error={fileError}
+          progress={files.length > 0 ? uploadProgress : null}
+          disabled={isSubmitting}
+        />
+
         {/* Submit Button */}
         <Button
           type="submit"
@@ -169,10 +360,15 @@ export const ContactForm = ({ onSubmit, className = '' }: ContactFormProps) => {
           size="lg"
           fullWidth
           isLoading={isSubmitting}
-          icon={isSubmitting ? undefined : '📧'}
+          disabled={retryIn > 0}
+          icon={isSubmitting || retryIn > 0 ? undefined : '📧'}
           iconPosition="right"
         >
-          {isSubmitting ? 'Sending...' : 'Send Message'}
+          {isSubmitting
+            ? 'Sending...'
+            : retryIn > 0
+              ? `${submitStatus === 'error' ? 'Try' : 'Send'} again in ${formatWait(retryIn)}`
+              : 'Send Message'}
         </Button>
 
         {/* Status Messages */}
@@ -185,10 +381,15 @@ export const ContactForm = ({ onSubmit, className = '' }: ContactFormProps) => {
         )}
 
         {submitStatus === 'error' && (
-          <div className="p-4 bg-red-500/10 border border-red-500/30 rounded-lg">
+          <div role="alert" className="p-4 bg-red-500/10 border border-red-500/30 rounded-lg">
             <p className="text-red-400 text-center font-semibold">
-              ✗ Failed to send message. Please try again or contact me directly.
+              ✗ {errorMessage}
             </p>
+            {retryIn > 0 && (
+              <p className="mt-1 text-sm text-red-300 text-center">
+                You can send it again in {formatWait(retryIn)}. Your message is saved.
+              </p>
+            )}
           </div>
         )}
       </form>
@@ -0,0 +1,61 @@
+import { ReactNode, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+
+interface ModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  children: ReactNode;
+  className?: string;
+}
+
+export const Modal = ({ isOpen, onClose, title, children, className = '' }: ModalProps) => {
+  // Close on Escape and stop the page behind from scrolling
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    const overflow = document.body.style.overflow;
+
+    document.addEventListener('keydown', handleKeyDown);
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.body.style.overflow = overflow;
+    };
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-[100] bg-primary-dark/90 backdrop-blur-sm flex items-start
+               justify-center p-4 md:p-8 overflow-y-auto"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-label={title}
+    >
+      <div
+        className={`relative w-full max-w-3xl my-auto bg-primary-light rounded-2xl border
+                   border-accent/30 shadow-2xl ${className}`}
+        onClick={(event) => event.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 w-10 h-10 rounded-full bg-primary/80 text-text-secondary
+                   hover:text-accent border border-accent/30 transition-colors z-10"
+          aria-label="Close"
+        >
+          ✕
+        </button>
+        {children}
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default Modal;
@@ -0,0 +1,53 @@
+interface PaginationProps {
+  page: number;
+  pageCount: number;
+  onChange: (page: number) => void;
+  className?: string;
+}
+
+export const Pagination = ({ page, pageCount, onChange, className = '' }: PaginationProps) => {
+  if (pageCount <= 1) return null;
+
+  const pages = Array.from({ length: pageCount }, (_, index) => index + 1);
+  const baseStyles =
+    'min-w-[2.5rem] h-10 px-3 rounded-lg border-2 font-mono text-sm transition-all duration-300';
+
+  return (
+    <nav className={`flex items-center justify-center gap-2 ${className}`} aria-label="Pagination">
+      <button
+        onClick={() => onChange(page - 1)}
+        disabled={page === 1}
+        className={`${baseStyles} border-accent/30 text-accent hover:border-accent 
+                 disabled:opacity-40 disabled:cursor-not-allowed`}
+        aria-label="Previous page"
+      >
+        ←
+      </button>
+      {pages.map((number) => (
+        <button
+          key={number}
+          onClick={() => onChange(number)}
+          aria-current={number === page ? 'page' : undefined}
+          className={`${baseStyles} ${
+            number === page
+              ? 'bg-accent text-primary border-accent'
+              : 'border-accent/30 text-text-secondary hover:border-accent hover:text-accent'
+          }`}
+        >
+          {number}
+        </button>
+      ))}
+      <button
+        onClick={() => onChange(page + 1)}
+        disabled={page === pageCount}
+        className={`${baseStyles} border-accent/30 text-accent hover:border-accent 
+                 disabled:opacity-40 disabled:cursor-not-allowed`}
+        aria-label="Next page"
+      >
+        →
+      </button>
+    </nav>
+  );
+};
+
+export default Pagination;
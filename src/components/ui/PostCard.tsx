@@ -0,0 +1,80 @@
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from './Card';
+import { formatPostDate } from '@/utils/blog';
+import type { BlogPost } from '@/types/content';
+
+interface PostCardProps {
+  post: BlogPost;
+  activeTag?: string | null;
+  onTagClick?: (tag: string) => void;
+  className?: string;
+}
+
+export const PostCard = ({ post, activeTag, onTagClick, className = '' }: PostCardProps) => {
+  return (
+    <Card
+      variant="elevated"
+      padding="none"
+      hoverable
+      className={`overflow-hidden group h-full flex flex-col ${className}`}
+    >
+      {/* Cover */}
+      <Link to={`/blog/${post.slug}`} className="block" tabIndex={-1} aria-hidden="true">
+        {post.cover ? (
+          <img
+            src={post.cover}
+            alt=""
+            loading="lazy"
+            className="w-full h-44 object-cover transition-transform duration-500 
+                     group-hover:scale-105"
+          />
+        ) : (
+          <div
+            className="h-44 bg-gradient-to-br from-accent/20 to-primary-dark flex items-center 
+                     justify-center text-6xl"
+          >
+            ✍️
+          </div>
+        )}
+      </Link>
+
+      <div className="p-6 flex flex-col flex-1">
+        <p className="text-xs font-mono text-text-secondary mb-3">
+          <time dateTime={post.date}>{formatPostDate(post.date)}</time>
+          <span className="mx-2 text-accent">•</span>
+          {post.readingTime} min read
+        </p>
+
+        <CardHeader>
+          <CardTitle className="text-xl group-hover:text-accent transition-colors">
+            <Link to={`/blog/${post.slug}`}>{post.title}</Link>
+          </CardTitle>
+        </CardHeader>
+
+        <CardContent className="flex-1">
+          <p className="text-text-secondary line-clamp-3">{post.summary}</p>
+        </CardContent>
+
+        {/* Tags */}
+        <CardFooter className="flex flex-wrap gap-2">
+          {post.tags.map((tag) => (
+            <button
+              key={tag}
+              onClick={() => onTagClick?.(tag)}
+              aria-pressed={activeTag === tag}
+              className={`px-3 py-1 text-xs font-mono rounded-full border transition-colors ${
+                activeTag === tag
+                  ? 'bg-accent text-primary border-accent'
+                  : 'bg-primary text-accent border-accent/30 hover:border-accent'
+              }`}
+            >
+              #{tag}
+            </button>
+          ))}
+        </CardFooter>
+      </div>
+    </Card>
+  );
+};
+
+export default PostCard;
@@ -1,19 +1,10 @@
 import { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Card, CardHeader, CardTitle, CardContent, CardFooter } from './Card';
 import { Button } from './Button';
-
-interface Project {
-  id: number;
-  title: string;
-  description: string;
-  technologies: string[];
-  features: string[];
-  github?: string;
-  demo?: string;
-  icon: string;
-  color: string;
-  image?: string;
-}
+import { Modal } from './Modal';
+import { CaseStudy } from '@/components/mdx/CaseStudy';
+import type { Project } from '@/types/content';
 
 interface ProjectCardProps {
   project: Project;
@@ -23,6 +14,7 @@ interface ProjectCardProps {
 export const ProjectCard = ({ project, className = '' }: ProjectCardProps) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [imageLoaded, setImageLoaded] = useState(false);
+  const [isModalOpen, setIsModalOpen] = useState(false);
 
   return (
     <Card
@@ -127,6 +119,26 @@ export const ProjectCard = ({ project, className = '' }: ProjectCardProps) => {
               </ul>
             </div>
           </div>
+
+          {/* Case Study Links */}
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-2">
+            <button
+              onClick={() => setIsModalOpen(true)}
+              className="text-sm font-semibold text-text-primary hover:text-accent transition-colors"
+            >
+              Quick view
+            </button>
+            <Link
+              to={`/projects/${project.slug}`}
+              className="inline-flex items-center gap-2 text-sm font-semibold text-accent 
+                       hover:text-accent-hover transition-colors group/link"
+            >
+              Read the case study
+              <span className="transform group-hover/link:translate-x-1 transition-transform">
+                →
+              </span>
+            </Link>
+          </div>
         </CardContent>
 
         <CardFooter className="flex gap-4">
@@ -155,6 +167,37 @@ export const ProjectCard = ({ project, className = '' }: ProjectCardProps) => {
           )}
         </CardFooter>
       </div>
+
+      {/* Expanded Case Study */}
+      <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title={project.title}>
+        <div
+          className={`rounded-t-2xl bg-gradient-to-br ${project.color} p-8 relative 
+                     overflow-hidden`}
+        >
+          <div className="absolute inset-0 bg-black/40" />
+          <div className="relative flex items-center gap-4">
+            <span className="text-5xl">{project.icon}</span>
+            <h2 className="text-3xl font-bold text-text-primary">{project.title}</h2>
+          </div>
+        </div>
+        <div className="p-6 md:p-8">
+          <CaseStudy
+            project={project}
+            fallback={
+              <p className="text-text-secondary leading-relaxed">
+                {project.problem ?? project.description}
+              </p>
+            }
+          />
+          <Link
+            to={`/projects/${project.slug}`}
+            className="inline-flex items-center gap-2 mt-8 text-sm font-semibold text-accent 
+                     hover:text-accent-hover transition-colors"
+          >
+            Open the full project page →
+          </Link>
+        </div>
+      </Modal>
     </Card>
   );
 };
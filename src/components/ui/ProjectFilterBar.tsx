@@ -0,0 +1,124 @@
+import { Button } from './Button';
+import {
+  SORT_OPTIONS,
+  type FacetOption,
+  type ProjectFacets,
+  type ProjectFilterState,
+  type ProjectSort,
+} from '@/utils/projectFilters';
+
+interface ProjectFilterBarProps {
+  filters: ProjectFilterState;
+  facets: ProjectFacets;
+  resultCount: number;
+  totalCount: number;
+  isFiltered: boolean;
+  onChange: (update: Partial<ProjectFilterState>) => void;
+  onToggle: (facet: 'categories' | 'technologies', value: string) => void;
+  onReset: () => void;
+}
+
+interface FacetGroupProps {
+  label: string;
+  options: FacetOption[];
+  selected: string[];
+  onToggle: (value: string) => void;
+}
+
+const FacetGroup = ({ label, options, selected, onToggle }: FacetGroupProps) => (
+  <div className="flex flex-wrap gap-2 items-center justify-center">
+    <span className="text-sm font-semibold text-text-primary mr-2">{label}:</span>
+    {options.map((option) => {
+      const isSelected = selected.includes(option.value);
+      return (
+        <button
+          key={option.value}
+          onClick={() => onToggle(option.value)}
+          aria-pressed={isSelected}
+          className={`px-3 py-1 text-xs font-mono rounded-full border transition-all 
+                   duration-300 ${
+                     isSelected
+                       ? 'bg-accent text-primary border-accent'
+                       : 'bg-primary text-accent border-accent/30 hover:border-accent'
+                   }`}
+        >
+          {option.value}
+          <span className={isSelected ? 'ml-1 text-primary/70' : 'ml-1 text-text-secondary'}>
+            {option.count}
+          </span>
+        </button>
+      );
+    })}
+  </div>
+);
+
+export const ProjectFilterBar = ({
+  filters,
+  facets,
+  resultCount,
+  totalCount,
+  isFiltered,
+  onChange,
+  onToggle,
+  onReset,
+}: ProjectFilterBarProps) => {
+  return (
+    <div className="mt-8 space-y-4">
+      {/* Search & Sort */}
+      <div className="flex flex-col sm:flex-row gap-3 justify-center items-stretch max-w-2xl mx-auto">
+        <input
+          type="search"
+          value={filters.query}
+          onChange={(event) => onChange({ query: event.target.value })}
+          placeholder="Search projects, features..."
+          aria-label="Search projects"
+          className="flex-1 px-4 py-2 bg-primary-dark border-2 border-accent/20 rounded-lg 
+                   text-text-primary placeholder-text-secondary/50 
+                   focus:outline-none focus:border-accent transition-colors"
+        />
+        <select
+          value={filters.sort}
+          onChange={(event) => onChange({ sort: event.target.value as ProjectSort })}
+          aria-label="Sort projects"
+          className="px-4 py-2 bg-primary-dark border-2 border-accent/20 rounded-lg 
+                   text-text-primary focus:outline-none focus:border-accent transition-colors"
+        >
+          {SORT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              Sort: {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Facets */}
+      <FacetGroup
+        label="Category"
+        options={facets.categories}
+        selected={filters.categories}
+        onToggle={(value) => onToggle('categories', value)}
+      />
+      <FacetGroup
+        label="Tech"
+        options={facets.technologies}
+        selected={filters.technologies}
+        onToggle={(value) => onToggle('technologies', value)}
+      />
+
+      {/* Result Summary */}
+      <div className="flex gap-4 justify-center items-center text-sm text-text-secondary">
+        <span>
+          Showing <span className="text-accent font-semibold">{resultCount}</span> of{' '}
+          {totalCount} projects
+        </span>
+        {isFiltered && (
+          <Button variant="ghost" size="sm" onClick={onReset}>
+            Clear filters
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectFilterBar;
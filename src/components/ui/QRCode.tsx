@@ -0,0 +1,55 @@
+import { useMemo } from 'react';
+import { create } from 'qrcode';
+import { COLORS } from '@/utils/constants';
+
+interface QRCodeProps {
+  value: string;
+  label: string;
+  className?: string;
+  color?: string;
+  background?: string;
+}
+
+// Blank modules around the code that scanners need to find its edges
+const QUIET_ZONE = 4;
+
+/**
+ * QR code encoded in the browser (or during prerendering) and drawn as a
+ * single SVG path, so no image service sees the data.
+ */
+export const QRCode = ({
+  value,
+  label,
+  className = '',
+  color = COLORS.primary.DEFAULT,
+  background = '#FFFFFF',
+}: QRCodeProps) => {
+  const { size, path } = useMemo(() => {
+    const { modules } = create(value, { errorCorrectionLevel: 'M' });
+    const commands: string[] = [];
+
+    for (let row = 0; row < modules.size; row++) {
+      for (let col = 0; col < modules.size; col++) {
+        if (modules.get(row, col)) {
+          commands.push(`M${col + QUIET_ZONE} ${row + QUIET_ZONE}h1v1h-1z`);
+        }
+      }
+    }
+    return { size: modules.size + QUIET_ZONE * 2, path: commands.join('') };
+  }, [value]);
+
+  return (
+    <svg
+      viewBox={`0 0 ${size} ${size}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label={label}
+      className={className}
+    >
+      <rect width={size} height={size} fill={background} />
+      <path d={path} fill={color} />
+    </svg>
+  );
+};
+
+export default QRCode;
@@ -0,0 +1,61 @@
+import { useState } from 'react';
+import type { Screenshot } from '@/types/content';
+
+interface ScreenshotGalleryProps {
+  screenshots: Screenshot[];
+  className?: string;
+}
+
+export const ScreenshotGallery = ({ screenshots, className = '' }: ScreenshotGalleryProps) => {
+  const [active, setActive] = useState<Screenshot | null>(null);
+
+  return (
+    <>
+      <div className={`grid grid-cols-1 sm:grid-cols-2 gap-6 ${className}`}>
+        {screenshots.map((shot) => (
+          <figure key={shot.src} className="group">
+            <button
+              onClick={() => setActive(shot)}
+              className="block w-full overflow-hidden rounded-xl border-2 border-accent/20 
+                       hover:border-accent transition-colors duration-300"
+              aria-label={`Enlarge screenshot: ${shot.alt}`}
+            >
+              <img
+                src={shot.src}
+                alt={shot.alt}
+                loading="lazy"
+                className="w-full h-56 object-cover transform group-hover:scale-105 
+                         transition-transform duration-500"
+              />
+            </button>
+            {shot.caption && (
+              <figcaption className="mt-2 text-sm text-text-secondary text-center">
+                {shot.caption}
+              </figcaption>
+            )}
+          </figure>
+        ))}
+      </div>
+
+      {/* Lightbox */}
+      {active && (
+        <div
+          className="fixed inset-0 z-[100] bg-primary-dark/95 backdrop-blur-sm flex 
+                   items-center justify-center p-4 cursor-zoom-out"
+          onClick={() => setActive(null)}
+          role="dialog"
+          aria-modal="true"
+          aria-label={active.alt}
+        >
+          <img
+            src={active.src}
+            alt={active.alt}
+            className="max-w-full max-h-full rounded-xl border-2 border-accent/30 shadow-2xl"
+          />
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ScreenshotGallery;
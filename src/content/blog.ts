@@ -0,0 +1,12 @@
+import type { MDXContent } from 'mdx/types';
+
+/**
+ * MDX bodies of the blog posts in `content/blog/`. Their frontmatter is
+ * validated by the content plugin and comes from `virtual:content/posts`.
+ */
+const modules = import.meta.glob<{ default: MDXContent }>('/content/blog/*.{md,mdx}', {
+  eager: true,
+});
+
+export const getPostContent = (slug: string): MDXContent | undefined =>
+  (modules[`/content/blog/${slug}.mdx`] ?? modules[`/content/blog/${slug}.md`])?.default;
@@ -0,0 +1,15 @@
+import type { MDXContent } from 'mdx/types';
+import type { Project } from '@/types/content';
+
+/**
+ * MDX case studies referenced by `caseStudy` in `content/projects.yaml`.
+ * They are compiled to React components at build time and bundled eagerly
+ * so the full write-up is part of the rendered page, not fetched later.
+ */
+const modules = import.meta.glob<{ default: MDXContent }>(
+  ['/content/**/*.{md,mdx}', '!/content/blog/**'],
+  { eager: true }
+);
+
+export const getCaseStudy = (project: Project): MDXContent | undefined =>
+  project.caseStudy ? modules[`/content/${project.caseStudy}`]?.default : undefined;
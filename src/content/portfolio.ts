@@ -0,0 +1,26 @@
+import site from 'virtual:content/site';
+import profile from 'virtual:content/profile';
+import skills from 'virtual:content/skills';
+import projects from 'virtual:content/projects';
+import education from 'virtual:content/education';
+import socials from 'virtual:content/socials';
+import posts from 'virtual:content/posts';
+import type { PortfolioContent } from '@/types/content';
+
+/**
+ * Portfolio content - the single source of truth for every section.
+ * The data lives in the `content/` directory and is validated at build time;
+ * edit those files (not this one) to change what the site displays.
+ */
+export const portfolio: PortfolioContent = {
+  site,
+  person: profile,
+  skills: skills.categories,
+  tools: skills.tools,
+  projects,
+  education,
+  socials,
+  posts,
+};
+
+export default portfolio;
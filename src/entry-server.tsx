@@ -0,0 +1,37 @@
+import React from 'react';
+import { renderToString } from 'react-dom/server';
+import { StaticRouter } from 'react-router-dom/server';
+import App from './App.tsx';
+import { BLOG_POSTS, PROJECTS } from '@/utils/constants';
+import { getPageMeta, renderHeadTags } from '@/utils/seo';
+
+export { getShareImages } from '@/utils/shareImages';
+export { getResume, getResumeFiles } from '@/utils/resume';
+
+/**
+ * Server entry used by the prerender plugin at build time.
+ * Every path returned by `getRoutes` is rendered to static HTML along with
+ * its <head> metadata; the cards from `getShareImages` are rendered to PNG
+ * and `getResumeFiles` lists the resume PDFs to write next to them.
+ */
+
+export const getRoutes = (): string[] => [
+  '/',
+  ...PROJECTS.map((project) => `/projects/${project.slug}`),
+  '/blog',
+  ...BLOG_POSTS.map((post) => `/blog/${post.slug}`),
+  '/resume',
+  // Only the sign-in shell; the inbox itself loads in the browser
+  '/admin',
+];
+
+export const render = (url: string): { html: string; head: string } => ({
+  html: renderToString(
+    <React.StrictMode>
+      <StaticRouter location={url}>
+        <App />
+      </StaticRouter>
+    </React.StrictMode>
+  ),
+  head: renderHeadTags(getPageMeta(url)),
+});
@@ -0,0 +1,56 @@
+import { useCallback, useMemo } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useHydrated } from '@/hooks/useHydrated';
+import {
+  filterPostsByTag,
+  getTagCounts,
+  paginate,
+  parseBlogParams,
+  toBlogParams,
+  type BlogIndexState,
+} from '@/utils/blog';
+import type { BlogPost } from '@/types/content';
+
+/**
+ * Tag filter and pagination state for the blog index, stored in the URL
+ * query string so filtered pages can be linked to and survive a reload.
+ * `/blog` is prerendered unfiltered, so the URL's state only applies once
+ * hydrated.
+ */
+export const useBlogIndex = (posts: BlogPost[]) => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const hydrated = useHydrated();
+
+  const tags = useMemo(() => getTagCounts(posts), [posts]);
+  const { tag: requestedTag, page: requestedPage } = parseBlogParams(
+    hydrated ? searchParams : new URLSearchParams()
+  );
+
+  // Ignore tags no post uses rather than showing an empty page
+  const tag = tags.some((option) => option.value === requestedTag) ? requestedTag : null;
+  const current = useMemo(
+    () => paginate(filterPostsByTag(posts, tag), requestedPage),
+    [posts, tag, requestedPage]
+  );
+
+  const update = useCallback(
+    (state: BlogIndexState) => {
+      const search = toBlogParams(state).toString();
+      navigate({ search: search ? `?${search}` : '' });
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+    },
+    [navigate]
+  );
+
+  const selectTag = useCallback(
+    (value: string | null) => update({ tag: value === tag ? null : value, page: 1 }),
+    [tag, update]
+  );
+
+  const goToPage = useCallback((page: number) => update({ tag, page }), [tag, update]);
+
+  return { tags, tag, ...current, selectTag, goToPage };
+};
+
+export default useBlogIndex;
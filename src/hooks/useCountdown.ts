@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Whole seconds left until `until` (a timestamp in ms), updated every second.
+ * 0 once it has passed, or when there is nothing to count down to.
+ */
+export const useCountdown = (until: number | null) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (until === null) return;
+
+    setNow(Date.now());
+    const timer = window.setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= until) window.clearInterval(timer);
+    }, 1000);
+    return () => window.clearInterval(timer);
+  }, [until]);
+
+  return until === null ? 0 : Math.max(0, Math.ceil((until - now) / 1000));
+};
+
+export default useCountdown;
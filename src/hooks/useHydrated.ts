@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * False while prerendering and during the first client render, true after.
+ * Gate browser-only output (WebGL canvases, device checks) on it so the
+ * client's first render matches the static HTML it hydrates.
+ */
+export const useHydrated = () => {
+  const [hydrated, setHydrated] = useState(false);
+
+  useEffect(() => {
+    setHydrated(true);
+  }, []);
+
+  return hydrated;
+};
+
+export default useHydrated;
@@ -0,0 +1,183 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  AdminApiError,
+  clearAdminToken,
+  fetchMessage,
+  fetchMessages,
+  getAdminToken,
+  replyToMessage,
+  retryDelivery,
+  setAdminToken,
+  updateMessage,
+} from '@/utils/adminApi';
+import type {
+  InboxAttachment,
+  InboxDelivery,
+  InboxMessage,
+  InboxPage,
+  InboxQuery,
+  InboxReply,
+} from '@/types/inbox';
+
+const initialQuery: InboxQuery = {
+  q: '',
+  folder: 'inbox',
+  status: '',
+  inquiryType: '',
+  unread: false,
+  offset: 0,
+};
+
+interface Selection {
+  message: InboxMessage;
+  attachments: InboxAttachment[];
+  replies: InboxReply[];
+  deliveries: InboxDelivery[];
+}
+
+/**
+ * State for the admin inbox: the session's token, the list query and the
+ * open message. A rejected token signs the session out again.
+ */
+export const useInbox = () => {
+  const [token, setToken] = useState<string | null>(null);
+  const [query, setQuery] = useState(initialQuery);
+  const [page, setPage] = useState<InboxPage | null>(null);
+  const [selected, setSelected] = useState<Selection | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // sessionStorage only exists in the browser
+  useEffect(() => {
+    setToken(getAdminToken());
+  }, []);
+
+  const signOut = useCallback(() => {
+    clearAdminToken();
+    setToken(null);
+    setPage(null);
+    setSelected(null);
+  }, []);
+
+  const fail = useCallback(
+    (reason: unknown) => {
+      if (reason instanceof AdminApiError && reason.status === 401) {
+        signOut();
+        setError('That token was not accepted.');
+      } else {
+        setError(reason instanceof Error ? reason.message : 'Something went wrong.');
+      }
+    },
+    [signOut]
+  );
+
+  const reload = useCallback(async () => {
+    if (!token) return;
+    setLoading(true);
+    try {
+      setPage(await fetchMessages(token, query));
+      setError(null);
+    } catch (reason) {
+      fail(reason);
+    } finally {
+      setLoading(false);
+    }
+  }, [token, query, fail]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const signIn = useCallback((value: string) => {
+    setAdminToken(value);
+    setToken(value);
+    setError(null);
+  }, []);
+
+  // Filters start again from the first page
+  const updateQuery = useCallback((changes: Partial<InboxQuery>) => {
+    setQuery((current) => ({ ...current, offset: 0, ...changes }));
+  }, []);
+
+  // Opening a message marks it as read
+  const open = useCallback(
+    async (id: number) => {
+      if (!token) return;
+      try {
+        const detail = await fetchMessage(token, id);
+        setSelected(detail);
+        if (!detail.message.readAt) {
+          const { message } = await updateMessage(token, id, { read: true });
+          setSelected({ ...detail, message });
+          reload();
+        }
+      } catch (reason) {
+        fail(reason);
+      }
+    },
+    [token, reload, fail]
+  );
+
+  const setFlags = useCallback(
+    async (flags: { read?: boolean; archived?: boolean }) => {
+      if (!token || !selected) return;
+      try {
+        const { message } = await updateMessage(token, selected.message.id, flags);
+        setSelected({ ...selected, message });
+        reload();
+      } catch (reason) {
+        fail(reason);
+      }
+    },
+    [token, selected, reload, fail]
+  );
+
+  // Resolves to whether the reply went out, so the draft can be kept on failure
+  const reply = useCallback(
+    async (body: string) => {
+      if (!token || !selected) return false;
+      try {
+        const { message, replies } = await replyToMessage(token, selected.message.id, body);
+        setSelected({ ...selected, message, replies });
+        reload();
+        return true;
+      } catch (reason) {
+        fail(reason);
+        return false;
+      }
+    },
+    [token, selected, reload, fail]
+  );
+
+  const retry = useCallback(
+    async (deliveryId: number) => {
+      if (!token || !selected) return;
+      try {
+        await retryDelivery(token, deliveryId);
+        setSelected(await fetchMessage(token, selected.message.id));
+      } catch (reason) {
+        fail(reason);
+      }
+    },
+    [token, selected, fail]
+  );
+
+  return {
+    token,
+    query,
+    page,
+    selected,
+    loading,
+    error,
+    signIn,
+    signOut,
+    updateQuery,
+    open,
+    close: () => setSelected(null),
+    setFlags,
+    reply,
+    retry,
+  };
+};
+
+export default useInbox;
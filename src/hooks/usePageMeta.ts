@@ -0,0 +1,30 @@
+import { useEffect } from 'react';
+import { useLocation } from 'react-router-dom';
+import { absoluteUrl, getPageMeta, robotsContent } from '@/utils/seo';
+
+const setAttribute = (selector: string, attribute: string, value: string) => {
+  document.head.querySelector(selector)?.setAttribute(attribute, value);
+};
+
+/**
+ * Keeps the document title and the main head tags in step with the route
+ * during client-side navigation. The full set is prerendered per page.
+ */
+export const usePageMeta = () => {
+  const { pathname } = useLocation();
+
+  useEffect(() => {
+    const meta = getPageMeta(pathname);
+    const url = absoluteUrl(meta.path);
+
+    document.title = meta.title;
+    setAttribute('meta[name="description"]', 'content', meta.description);
+    setAttribute('meta[name="robots"]', 'content', robotsContent(meta));
+    setAttribute('link[rel="canonical"]', 'href', url);
+    setAttribute('meta[property="og:url"]', 'content', url);
+    setAttribute('meta[property="og:title"]', 'content', meta.title);
+    setAttribute('meta[property="og:description"]', 'content', meta.description);
+  }, [pathname]);
+};
+
+export default usePageMeta;
@@ -0,0 +1,80 @@
+import { useCallback, useMemo } from 'react';
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { useHydrated } from '@/hooks/useHydrated';
+import {
+  DEFAULT_FILTERS,
+  applyProjectFilters,
+  canonicalizeFilters,
+  getProjectFacets,
+  hasActiveFilters,
+  parseFilterParams,
+  toFilterParams,
+  type ProjectFilterState,
+} from '@/utils/projectFilters';
+import type { Project } from '@/types/content';
+
+type Facet = 'categories' | 'technologies';
+
+/**
+ * Filter, search and sort state for a list of projects, stored in the URL
+ * query string (e.g. `/?category=Security&sort=newest#projects`). Pages are
+ * prerendered without a query string, so the filters in the URL only apply
+ * once hydrated.
+ */
+export const useProjectFilters = (projects: Project[]) => {
+  const [searchParams] = useSearchParams();
+  const { hash } = useLocation();
+  const navigate = useNavigate();
+  const hydrated = useHydrated();
+
+  const facets = useMemo(() => getProjectFacets(projects), [projects]);
+  const filters = useMemo(
+    () =>
+      canonicalizeFilters(
+        parseFilterParams(hydrated ? searchParams : new URLSearchParams()),
+        facets
+      ),
+    [hydrated, searchParams, facets]
+  );
+  const results = useMemo(() => applyProjectFilters(projects, filters), [projects, filters]);
+
+  const setFilters = useCallback(
+    (update: Partial<ProjectFilterState>) => {
+      const params = toFilterParams({ ...filters, ...update }, searchParams);
+      const search = params.toString();
+
+      // Replace rather than push so typing in the search box doesn't flood history
+      navigate({ search: search ? `?${search}` : '', hash }, { replace: true });
+    },
+    [filters, searchParams, hash, navigate]
+  );
+
+  const toggleFacet = useCallback(
+    (facet: Facet, value: string) => {
+      const selected = filters[facet];
+      setFilters({
+        [facet]: selected.includes(value)
+          ? selected.filter((item) => item !== value)
+          : [...selected, value],
+      });
+    },
+    [filters, setFilters]
+  );
+
+  const resetFilters = useCallback(
+    () => setFilters({ ...DEFAULT_FILTERS, sort: filters.sort }),
+    [filters.sort, setFilters]
+  );
+
+  return {
+    filters,
+    facets,
+    results,
+    isFiltered: hasActiveFilters(filters),
+    setFilters,
+    toggleFacet,
+    resetFilters,
+  };
+};
+
+export default useProjectFilters;
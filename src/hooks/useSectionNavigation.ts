@@ -0,0 +1,43 @@
+import { useCallback, useEffect } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+
+/**
+ * Returns a handler that scrolls to a home page section (e.g. `#projects`).
+ * From any other route it navigates back to `/` with the section as the hash.
+ */
+export const useSectionNavigation = () => {
+  const { pathname } = useLocation();
+  const navigate = useNavigate();
+
+  return useCallback(
+    (href: string) => {
+      if (pathname === '/') {
+        document.querySelector(href)?.scrollIntoView({ behavior: 'smooth' });
+      } else {
+        navigate({ pathname: '/', hash: href });
+      }
+    },
+    [pathname, navigate]
+  );
+};
+
+/**
+ * Scrolls to the element named by the URL hash once the page has rendered,
+ * so links like `/#projects` land on the right section.
+ */
+export const useScrollToHash = () => {
+  const { hash } = useLocation();
+
+  useEffect(() => {
+    if (!hash) return;
+
+    // Wait a frame so sections have mounted and laid out
+    const frame = requestAnimationFrame(() => {
+      document.querySelector(hash)?.scrollIntoView({ behavior: 'smooth' });
+    });
+
+    return () => cancelAnimationFrame(frame);
+  }, [hash]);
+};
+
+export default useSectionNavigation;
@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { fetchChallenge } from '@/utils/contactApi';
+import { solveChallenge } from '@/utils/proofOfWork';
+import type { ContactProtection } from '@/types/contact';
+
+type Proof = Pick<ContactProtection, 'token' | 'proof'>;
+
+// Sent when the challenge couldn't be loaded; the server scores it rather than refusing it
+const noProof: Proof = { token: '', proof: '' };
+
+/**
+ * The contact form's challenge token and proof of work. `start` fetches a
+ * challenge and solves it in the background, so call it as soon as someone
+ * begins filling in the form; `prepare` waits for the result; `renew` starts
+ * over for the next submission, since tokens are single use.
+ */
+export const useSpamProtection = () => {
+  const pending = useRef<Promise<Proof> | null>(null);
+  const controller = useRef<AbortController | null>(null);
+
+  const renew = useCallback(() => {
+    controller.current?.abort();
+    const abort = new AbortController();
+    controller.current = abort;
+
+    pending.current = fetchChallenge()
+      .then(async ({ token, difficulty }) => ({
+        token,
+        proof: await solveChallenge(token, difficulty, abort.signal),
+      }))
+      .catch(() => noProof);
+  }, []);
+
+  const start = useCallback(() => {
+    if (!pending.current) renew();
+  }, [renew]);
+
+  const prepare = useCallback(() => {
+    start();
+    return pending.current ?? Promise.resolve(noProof);
+  }, [start]);
+
+  useEffect(() => () => controller.current?.abort(), []);
+
+  return { start, prepare, renew };
+};
+
+export default useSpamProtection;
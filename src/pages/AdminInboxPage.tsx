@@ -0,0 +1,453 @@
+import { Fragment, useState, type FormEvent } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { Pagination } from '@/components/ui/Pagination';
+import { useHydrated } from '@/hooks/useHydrated';
+import { useInbox } from '@/hooks/useInbox';
+import { INBOX_PAGE_SIZE } from '@/utils/adminApi';
+import { formatFileSize } from '@/utils/attachments';
+import { INQUIRY_TYPES, VALIDATION, describeValue } from '@/utils/validation';
+import type {
+  DeliveryStatus,
+  InboxMessage,
+  MessageFolder,
+  MessageStatus,
+} from '@/types/inbox';
+import type { InquiryField, InquiryType } from '@/types/contact';
+
+const folders: { id: MessageFolder; label: string }[] = [
+  { id: 'inbox', label: 'Inbox' },
+  { id: 'archived', label: 'Archived' },
+  { id: 'all', label: 'All' },
+];
+
+const statusStyles: Record<MessageStatus | DeliveryStatus, string> = {
+  received: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/30',
+  pending: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/30',
+  processing: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/30',
+  sent: 'bg-green-500/10 text-green-400 border-green-500/30',
+  failed: 'bg-red-500/10 text-red-400 border-red-500/30',
+  dead: 'bg-red-500/10 text-red-400 border-red-500/30',
+};
+
+const activePill = 'bg-accent text-primary border-accent';
+const idlePill = 'border-accent/30 text-text-secondary hover:text-accent hover:border-accent';
+
+const inputStyles = `px-4 py-2 bg-primary-dark border-2 border-accent/20 rounded-lg
+                   text-text-primary placeholder-text-secondary/50
+                   focus:outline-none focus:border-accent transition-colors`;
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const StatusBadge = ({ status }: { status: MessageStatus | DeliveryStatus }) => (
+  <span className={`px-2 py-0.5 text-xs font-mono rounded-full border ${statusStyles[status]}`}>
+    {status}
+  </span>
+);
+
+interface TokenFormProps {
+  onSubmit: (token: string) => void;
+  error: string | null;
+}
+
+const TokenForm = ({ onSubmit, error }: TokenFormProps) => {
+  const [value, setValue] = useState('');
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (value.trim()) onSubmit(value.trim());
+  };
+
+  return (
+    <Card variant="elevated" className="max-w-md mx-auto">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <label htmlFor="admin-token" className="block text-text-primary font-semibold">
+          Admin token
+        </label>
+        <input
+          id="admin-token"
+          type="password"
+          autoComplete="current-password"
+          value={value}
+          onChange={(event) => setValue(event.target.value)}
+          className={`w-full ${inputStyles}`}
+        />
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        <Button type="submit" variant="primary" fullWidth>
+          Open inbox
+        </Button>
+      </form>
+    </Card>
+  );
+};
+
+const MessageRow = ({
+  message,
+  active,
+  onOpen,
+}: {
+  message: InboxMessage;
+  active: boolean;
+  onOpen: () => void;
+}) => (
+  <li>
+    <button
+      onClick={onOpen}
+      aria-current={active ? 'true' : undefined}
+      className={`w-full text-left p-4 border-b border-accent/10 transition-colors ${
+        active ? 'bg-accent/10' : 'hover:bg-accent/5'
+      }`}
+    >
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <span
+          className={`truncate ${
+            message.readAt ? 'text-text-secondary' : 'font-bold text-text-primary'
+          }`}
+        >
+          {!message.readAt && <span className="text-accent mr-1" aria-label="Unread">●</span>}
+          {message.name}
+        </span>
+        <StatusBadge status={message.status} />
+      </div>
+      <p className="text-sm text-text-secondary truncate">{message.message}</p>
+      <p className="text-xs font-mono text-text-secondary/70 mt-1">
+        {formatDate(message.createdAt)}
+        {message.inquiryType !== 'general' && ` · ${INQUIRY_TYPES[message.inquiryType].label}`}
+        {message.repliedAt && ' · replied'}
+        {message.spamScore > 0 && (
+          <span className="text-red-400"> · spam score {message.spamScore}</span>
+        )}
+      </p>
+    </button>
+  </li>
+);
+
+export const AdminInboxPage = () => {
+  const hydrated = useHydrated();
+  const inbox = useInbox();
+  const [search, setSearch] = useState('');
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const { query, page, selected } = inbox;
+
+  const handleSearch = (event: FormEvent) => {
+    event.preventDefault();
+    inbox.updateQuery({ q: search.trim() });
+  };
+
+  const handleReply = async (event: FormEvent) => {
+    event.preventDefault();
+    setSending(true);
+    if (await inbox.reply(draft.trim())) setDraft('');
+    setSending(false);
+  };
+
+  const pageCount = page ? Math.ceil(page.total / INBOX_PAGE_SIZE) : 0;
+
+  return (
+    <section className="min-h-screen pt-28 pb-20 px-4">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <h1 className="text-4xl font-bold text-text-primary">
+            Inbox
+            {page && page.unread > 0 && (
+              <span
+                className="ml-3 align-middle px-3 py-1 text-sm font-mono rounded-full
+                         bg-accent text-primary"
+              >
+                {page.unread} unread
+              </span>
+            )}
+          </h1>
+          {inbox.token && (
+            <Button variant="outline" size="sm" onClick={inbox.signOut}>
+              Sign out
+            </Button>
+          )}
+        </div>
+
+        {/* The token lives in sessionStorage, so nothing is shown until hydration */}
+        {!hydrated ? null : !inbox.token ? (
+          <TokenForm onSubmit={inbox.signIn} error={inbox.error} />
+        ) : (
+          <>
+            {/* Filters */}
+            <div className="flex flex-wrap items-center gap-3 mb-6">
+              <div className="flex gap-2" role="group" aria-label="Folder">
+                {folders.map((folder) => (
+                  <button
+                    key={folder.id}
+                    onClick={() => inbox.updateQuery({ folder: folder.id })}
+                    aria-pressed={query.folder === folder.id}
+                    className={`px-4 py-2 rounded-full text-sm font-mono border transition-colors ${
+                      query.folder === folder.id ? activePill : idlePill
+                    }`}
+                  >
+                    {folder.label}
+                  </button>
+                ))}
+              </div>
+              <select
+                value={query.status}
+                onChange={(event) =>
+                  inbox.updateQuery({ status: event.target.value as MessageStatus | '' })
+                }
+                aria-label="Delivery status"
+                className={inputStyles}
+              >
+                <option value="">Any status</option>
+                <option value="received">Received</option>
+                <option value="sent">Sent</option>
+                <option value="failed">Failed</option>
+              </select>
+              <select
+                value={query.inquiryType}
+                onChange={(event) =>
+                  inbox.updateQuery({ inquiryType: event.target.value as InquiryType | '' })
+                }
+                aria-label="Inquiry type"
+                className={inputStyles}
+              >
+                <option value="">Any inquiry</option>
+                {Object.entries(INQUIRY_TYPES).map(([type, { label }]) => (
+                  <option key={type} value={type}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <label className="flex items-center gap-2 text-sm text-text-secondary">
+                <input
+                  type="checkbox"
+                  checked={query.unread}
+                  onChange={(event) => inbox.updateQuery({ unread: event.target.checked })}
+                  className="accent-accent"
+                />
+                Unread only
+              </label>
+              <form onSubmit={handleSearch} className="flex gap-2 ml-auto" role="search">
+                <input
+                  type="search"
+                  value={search}
+                  onChange={(event) => setSearch(event.target.value)}
+                  placeholder="Search name, email or message"
+                  aria-label="Search messages"
+                  className={`w-72 ${inputStyles}`}
+                />
+                <Button type="submit" variant="secondary" size="sm">
+                  Search
+                </Button>
+              </form>
+            </div>
+
+            {inbox.error && (
+              <div className="p-4 mb-6 bg-red-500/10 border border-red-500/30 rounded-lg">
+                <p className="text-red-400">{inbox.error}</p>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+              {/* Message list */}
+              <Card padding="none" className="lg:col-span-2 overflow-hidden">
+                {page && page.messages.length > 0 ? (
+                  <ul aria-busy={inbox.loading}>
+                    {page.messages.map((message) => (
+                      <MessageRow
+                        key={message.id}
+                        message={message}
+                        active={selected?.message.id === message.id}
+                        onOpen={() => inbox.open(message.id)}
+                      />
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="p-8 text-center text-text-secondary">
+                    {inbox.loading ? 'Loading…' : 'No messages.'}
+                  </p>
+                )}
+                <Pagination
+                  page={query.offset / INBOX_PAGE_SIZE + 1}
+                  pageCount={pageCount}
+                  onChange={(number) =>
+                    inbox.updateQuery({ offset: (number - 1) * INBOX_PAGE_SIZE })
+                  }
+                  className="p-4"
+                />
+              </Card>
+
+              {/* Open message */}
+              <Card className="lg:col-span-3">
+                {!selected ? (
+                  <p className="py-16 text-center text-text-secondary">
+                    Select a message to read it.
+                  </p>
+                ) : (
+                  <article className="space-y-6">
+                    <header className="flex flex-wrap items-start justify-between gap-4">
+                      <div>
+                        <h2 className="text-2xl font-bold text-text-primary">
+                          {selected.message.name}
+                        </h2>
+                        <a
+                          href={`mailto:${selected.message.email}`}
+                          className="text-accent hover:text-accent-hover"
+                        >
+                          {selected.message.email}
+                        </a>
+                        <p className="text-xs font-mono text-text-secondary mt-1">
+                          {formatDate(selected.message.createdAt)}
+                        </p>
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => inbox.setFlags({ read: !selected.message.readAt })}
+                        >
+                          {selected.message.readAt ? 'Mark unread' : 'Mark read'}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => inbox.setFlags({ archived: !selected.message.archivedAt })}
+                        >
+                          {selected.message.archivedAt ? 'Unarchive' : 'Archive'}
+                        </Button>
+                      </div>
+                    </header>
+
+                    <p className="whitespace-pre-wrap text-text-primary leading-relaxed">
+                      {selected.message.message}
+                    </p>
+
+                    <dl
+                      className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-xs font-mono
+                               text-text-secondary"
+                    >
+                      <dt>Inquiry</dt>
+                      <dd>{INQUIRY_TYPES[selected.message.inquiryType].label}</dd>
+                      {Object.entries(selected.message.inquiryDetails).map(([detail, value]) => (
+                        <Fragment key={detail}>
+                          <dt>{VALIDATION[detail as InquiryField].label}</dt>
+                          <dd>{describeValue(detail as InquiryField, value)}</dd>
+                        </Fragment>
+                      ))}
+                      <dt>Status</dt>
+                      <dd>
+                        <StatusBadge status={selected.message.status} />
+                        {selected.message.error && (
+                          <span className="ml-2 text-red-400">{selected.message.error}</span>
+                        )}
+                      </dd>
+                      <dt>Spam score</dt>
+                      <dd>
+                        {selected.message.spamScore}
+                        {selected.message.spamReasons.length > 0 && (
+                          <span className="ml-2 text-red-400">
+                            {selected.message.spamReasons.join('; ')}
+                          </span>
+                        )}
+                      </dd>
+                      {selected.attachments.length > 0 && (
+                        <>
+                          <dt>Attachments</dt>
+                          <dd className="break-all">
+                            {selected.attachments
+                              .map((file) => `${file.filename} (${formatFileSize(file.size)})`)
+                              .join(', ')}
+                          </dd>
+                        </>
+                      )}
+                      <dt>User agent</dt>
+                      <dd className="break-all">{selected.message.userAgent ?? '—'}</dd>
+                      <dt>IP hash</dt>
+                      <dd className="break-all">
+                        {selected.message.ipHash?.slice(0, 16) ?? '—'}
+                      </dd>
+                    </dl>
+
+                    {selected.deliveries.length > 0 && (
+                      <div className="space-y-2">
+                        <h3 className="text-sm font-semibold text-accent">Emails</h3>
+                        <ul className="space-y-2">
+                          {selected.deliveries.map((delivery) => (
+                            <li
+                              key={delivery.id}
+                              className="flex flex-wrap items-center gap-2 text-xs font-mono
+                                       text-text-secondary"
+                            >
+                              <span className="text-text-primary">{delivery.kind}</span>
+                              <StatusBadge status={delivery.status} />
+                              <span>
+                                {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+                              </span>
+                              {delivery.status === 'pending' && delivery.attempts > 0 && (
+                                <span>next {formatDate(delivery.nextAttemptAt)}</span>
+                              )}
+                              {delivery.lastError && delivery.status !== 'sent' && (
+                                <span className="text-red-400 break-all">{delivery.lastError}</span>
+                              )}
+                              {delivery.status === 'dead' && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => inbox.retry(delivery.id)}
+                                >
+                                  Retry
+                                </Button>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+
+                    {selected.replies.length > 0 && (
+                      <div className="space-y-3">
+                        <h3 className="text-sm font-semibold text-accent">Replies</h3>
+                        {selected.replies.map((reply) => (
+                          <div
+                            key={reply.id}
+                            className="p-4 bg-primary-dark rounded-lg border-l-2 border-accent"
+                          >
+                            <p className="text-xs font-mono text-text-secondary mb-2">
+                              {formatDate(reply.createdAt)}
+                            </p>
+                            <p className="whitespace-pre-wrap text-text-primary">{reply.body}</p>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    <form onSubmit={handleReply} className="space-y-3">
+                      <label htmlFor="reply" className="block text-sm font-semibold text-accent">
+                        Reply to {selected.message.name}
+                      </label>
+                      <textarea
+                        id="reply"
+                        rows={5}
+                        value={draft}
+                        onChange={(event) => setDraft(event.target.value)}
+                        className={`w-full resize-y ${inputStyles}`}
+                      />
+                      <Button
+                        type="submit"
+                        variant="primary"
+                        isLoading={sending}
+                        disabled={!draft.trim()}
+                      >
+                        Send reply
+                      </Button>
+                    </form>
+                  </article>
+                )}
+              </Card>
+            </div>
+          </>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default AdminInboxPage;
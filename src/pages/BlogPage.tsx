@@ -0,0 +1,133 @@
+import { useRef } from 'react';
+import { useScrollAnimation, useBatchScrollAnimation } from '@/hooks/useScrollAnimation';
+import { useBlogIndex } from '@/hooks/useBlogIndex';
+import { TextReveal } from '@/components/animations/TextReveal';
+import { PostCard } from '@/components/ui/PostCard';
+import { Pagination } from '@/components/ui/Pagination';
+import { BLOG_INFO, BLOG_POSTS } from '@/utils/constants';
+
+export const BlogPage = () => {
+  const sectionRef = useRef<HTMLElement>(null);
+  const { tags, tag, posts, page, pageCount, total, selectTag, goToPage } =
+    useBlogIndex(BLOG_POSTS);
+
+  // Animate page entrance
+  useScrollAnimation({
+    trigger: sectionRef,
+    animation: 'fade',
+    start: 'top bottom',
+  });
+
+  // Batch animate post cards with stagger
+  useBatchScrollAnimation('.post-card-wrapper', 'slideUp', {
+    stagger: 0.1,
+    duration: 0.8,
+  });
+
+  return (
+    <section ref={sectionRef} className="min-h-screen pt-28 pb-20 px-4 relative overflow-hidden">
+      {/* Background Decorations */}
+      <div className="absolute top-20 right-10 w-64 h-64 bg-accent/5 rounded-full blur-3xl" />
+      <div className="absolute bottom-20 left-10 w-64 h-64 bg-accent/5 rounded-full blur-3xl" />
+
+      <div className="max-w-7xl mx-auto relative z-10">
+        {/* Header */}
+        <div className="text-center mb-12">
+          <TextReveal
+            splitBy="word"
+            trigger="immediate"
+            className="text-5xl md:text-6xl font-bold text-text-primary mb-6"
+          >
+            {BLOG_INFO.title}
+          </TextReveal>
+          <p className="text-lg md:text-xl text-text-secondary max-w-2xl mx-auto">
+            {BLOG_INFO.description}
+          </p>
+          <a
+            href="/rss.xml"
+            className="inline-flex items-center gap-2 mt-4 text-sm font-mono text-accent 
+                     hover:text-accent-hover transition-colors"
+          >
+            <span>📡</span> Subscribe via RSS
+          </a>
+        </div>
+
+        {/* Tag Filter */}
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-2 items-center justify-center mb-4">
+            <button
+              onClick={() => selectTag(null)}
+              aria-pressed={tag === null}
+              className={`px-3 py-1 text-xs font-mono rounded-full border transition-all 
+                       duration-300 ${
+                         tag === null
+                           ? 'bg-accent text-primary border-accent'
+                           : 'bg-primary text-accent border-accent/30 hover:border-accent'
+                       }`}
+            >
+              All
+              <span className={tag === null ? 'ml-1 text-primary/70' : 'ml-1 text-text-secondary'}>
+                {BLOG_POSTS.length}
+              </span>
+            </button>
+            {tags.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => selectTag(option.value)}
+                aria-pressed={tag === option.value}
+                className={`px-3 py-1 text-xs font-mono rounded-full border transition-all 
+                         duration-300 ${
+                           tag === option.value
+                             ? 'bg-accent text-primary border-accent'
+                             : 'bg-primary text-accent border-accent/30 hover:border-accent'
+                         }`}
+              >
+                #{option.value}
+                <span
+                  className={
+                    tag === option.value ? 'ml-1 text-primary/70' : 'ml-1 text-text-secondary'
+                  }
+                >
+                  {option.count}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        <p className="text-center text-sm text-text-secondary mb-12" aria-live="polite">
+          {tag ? (
+            <>
+              {total} {total === 1 ? 'post' : 'posts'} tagged{' '}
+              <span className="font-mono text-accent">#{tag}</span>
+            </>
+          ) : (
+            <>
+              {total} {total === 1 ? 'post' : 'posts'}
+            </>
+          )}
+        </p>
+
+        {/* Posts Grid */}
+        {posts.length > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+            {posts.map((post) => (
+              <div key={post.slug} className="post-card-wrapper">
+                <PostCard post={post} activeTag={tag} onTagClick={selectTag} />
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-16">
+            <div className="text-6xl mb-4">📝</div>
+            <p className="text-text-secondary">No posts yet — check back soon.</p>
+          </div>
+        )}
+
+        <Pagination page={page} pageCount={pageCount} onChange={goToPage} className="mt-16" />
+      </div>
+    </section>
+  );
+};
+
+export default BlogPage;
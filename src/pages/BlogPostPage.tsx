@@ -0,0 +1,129 @@
+import { useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/Button';
+import { mdxComponents } from '@/components/mdx/MDXComponents';
+import { getPostContent } from '@/content/blog';
+import { blogIndexPath, formatPostDate } from '@/utils/blog';
+import { BLOG_POSTS } from '@/utils/constants';
+
+export const BlogPostPage = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const navigate = useNavigate();
+  const index = BLOG_POSTS.findIndex((post) => post.slug === slug);
+  const post = BLOG_POSTS[index];
+  const Content = slug ? getPostContent(slug) : undefined;
+  // Posts are sorted newest first
+  const newer = BLOG_POSTS[index - 1];
+  const older = BLOG_POSTS[index + 1];
+
+  // Start each post at the top of the page
+  useEffect(() => {
+    window.scrollTo({ top: 0 });
+  }, [slug]);
+
+  if (!post || !Content) {
+    return (
+      <section className="min-h-screen flex flex-col items-center justify-center px-4 text-center">
+        <div className="text-7xl mb-6">📭</div>
+        <h1 className="text-4xl font-bold text-text-primary mb-4">Post not found</h1>
+        <p className="text-text-secondary mb-8">
+          There is no post at <span className="font-mono text-accent">/blog/{slug}</span>.
+        </p>
+        <Button variant="outline" icon="←" onClick={() => navigate('/blog')}>
+          Back to Blog
+        </Button>
+      </section>
+    );
+  }
+
+  return (
+    <article className="min-h-screen pt-28 pb-20 px-4 relative overflow-hidden">
+      {/* Background Decorations */}
+      <div className="absolute top-20 right-10 w-64 h-64 bg-accent/5 rounded-full blur-3xl" />
+
+      <div className="max-w-3xl mx-auto relative z-10">
+        {/* Back Navigation */}
+        <Link
+          to="/blog"
+          className="inline-flex items-center gap-2 text-text-secondary hover:text-accent 
+                   transition-colors mb-8 group"
+        >
+          <span className="transform group-hover:-translate-x-1 transition-transform">←</span>
+          All posts
+        </Link>
+
+        {/* Post Header */}
+        <header className="mb-10">
+          <p className="text-sm font-mono text-text-secondary mb-4">
+            <time dateTime={post.date}>{formatPostDate(post.date)}</time>
+            {post.updated && (
+              <>
+                <span className="mx-2 text-accent">•</span>
+                Updated <time dateTime={post.updated}>{formatPostDate(post.updated)}</time>
+              </>
+            )}
+            <span className="mx-2 text-accent">•</span>
+            {post.readingTime} min read
+          </p>
+          <h1 className="text-4xl md:text-5xl font-bold text-text-primary mb-6 leading-tight">
+            {post.title}
+          </h1>
+          <p className="text-lg text-text-secondary mb-6">{post.summary}</p>
+          <div className="flex flex-wrap gap-2">
+            {post.tags.map((tag) => (
+              <Link
+                key={tag}
+                to={blogIndexPath(tag)}
+                className="px-3 py-1 text-xs font-mono bg-primary rounded-full text-accent 
+                         border border-accent/30 hover:border-accent transition-colors"
+              >
+                #{tag}
+              </Link>
+            ))}
+          </div>
+        </header>
+
+        {post.cover && (
+          <img
+            src={post.cover}
+            alt=""
+            className="w-full rounded-2xl border-2 border-accent/20 mb-10"
+          />
+        )}
+
+        {/* Post Body */}
+        <div>
+          <Content components={mdxComponents} />
+        </div>
+
+        {/* Newer / Older Post */}
+        <nav className="mt-16 grid grid-cols-1 sm:grid-cols-2 gap-6" aria-label="More posts">
+          {older ? (
+            <Link
+              to={`/blog/${older.slug}`}
+              className="p-6 bg-primary-light rounded-xl border border-accent/20 
+                       hover:border-accent/50 transition-all duration-300"
+            >
+              <span className="text-sm text-text-secondary">← Older</span>
+              <p className="text-lg font-semibold text-text-primary">{older.title}</p>
+            </Link>
+          ) : (
+            <div />
+          )}
+          {newer && (
+            <Link
+              to={`/blog/${newer.slug}`}
+              className="p-6 bg-primary-light rounded-xl border border-accent/20 
+                       hover:border-accent/50 transition-all duration-300 text-right"
+            >
+              <span className="text-sm text-text-secondary">Newer →</span>
+              <p className="text-lg font-semibold text-text-primary">{newer.title}</p>
+            </Link>
+          )}
+        </nav>
+      </div>
+    </article>
+  );
+};
+
+export default BlogPostPage;
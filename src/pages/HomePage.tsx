@@ -0,0 +1,25 @@
+import { Hero } from '@/components/sections/Hero';
+import { About } from '@/components/sections/About';
+import { Skills } from '@/components/sections/Skills';
+import { Projects } from '@/components/sections/Projects';
+import { Education } from '@/components/sections/Education';
+import { Contact } from '@/components/sections/Contact';
+import { useScrollToHash } from '@/hooks/useSectionNavigation';
+
+export const HomePage = () => {
+  // Honour deep links such as `/#projects` coming from other routes
+  useScrollToHash();
+
+  return (
+    <>
+      <Hero />
+      <About />
+      <Skills />
+      <Projects />
+      <Education />
+      <Contact />
+    </>
+  );
+};
+
+export default HomePage;
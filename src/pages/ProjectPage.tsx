@@ -0,0 +1,210 @@
+import { useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { ScreenshotGallery } from '@/components/ui/ScreenshotGallery';
+import { CaseStudy } from '@/components/mdx/CaseStudy';
+import { PROJECTS } from '@/utils/constants';
+
+export const ProjectPage = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const navigate = useNavigate();
+  const index = PROJECTS.findIndex((project) => project.slug === slug);
+  const project = PROJECTS[index];
+  const previous = PROJECTS[index - 1];
+  const next = PROJECTS[index + 1];
+
+  // Start each case study at the top of the page
+  useEffect(() => {
+    window.scrollTo({ top: 0 });
+  }, [slug]);
+
+  if (!project) {
+    return (
+      <section className="min-h-screen flex flex-col items-center justify-center px-4 text-center">
+        <div className="text-7xl mb-6">🔍</div>
+        <h1 className="text-4xl font-bold text-text-primary mb-4">Project not found</h1>
+        <p className="text-text-secondary mb-8">
+          There is no project at <span className="font-mono text-accent">/projects/{slug}</span>.
+        </p>
+        <Button variant="outline" icon="←" onClick={() => navigate('/#projects')}>
+          Back to Projects
+        </Button>
+      </section>
+    );
+  }
+
+  const links = [
+    { label: 'GitHub', href: project.github, icon: '🔗' },
+    { label: 'Live Demo', href: project.demo, icon: '🚀' },
+    { label: 'TryHackMe', href: project.THM, icon: '🛡️' },
+  ].filter((link): link is { label: string; href: string; icon: string } => !!link.href);
+
+  return (
+    <article className="min-h-screen pt-28 pb-20 px-4 relative overflow-hidden">
+      {/* Background Decorations */}
+      <div className="absolute top-20 right-10 w-64 h-64 bg-accent/5 rounded-full blur-3xl" />
+      <div className="absolute bottom-20 left-10 w-64 h-64 bg-accent/5 rounded-full blur-3xl" />
+
+      <div className="max-w-5xl mx-auto relative z-10">
+        {/* Back Navigation */}
+        <Link
+          to="/#projects"
+          className="inline-flex items-center gap-2 text-text-secondary hover:text-accent 
+                   transition-colors mb-8 group"
+        >
+          <span className="transform group-hover:-translate-x-1 transition-transform">←</span>
+          Back to Projects
+        </Link>
+
+        {/* Project Header */}
+        <header
+          className={`rounded-2xl bg-gradient-to-br ${project.color} p-8 md:p-12 mb-12 
+                     relative overflow-hidden`}
+        >
+          <div className="absolute inset-0 bg-black/40" />
+          <div className="relative flex flex-col md:flex-row md:items-center gap-6">
+            <div className="text-7xl">{project.icon}</div>
+            <div>
+              <h1 className="text-4xl md:text-5xl font-bold text-text-primary mb-4">
+                {project.title}
+              </h1>
+              <p className="text-lg text-text-primary/90 max-w-3xl">{project.description}</p>
+            </div>
+          </div>
+        </header>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {/* Case Study */}
+          <div className="lg:col-span-2 space-y-8">
+            {project.problem && (
+              <Card variant="elevated">
+                <CardHeader>
+                  <CardTitle>The Problem</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="leading-relaxed">{project.problem}</p>
+                </CardContent>
+              </Card>
+            )}
+
+            {project.architecture && project.architecture.length > 0 && (
+              <Card variant="elevated">
+                <CardHeader>
+                  <CardTitle>Architecture</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ul className="space-y-3">
+                    {project.architecture.map((item) => (
+                      <li key={item} className="flex items-start gap-2">
+                        <span className="text-accent mt-1 flex-shrink-0">▹</span>
+                        <span>{item}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card variant="elevated">
+              <CardHeader>
+                <CardTitle>Key Features</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-3">
+                  {project.features.map((feature) => (
+                    <li key={feature} className="flex items-start gap-2">
+                      <span className="text-accent mt-1 flex-shrink-0">▹</span>
+                      <span>{feature}</span>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+
+            <CaseStudy project={project} className="pt-4" />
+
+            {project.screenshots && project.screenshots.length > 0 && (
+              <section>
+                <h2 className="text-2xl font-bold text-text-primary mb-6">Screenshots</h2>
+                <ScreenshotGallery screenshots={project.screenshots} />
+              </section>
+            )}
+          </div>
+
+          {/* Sidebar */}
+          <aside className="space-y-8">
+            <Card variant="glass">
+              <CardHeader>
+                <CardTitle className="text-xl">Tech Stack</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-wrap gap-2">
+                  {project.technologies.map((tech) => (
+                    <span
+                      key={tech}
+                      className="px-3 py-1 text-xs font-mono bg-primary rounded-full 
+                               text-accent border border-accent/30"
+                    >
+                      {tech}
+                    </span>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            {links.length > 0 && (
+              <Card variant="glass">
+                <CardHeader>
+                  <CardTitle className="text-xl">Links</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {links.map((link) => (
+                    <Button
+                      key={link.label}
+                      variant="outline"
+                      size="sm"
+                      fullWidth
+                      icon={link.icon}
+                      onClick={() => window.open(link.href, '_blank')}
+                    >
+                      {link.label}
+                    </Button>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </aside>
+        </div>
+
+        {/* Previous / Next Project */}
+        <nav className="mt-16 grid grid-cols-1 sm:grid-cols-2 gap-6" aria-label="More projects">
+          {previous ? (
+            <Link
+              to={`/projects/${previous.slug}`}
+              className="p-6 bg-primary-light rounded-xl border border-accent/20 
+                       hover:border-accent/50 transition-all duration-300"
+            >
+              <span className="text-sm text-text-secondary">← Previous</span>
+              <p className="text-lg font-semibold text-text-primary">{previous.title}</p>
+            </Link>
+          ) : (
+            <div />
+          )}
+          {next && (
+            <Link
+              to={`/projects/${next.slug}`}
+              className="p-6 bg-primary-light rounded-xl border border-accent/20 
+                       hover:border-accent/50 transition-all duration-300 text-right"
+            >
+              <span className="text-sm text-text-secondary">Next →</span>
+              <p className="text-lg font-semibold text-text-primary">{next.title}</p>
+            </Link>
+          )}
+        </nav>
+      </div>
+    </article>
+  );
+};
+
+export default ProjectPage;
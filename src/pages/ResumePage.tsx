@@ -0,0 +1,89 @@
+import { useSearchParams } from 'react-router-dom';
+import { useHydrated } from '@/hooks/useHydrated';
+import { Button } from '@/components/ui/Button';
+import { ClassicResume } from '@/components/resume/ClassicResume';
+import { ModernResume } from '@/components/resume/ModernResume';
+import {
+  DEFAULT_RESUME_TEMPLATE,
+  RESUME_TEMPLATES,
+  RESUME_TEMPLATE_LABELS,
+  getResume,
+  isResumeTemplate,
+  resumePdfPath,
+} from '@/utils/resume';
+
+const layouts = {
+  classic: ClassicResume,
+  modern: ModernResume,
+};
+
+const resume = getResume();
+
+export const ResumePage = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Prerendered with the default layout; a `?template=` applies once hydrated
+  const hydrated = useHydrated();
+  const requested = hydrated ? searchParams.get('template') : null;
+  const template = isResumeTemplate(requested) ? requested : DEFAULT_RESUME_TEMPLATE;
+  const Layout = layouts[template];
+
+  return (
+    <section className="min-h-screen pt-28 pb-20 px-4 print:p-0">
+      <div className="max-w-4xl mx-auto">
+        {/* Toolbar */}
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8 print:hidden">
+          <div className="flex gap-2" role="group" aria-label="Resume layout">
+            {RESUME_TEMPLATES.map((name) => (
+              <button
+                key={name}
+                onClick={() =>
+                  setSearchParams(name === DEFAULT_RESUME_TEMPLATE ? {} : { template: name }, {
+                    replace: true,
+                  })
+                }
+                aria-pressed={template === name}
+                className={`px-4 py-2 rounded-full text-sm font-mono border transition-colors ${
+                  template === name
+                    ? 'bg-accent text-primary border-accent'
+                    : 'border-accent/30 text-text-secondary hover:text-accent hover:border-accent'
+                }`}
+              >
+                {RESUME_TEMPLATE_LABELS[name]}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <a
+              href="/resume.json"
+              className="text-sm font-mono text-text-secondary hover:text-accent transition-colors"
+              title="Machine-readable resume in the JSON Resume format"
+            >
+              {'{ }'} JSON Resume
+            </a>
+            <Button variant="outline" icon="🖨️" onClick={() => window.print()}>
+              Print
+            </Button>
+            <a
+              href={resumePdfPath(template)}
+              download={`${resume.name.replace(/\s+/g, '-')}-Resume.pdf`}
+              className="inline-flex items-center gap-2 px-6 py-3 rounded-lg font-semibold
+                       bg-accent text-primary hover:bg-accent-hover transition-colors"
+            >
+              <span>📄</span> Download PDF
+            </a>
+          </div>
+        </div>
+
+        {/* Sheet */}
+        <article
+          className="bg-white rounded-xl shadow-2xl overflow-hidden [print-color-adjust:exact]
+                   print:rounded-none print:shadow-none"
+        >
+          <Layout resume={resume} />
+        </article>
+      </div>
+    </section>
+  );
+};
+
+export default ResumePage;
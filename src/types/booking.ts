@@ -0,0 +1,56 @@
+/**
+ * Call bookings, shared by AvailabilityCalendar and the Express server's
+ * `/api/booking` routes
+ */
+
+// GET /api/booking/availability - Open slots, as UTC ISO timestamps
+export interface BookingAvailability {
+  // The owner's time zone, which the weekly hours are set in
+  timezone: string;
+  slotMinutes: number;
+  slots: string[];
+}
+
+// Body of POST /api/booking
+export interface BookingRequest {
+  name: string;
+  email: string;
+  // One of the availability's `slots`
+  start: string;
+  // What the visitor wants to talk about; optional
+  topic: string;
+  // The visitor's time zone, for the times in their invitation
+  timezone: string;
+}
+
+export type BookingField = keyof BookingRequest;
+
+export type BookingFieldErrors = Partial<Record<BookingField, string>>;
+
+// A booked call as returned by the admin API (`/api/admin/bookings`)
+export interface Booking {
+  id: number;
+  name: string;
+  email: string;
+  topic: string;
+  startsAt: string;
+  endsAt: string;
+  timezone: string;
+  createdAt: string;
+}
+
+export interface BookingSuccessResponse {
+  success: true;
+  message: string;
+  booking: Pick<Booking, 'startsAt' | 'endsAt'>;
+}
+
+export interface BookingErrorResponse {
+  success: false;
+  message: string;
+  errors?: BookingFieldErrors;
+  // Seconds until the visitor may try again, when rate limited
+  retryAfter?: number;
+}
+
+export type BookingResponse = BookingSuccessResponse | BookingErrorResponse;
@@ -0,0 +1,70 @@
+/**
+ * Contact form payload and API responses, shared by ContactForm and the
+ * Express server in `server/`
+ */
+
+export type InquiryType = 'general' | 'job' | 'freelance' | 'collaboration';
+
+/**
+ * What the sender can tell about their inquiry. Which of these the form asks
+ * for depends on the inquiry type (see `INQUIRY_TYPES`); the rest stay empty.
+ */
+export interface InquiryDetails {
+  company: string;
+  role: string;
+  // Keys of BUDGET_RANGES and TIMELINES
+  budget: string;
+  timeline: string;
+  // A city, or how remote the position is
+  location: string;
+}
+
+export type InquiryField = keyof InquiryDetails;
+
+/**
+ * Body of POST /api/email/contact: JSON, or multipart with the files in
+ * `attachments`
+ */
+export interface ContactFormData extends InquiryDetails {
+  name: string;
+  email: string;
+  inquiryType: InquiryType;
+  message: string;
+}
+
+export type ContactField = keyof ContactFormData;
+
+// GET /api/email/challenge - A signed form token and its proof-of-work difficulty
+export interface ContactChallenge {
+  token: string;
+  difficulty: number;
+}
+
+/**
+ * Spam protection sent along with the form: the honeypot field (empty for
+ * people), the challenge token and the proof-of-work solution for it.
+ */
+export interface ContactProtection {
+  website: string;
+  token: string;
+  proof: string;
+}
+
+// One message per invalid field, worded like the form's own validation
+export type ContactFieldErrors = Partial<Record<ContactField | 'attachments', string>>;
+
+export interface ContactSuccessResponse {
+  success: true;
+  message: string;
+}
+
+export interface ContactErrorResponse {
+  success: false;
+  message: string;
+  // Present when the submission failed validation
+  errors?: ContactFieldErrors;
+  // Seconds until the sender may try again, when rate limited
+  retryAfter?: number;
+}
+
+export type ContactResponse = ContactSuccessResponse | ContactErrorResponse;
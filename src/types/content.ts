@@ -0,0 +1,123 @@
+/**
+ * Typed content model shared by every portfolio section
+ */
+
+// Person shown in the hero, about and contact sections
+export interface Person {
+  name: string;
+  initials: string;
+  title: string;
+  subtitle: string;
+  summary: string;
+  bio: string[];
+  email: string;
+  phone: string;
+  location: string;
+  shortLocation: string;
+  resume: string;
+  availability: string;
+  techStack: string[];
+}
+
+// A single skill, rendered as a progress bar in the grid and as a cube in 3D
+export interface Skill {
+  name: string;
+  level: number;
+  icon?: string;
+  color?: string;
+  description?: string;
+  featured?: boolean;
+}
+
+export interface SkillCategory {
+  title: string;
+  icon: string;
+  color: string;
+  skills: Skill[];
+}
+
+// Image shown in a project's case-study gallery
+export interface Screenshot {
+  src: string;
+  alt: string;
+  caption?: string;
+}
+
+export interface Project {
+  id: number;
+  slug: string;
+  title: string;
+  description: string;
+  categories: string[];
+  technologies: string[];
+  features: string[];
+  date?: string; // `YYYY-MM` or `YYYY-MM-DD`
+  featured?: boolean;
+  github?: string;
+  THM?: string;
+  demo?: string;
+  icon: string;
+  color: string;
+  image?: string;
+  problem?: string;
+  architecture?: string[];
+  caseStudy?: string; // MDX file relative to `content/`, e.g. `case-studies/my-project.mdx`
+  screenshots?: Screenshot[];
+}
+
+export interface EducationItem {
+  id: number;
+  degree: string;
+  institution: string;
+  duration: string;
+  description: string;
+  icon: string;
+  color: string;
+}
+
+export interface SocialLink {
+  id: string;
+  name: string;
+  url: string;
+  icon: string;
+  label: string;
+}
+
+// Site-wide settings used for absolute URLs, feeds and metadata
+export interface SiteConfig {
+  url: string; // Canonical origin without a trailing slash
+  title: string;
+  description: string;
+  language: string;
+  image?: string; // Replaces the generated share card, relative to public/
+  imageAlt?: string;
+  twitter?: string; // `@handle`
+  resumeTemplate?: 'classic' | 'modern'; // Layout used for /resume.pdf
+  robots?: {
+    index?: boolean; // `false` keeps the whole site out of search engines
+    disallow?: string[]; // Paths crawlers should skip
+  };
+}
+
+// Blog post metadata from MDX frontmatter; the body is loaded separately
+export interface BlogPost {
+  slug: string; // From the file name, e.g. `content/blog/my-post.mdx`
+  title: string;
+  date: string; // `YYYY-MM-DD`
+  updated?: string;
+  tags: string[];
+  summary: string;
+  cover?: string;
+  readingTime: number; // Minutes
+}
+
+export interface PortfolioContent {
+  site: SiteConfig;
+  person: Person;
+  skills: SkillCategory[];
+  tools: string[];
+  projects: Project[];
+  education: EducationItem[];
+  socials: SocialLink[];
+  posts: BlogPost[];
+}
@@ -0,0 +1,100 @@
+/**
+ * Contact form submissions as returned by the admin API (`/api/admin/messages`)
+ */
+
+import type { InquiryDetails, InquiryType } from './contact';
+
+export type MessageStatus = 'received' | 'sent' | 'failed';
+
+export type MessageFolder = 'inbox' | 'archived' | 'all';
+
+export interface InboxMessage {
+  id: number;
+  name: string;
+  email: string;
+  message: string;
+  // Delivery of the owner notification
+  status: MessageStatus;
+  error: string | null;
+  ipHash: string | null;
+  userAgent: string | null;
+  // Total from the spam checks, and what each one found
+  spamScore: number;
+  spamReasons: string[];
+  // What the sender picked on the form, and the details it asked for
+  inquiryType: InquiryType;
+  inquiryDetails: Partial<InquiryDetails>;
+  createdAt: string;
+  updatedAt: string;
+  sentAt: string | null;
+  readAt: string | null;
+  archivedAt: string | null;
+  repliedAt: string | null;
+}
+
+export interface InboxReply {
+  id: number;
+  messageId: number;
+  body: string;
+  createdAt: string;
+}
+
+// A file sent with a message, kept in the server's quarantine folder
+export interface InboxAttachment {
+  id: number;
+  messageId: number;
+  filename: string;
+  contentType: string;
+  size: number;
+  sha256: string;
+  createdAt: string;
+}
+
+export type DeliveryStatus = 'pending' | 'processing' | 'sent' | 'dead';
+
+// An email queued in the server's outbox for a message
+export interface InboxDelivery {
+  id: number;
+  messageId: number | null;
+  kind: string;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+  sentAt: string | null;
+}
+
+export interface InboxQuery {
+  q: string;
+  folder: MessageFolder;
+  status: MessageStatus | '';
+  inquiryType: InquiryType | '';
+  unread: boolean;
+  offset: number;
+}
+
+export interface InboxPage {
+  messages: InboxMessage[];
+  total: number;
+  unread: number;
+}
+
+export type AccessRuleKind = 'ip' | 'email' | 'domain';
+
+export type AccessRuleAction = 'allow' | 'deny';
+
+/**
+ * A contact form sender that is always let through without rate limits
+ * (allow) or always turned away (deny), managed at `/api/admin/access-rules`.
+ * IP rules hold the keyed hash of the address, like `InboxMessage.ipHash`.
+ */
+export interface AccessRule {
+  id: number;
+  kind: AccessRuleKind;
+  value: string;
+  action: AccessRuleAction;
+  note: string | null;
+  createdAt: string;
+}
@@ -0,0 +1,94 @@
+/**
+ * Client for the admin inbox API. Every request carries the admin token as a
+ * bearer token; the token is kept for the browser session only.
+ */
+
+import { API_ENDPOINTS } from '@/utils/constants';
+import type {
+  InboxAttachment,
+  InboxDelivery,
+  InboxMessage,
+  InboxPage,
+  InboxQuery,
+  InboxReply,
+} from '@/types/inbox';
+
+export const INBOX_PAGE_SIZE = 20;
+
+const TOKEN_KEY = 'admin-token';
+
+export const getAdminToken = () => sessionStorage.getItem(TOKEN_KEY);
+export const setAdminToken = (token: string) => sessionStorage.setItem(TOKEN_KEY, token);
+export const clearAdminToken = () => sessionStorage.removeItem(TOKEN_KEY);
+
+// Carries the HTTP status so callers can tell a bad token (401) from other failures
+export class AdminApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = 'AdminApiError';
+  }
+}
+
+const request = async <T>(url: string, token: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+    },
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new AdminApiError(data.message ?? `Request failed (${response.status})`, response.status);
+  }
+  return data as T;
+};
+
+export const fetchMessages = (token: string, query: InboxQuery) => {
+  const params = new URLSearchParams({
+    folder: query.folder,
+    limit: String(INBOX_PAGE_SIZE),
+    offset: String(query.offset),
+  });
+  if (query.q) params.set('q', query.q);
+  if (query.status) params.set('status', query.status);
+  if (query.inquiryType) params.set('inquiryType', query.inquiryType);
+  if (query.unread) params.set('unread', 'true');
+
+  return request<InboxPage>(`${API_ENDPOINTS.adminMessages}?${params}`, token);
+};
+
+export const fetchMessage = (token: string, id: number) =>
+  request<{
+    message: InboxMessage;
+    attachments: InboxAttachment[];
+    replies: InboxReply[];
+    deliveries: InboxDelivery[];
+  }>(`${API_ENDPOINTS.adminMessages}/${id}`, token);
+
+export const updateMessage = (
+  token: string,
+  id: number,
+  flags: { read?: boolean; archived?: boolean }
+) =>
+  request<{ message: InboxMessage }>(`${API_ENDPOINTS.adminMessages}/${id}`, token, {
+    method: 'PATCH',
+    body: JSON.stringify(flags),
+  });
+
+export const replyToMessage = (token: string, id: number, body: string) =>
+  request<{ message: InboxMessage; replies: InboxReply[] }>(
+    `${API_ENDPOINTS.adminMessages}/${id}/reply`,
+    token,
+    { method: 'POST', body: JSON.stringify({ body }) }
+  );
+
+// Puts a dead-lettered email back in the outbox
+export const retryDelivery = (token: string, id: number) =>
+  request<{ job: InboxDelivery }>(`${API_ENDPOINTS.adminOutbox}/${id}/retry`, token, {
+    method: 'POST',
+  });
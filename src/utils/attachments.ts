@@ -0,0 +1,76 @@
+/**
+ * Files the contact form accepts as attachments, checked by the form before
+ * uploading and again by the server, which also checks their contents.
+ *
+ * Imported by the server too, so this module must not depend on the content
+ * modules or on the `@/` alias.
+ */
+
+export const ATTACHMENT_TYPES = {
+  'application/pdf': { label: 'PDF', extensions: ['.pdf'] },
+  'application/msword': { label: 'Word', extensions: ['.doc'] },
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': {
+    label: 'Word',
+    extensions: ['.docx'],
+  },
+  'text/plain': { label: 'text', extensions: ['.txt'] },
+  'image/png': { label: 'PNG', extensions: ['.png'] },
+  'image/jpeg': { label: 'JPEG', extensions: ['.jpg', '.jpeg'] },
+} as const;
+
+export type AttachmentType = keyof typeof ATTACHMENT_TYPES;
+
+export const ATTACHMENT_LIMITS = {
+  maxFiles: 3,
+  maxFileSize: 5 * 1024 * 1024,
+  maxTotalSize: 10 * 1024 * 1024,
+};
+
+// For the file input's `accept` attribute
+export const ATTACHMENT_ACCEPT = Object.values(ATTACHMENT_TYPES)
+  .flatMap((type) => type.extensions)
+  .join(',');
+
+// "PDF, Word, text, PNG or JPEG"
+const TYPE_NAMES = [...new Set(Object.values(ATTACHMENT_TYPES).map((type) => type.label))]
+  .join(', ')
+  .replace(/, (\w+)$/, ' or $1');
+
+// 1536 → "1.5 KB"
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1).replace(/\.0$/, '')} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1).replace(/\.0$/, '')} MB`;
+};
+
+// Decided by the file name's extension; browsers don't agree on MIME types for documents
+export const attachmentType = (filename: string): AttachmentType | null => {
+  const name = filename.toLowerCase();
+  const entry = Object.entries(ATTACHMENT_TYPES).find(([, type]) =>
+    type.extensions.some((extension) => name.endsWith(extension))
+  );
+  return entry ? (entry[0] as AttachmentType) : null;
+};
+
+/**
+ * What is wrong with a set of attachments, worded for the form, or null when
+ * they can be sent.
+ */
+export const attachmentError = (files: { name: string; size: number }[]) => {
+  const { maxFiles, maxFileSize, maxTotalSize } = ATTACHMENT_LIMITS;
+  if (files.length > maxFiles) return `Attach at most ${maxFiles} files`;
+
+  for (const file of files) {
+    if (!attachmentType(file.name)) return `${file.name} is not a ${TYPE_NAMES} file`;
+    if (file.size === 0) return `${file.name} is empty`;
+    if (file.size > maxFileSize) {
+      return `${file.name} is larger than ${formatFileSize(maxFileSize)}`;
+    }
+  }
+
+  const total = files.reduce((sum, file) => sum + file.size, 0);
+  if (total > maxTotalSize) {
+    return `Attachments must be ${formatFileSize(maxTotalSize)} or less in total`;
+  }
+  return null;
+};
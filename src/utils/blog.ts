@@ -0,0 +1,75 @@
+/**
+ * Blog index helpers: tag counts, tag filtering, pagination and date display.
+ * The selected tag and page live in the URL (`/blog?tag=security&page=2`).
+ */
+
+import type { BlogPost } from '@/types/content';
+import type { FacetOption } from '@/utils/projectFilters';
+
+export const POSTS_PER_PAGE = 6;
+
+export interface BlogIndexState {
+  tag: string | null;
+  page: number;
+}
+
+export interface BlogPage {
+  posts: BlogPost[];
+  page: number;
+  pageCount: number;
+  total: number;
+}
+
+// Count posts per tag, most used first
+export const getTagCounts = (posts: BlogPost[]): FacetOption[] => {
+  const counts = new Map<string, number>();
+  posts.flatMap((post) => post.tags).forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+export const filterPostsByTag = (posts: BlogPost[], tag: string | null): BlogPost[] =>
+  tag ? posts.filter((post) => post.tags.includes(tag)) : posts;
+
+// Slice out one page, clamping out-of-range page numbers to the last page
+export const paginate = (posts: BlogPost[], page: number, perPage = POSTS_PER_PAGE): BlogPage => {
+  const pageCount = Math.max(1, Math.ceil(posts.length / perPage));
+  const current = Math.min(Math.max(1, page), pageCount);
+
+  return {
+    posts: posts.slice((current - 1) * perPage, current * perPage),
+    page: current,
+    pageCount,
+    total: posts.length,
+  };
+};
+
+export const parseBlogParams = (params: URLSearchParams): BlogIndexState => {
+  const page = Number.parseInt(params.get('page') ?? '', 10);
+  return {
+    tag: params.get('tag')?.trim().toLowerCase() || null,
+    page: Number.isFinite(page) && page > 0 ? page : 1,
+  };
+};
+
+export const toBlogParams = ({ tag, page }: BlogIndexState): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (tag) params.set('tag', tag);
+  if (page > 1) params.set('page', String(page));
+  return params;
+};
+
+// `2024-11-12` → `Nov 12, 2024`, formatted in UTC so the day never shifts
+export const formatPostDate = (date: string): string =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+
+// Link to the blog index, optionally pre-filtered by tag
+export const blogIndexPath = (tag?: string): string =>
+  tag ? `/blog?${toBlogParams({ tag, page: 1 })}` : '/blog';
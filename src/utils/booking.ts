@@ -0,0 +1,70 @@
+/**
+ * Rules and time formatting for call bookings. The server checks requests
+ * with `validateBooking`; AvailabilityCalendar uses the same field rules.
+ *
+ * Imported by the server too, so this module must not depend on the content
+ * modules or on the `@/` alias.
+ */
+
+import { fieldError } from './validation';
+import type { BookingFieldErrors, BookingRequest } from '../types/booking';
+
+export const TOPIC_MAX_LENGTH = 1000;
+
+export const isTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// `YYYY-MM-DD` of an instant in a time zone, for grouping slots by day
+export const dayKey = (instant: string | number, timeZone: string) =>
+  new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' })
+    .format(new Date(instant));
+
+// "Monday, 19 October 2026 at 10:00 – 10:30 (Europe/London)"
+export const formatSlot = (start: string, end: string, timeZone: string) => {
+  const day = new Intl.DateTimeFormat('en-GB', { dateStyle: 'full', timeZone });
+  const time = new Intl.DateTimeFormat('en-GB', { timeStyle: 'short', timeZone });
+  return `${day.format(new Date(start))} at ${time.format(new Date(start))} – ${time.format(
+    new Date(end)
+  )} (${timeZone})`;
+};
+
+/**
+ * Checks a request body. Values come back trimmed, `start` as a UTC ISO
+ * timestamp; an unknown time zone falls back to UTC rather than failing.
+ * Whether the slot is still open is for the server to say.
+ */
+export const validateBooking = (body: unknown) => {
+  const input = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>;
+  const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+  const errors: BookingFieldErrors = {};
+
+  const values: BookingRequest = {
+    name: text(input.name),
+    email: text(input.email),
+    start: text(input.start),
+    topic: text(input.topic),
+    timezone: text(input.timezone),
+  };
+
+  const nameError = fieldError('name', values.name);
+  if (nameError) errors.name = nameError;
+  const emailError = fieldError('email', values.email);
+  if (emailError) errors.email = emailError;
+
+  const start = Date.parse(values.start);
+  if (Number.isNaN(start)) errors.start = 'Pick a time for the call';
+  else values.start = new Date(start).toISOString();
+
+  if (values.topic.length > TOPIC_MAX_LENGTH) {
+    errors.topic = `Topic must be at most ${TOPIC_MAX_LENGTH} characters`;
+  }
+  if (!isTimeZone(values.timezone)) values.timezone = 'UTC';
+
+  return { values, errors: Object.keys(errors).length > 0 ? errors : null };
+};
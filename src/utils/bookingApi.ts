@@ -0,0 +1,68 @@
+/**
+ * Client for call bookings (`/api/booking`)
+ */
+
+import { API_ENDPOINTS } from '@/utils/constants';
+import type {
+  BookingAvailability,
+  BookingFieldErrors,
+  BookingRequest,
+  BookingResponse,
+  BookingSuccessResponse,
+} from '@/types/booking';
+import type { ContactProtection } from '@/types/contact';
+
+/**
+ * A refused booking. `fieldErrors` holds the server's message for each
+ * invalid field; a 409 means the slot was taken and `fieldErrors.start` says so.
+ */
+export class BookingApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly fieldErrors: BookingFieldErrors = {},
+    public readonly retryAfter: number | null = null
+  ) {
+    super(message);
+    this.name = 'BookingApiError';
+  }
+}
+
+// Null when booking is turned off on the server
+export const fetchAvailability = async (): Promise<BookingAvailability | null> => {
+  const response = await fetch(API_ENDPOINTS.bookingAvailability);
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error(`Availability request failed (${response.status})`);
+  return response.json();
+};
+
+// Checked for spam like the contact form, with the same protection fields
+export const requestBooking = async (
+  booking: BookingRequest,
+  protection?: ContactProtection
+): Promise<BookingSuccessResponse> => {
+  const response = await fetch(API_ENDPOINTS.booking, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...booking, ...protection }),
+  });
+
+  let result: Partial<BookingResponse> = {};
+  try {
+    result = await response.json();
+  } catch {
+    // Not from the API, e.g. a proxy's error page
+  }
+
+  if (!response.ok || !result.success) {
+    const failure = result.success === false ? result : {};
+    const retryAfter = failure.retryAfter ?? (Number(response.headers.get('Retry-After')) || null);
+    throw new BookingApiError(
+      result.message ?? 'Failed to book the call',
+      response.status,
+      failure.errors,
+      response.status === 429 ? retryAfter : null
+    );
+  }
+  return result as BookingSuccessResponse;
+};
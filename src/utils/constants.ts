@@ -2,31 +2,13 @@
  * Application-wide constants for the 3D portfolio
  */
 
-// Color palette
-export const COLORS = {
-  primary: {
-    DEFAULT: '#0A192F',
-    light: '#112240',
-    dark: '#020c1b',
-  },
-  accent: {
-    DEFAULT: '#64FFDA',
-    hover: '#4DFFCC',
-    light: '#80FFE5',
-    dark: '#48CCB4',
-  },
-  text: {
-    primary: '#CCD6F6',
-    secondary: '#8892B0',
-    muted: '#495670',
-  },
-  status: {
-    success: '#10B981',
-    error: '#EF4444',
-    warning: '#F59E0B',
-    info: '#3B82F6',
-  },
-} as const;
+import { portfolio } from '@/content/portfolio';
+import type { SocialLink } from '@/types/content';
+import colors from '@/styles/colors.json';
+import { VALIDATION } from '@/utils/validation';
+
+// Color palette, kept in JSON so the server's email templates use the same colors
+export const COLORS = colors;
 
 // Breakpoints (matches Tailwind defaults)
 export const BREAKPOINTS = {
@@ -66,43 +48,26 @@ export const NAV_LINKS = [
   { name: 'Contact', href: '#contact' },
 ] as const;
 
-// Personal information
+// Personal information (sourced from the portfolio content)
 export const PERSONAL_INFO = {
-  name: 'Lokesh Trivedi',
-  title: 'Fullstack Developer',
-  subtitle: 'React.js Enthusiast | CSE Student',
-  email: 'lokeshtrivedi2004@gmail.com',
-  phone: '+91 9950099543',
-  location: 'Sojat City, Pali, Rajasthan - 306104',
-  linkedin: 'https://in.linkedin.com/in/lokesh-trivedi-66572b246',
-  github: 'https://github.com/lokeshgit-stack',
-  resume: '/resume.pdf',
+  ...portfolio.person,
+  linkedin: portfolio.socials.find((social) => social.id === 'linkedin')?.url ?? '',
+  github: portfolio.socials.find((social) => social.id === 'github')?.url ?? '',
 } as const;
 
-// Skills data
-export const SKILLS = {
-  frontend: [
-    'HTML5',
-    'CSS3',
-    'JavaScript (ES6+)',
-    'React.js',
-    'React Router',
-    'TypeScript',
-    'Tailwind CSS',
-    'Bootstrap',
-    'Responsive Design',
-  ],
-  backend: [
-    'Node.js',
-    'Express.js',
-    'RESTful APIs',
-    'JWT Authentication',
-    'API Security',
-  ],
-  database: ['MongoDB', 'Mongoose ODM', 'Data Modeling'],
-  cloud: ['AWS S3', 'Netlify', 'Vercel', 'Render'],
-  tools: ['Git', 'GitHub', 'VS Code', 'Postman', 'npm'],
-} as const;
+// Skills data, grouped by category
+export const SKILLS = portfolio.skills;
+
+// Skills highlighted in the 3D cube view
+export const FEATURED_SKILLS = SKILLS.flatMap((category) => category.skills).filter(
+  (skill) => skill.featured
+);
+
+// Additional tools & technologies
+export const TOOLS = portfolio.tools;
+
+// Projects data
+export const PROJECTS = portfolio.projects;
 
 // 3D Animation settings
 export const ANIMATION_SETTINGS = {
@@ -124,6 +89,11 @@ export const PERFORMANCE = {
 // API endpoints
 export const API_ENDPOINTS = {
   contact: '/api/email/contact',
+  contactChallenge: '/api/email/challenge',
+  booking: '/api/booking',
+  bookingAvailability: '/api/booking/availability',
+  adminMessages: '/api/admin/messages',
+  adminOutbox: '/api/admin/outbox',
   health: '/health',
 } as const;
 
@@ -135,20 +105,27 @@ export const SOCIAL_LINKS = {
   phone: `tel:${PERSONAL_INFO.phone}`,
 } as const;
 
-// Form validation rules
-export const VALIDATION = {
-  name: {
-    minLength: 2,
-    maxLength: 100,
-  },
-  email: {
-    pattern: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
+// Social profiles plus direct contact channels, in display order
+export const SOCIALS: SocialLink[] = [
+  ...portfolio.socials,
+  {
+    id: 'email',
+    name: 'Email',
+    url: SOCIAL_LINKS.email,
+    icon: '📧',
+    label: 'Direct Message',
   },
-  message: {
-    minLength: 10,
-    maxLength: 5000,
+  {
+    id: 'phone',
+    name: 'Phone',
+    url: SOCIAL_LINKS.phone,
+    icon: '📱',
+    label: 'Call Me',
   },
-} as const;
+];
+
+// Form validation rules, shared with the server
+export { VALIDATION };
 
 // Scroll settings
 export const SCROLL = {
@@ -166,32 +143,19 @@ export const SCROLL = {
 } as const;
 
 // Education data
-export const EDUCATION = [
-  {
-    id: 1,
-    degree: 'B.Tech in Computer Science Engineering',
-    institution: 'Mahaveer Institute of Technology & Science',
-    duration: 'August 2022 - May 2026',
-    description:
-      'Pursuing a comprehensive education in computer science with focus on web development, data structures, algorithms, and software engineering principles.',
-  },
-  {
-    id: 2,
-    degree: 'Class XII (Senior Secondary)',
-    institution: 'Swami Vivekananda Govt. Model Sr. Sec. School',
-    duration: 'January 2021 - May 2022',
-    description:
-      'Completed higher secondary education with focus on science stream, building foundational knowledge in mathematics and computer science.',
-  },
-  {
-    id: 3,
-    degree: 'Class X (Secondary)',
-    institution: 'Swami Vivekananda Govt. Model Sr. Sec. School',
-    duration: 'January 2019 - May 2020',
-    description:
-      'Completed secondary education with strong academic performance and developed early interest in technology and programming.',
-  },
-] as const;
+export const EDUCATION = portfolio.education;
+
+// Site-wide settings (canonical URL, language)
+export const SITE = portfolio.site;
+
+// Blog posts, newest first
+export const BLOG_POSTS = portfolio.posts;
+
+// Blog index heading and intro, also used for its page metadata
+export const BLOG_INFO = {
+  title: 'Writing',
+  description: 'Notes on web security, React and the projects behind this portfolio.',
+} as const;
 
 // Export all constants
 export default {
@@ -202,11 +166,18 @@ export default {
   NAV_LINKS,
   PERSONAL_INFO,
   SKILLS,
+  FEATURED_SKILLS,
+  TOOLS,
+  PROJECTS,
   ANIMATION_SETTINGS,
   PERFORMANCE,
   API_ENDPOINTS,
   SOCIAL_LINKS,
+  SOCIALS,
   VALIDATION,
   SCROLL,
   EDUCATION,
+  SITE,
+  BLOG_POSTS,
+  BLOG_INFO,
 };
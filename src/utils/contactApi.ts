@@ -0,0 +1,134 @@
+/**
+ * Client for the contact form endpoint (`POST /api/email/contact`)
+ */
+
+import { API_ENDPOINTS } from '@/utils/constants';
+import type {
+  ContactChallenge,
+  ContactFieldErrors,
+  ContactFormData,
+  ContactProtection,
+  ContactResponse,
+  ContactSuccessResponse,
+} from '@/types/contact';
+
+/**
+ * The sender's allowance as reported by the server's `RateLimit-*` headers:
+ * messages left in the current window, and seconds until one more is allowed.
+ */
+export interface RateLimitStatus {
+  limit: number;
+  remaining: number;
+  reset: number;
+}
+
+export const readRateLimit = (
+  header: (name: string) => string | null
+): RateLimitStatus | null => {
+  const [limit, remaining, reset] = ['Limit', 'Remaining', 'Reset'].map((name) =>
+    Number(header(`RateLimit-${name}`) ?? Number.NaN)
+  );
+  if (limit === undefined || remaining === undefined || reset === undefined) return null;
+  return [limit, remaining, reset].every(Number.isFinite) ? { limit, remaining, reset } : null;
+};
+
+export interface ContactSent extends ContactSuccessResponse {
+  rateLimit: RateLimitStatus | null;
+}
+
+/**
+ * A rejected submission. `fieldErrors` holds the server's message for each
+ * invalid field; `retryAfter` is the wait in seconds when rate limited.
+ */
+export class ContactApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly fieldErrors: ContactFieldErrors = {},
+    public readonly retryAfter: number | null = null
+  ) {
+    super(message);
+    this.name = 'ContactApiError';
+  }
+}
+
+export const fetchChallenge = async (): Promise<ContactChallenge> => {
+  const response = await fetch(API_ENDPOINTS.contactChallenge);
+  if (!response.ok) throw new Error(`Challenge request failed (${response.status})`);
+  return response.json();
+};
+
+interface ContactRequest {
+  status: number;
+  result: Partial<ContactResponse>;
+  header: (name: string) => string | null;
+}
+
+/**
+ * POSTs the form with XMLHttpRequest, since fetch can't report upload
+ * progress. Only network failures reject; HTTP errors are for the caller.
+ */
+const post = (body: FormData | string, onProgress?: (fraction: number) => void) =>
+  new Promise<ContactRequest>((resolve, reject) => {
+    const request = new XMLHttpRequest();
+    request.open('POST', API_ENDPOINTS.contact);
+    if (typeof body === 'string') request.setRequestHeader('Content-Type', 'application/json');
+
+    request.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress?.(event.loaded / event.total);
+    };
+    request.onload = () => {
+      let result: Partial<ContactResponse> = {};
+      try {
+        result = JSON.parse(request.responseText);
+      } catch {
+        // Not from the API, e.g. a proxy's error page
+      }
+      resolve({
+        status: request.status,
+        result,
+        header: (name) => request.getResponseHeader(name),
+      });
+    };
+    request.onerror = () => reject(new Error('Network error while sending the message'));
+    request.send(body);
+  });
+
+export interface SubmitOptions {
+  // Sent as multipart when there are any
+  files?: File[];
+  // Share of the upload done, from 0 to 1
+  onProgress?: (fraction: number) => void;
+}
+
+export const submitContact = async (
+  data: ContactFormData,
+  protection?: ContactProtection,
+  { files = [], onProgress }: SubmitOptions = {}
+): Promise<ContactSent> => {
+  const fields = { ...data, ...protection };
+  let body: FormData | string = JSON.stringify(fields);
+  if (files.length > 0) {
+    const form = new FormData();
+    Object.entries(fields).forEach(([name, value]) => form.append(name, value));
+    files.forEach((file) => form.append('attachments', file));
+    body = form;
+  }
+
+  const { status, result, header } = await post(body, onProgress);
+  const rateLimit = readRateLimit(header);
+
+  if (status < 200 || status >= 300 || !result.success) {
+    const failure = result.success === false ? result : {};
+    // The body says how long to wait; the headers cover proxies and older servers
+    const retryAfter = failure.retryAfter ?? (Number(header('Retry-After')) || rateLimit?.reset);
+
+    throw new ContactApiError(
+      result.message ?? 'Failed to send message',
+      status,
+      failure.errors,
+      status === 429 && retryAfter ? retryAfter : null
+    );
+  }
+  return { ...(result as ContactSuccessResponse), rateLimit };
+};
@@ -47,6 +47,9 @@ export const detectDeviceCapabilities = (): DeviceCapabilities => {
 
 // Check if device can handle heavy animations
 export const canHandleHeavyAnimations = (): boolean => {
+  // Nothing heavy while prerendering
+  if (typeof window === 'undefined') return false;
+
   const capabilities = detectDeviceCapabilities();
   
   // Disable heavy animations on low-end devices
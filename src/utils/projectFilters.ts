@@ -0,0 +1,170 @@
+/**
+ * Project filtering, search and sorting helpers.
+ * Filter state round-trips through the URL query string so views can be shared.
+ */
+
+import type { Project } from '@/types/content';
+
+export type ProjectSort = 'featured' | 'newest' | 'oldest' | 'title';
+
+export interface ProjectFilterState {
+  query: string;
+  categories: string[];
+  technologies: string[];
+  sort: ProjectSort;
+}
+
+export interface FacetOption {
+  value: string;
+  count: number;
+}
+
+export interface ProjectFacets {
+  categories: FacetOption[];
+  technologies: FacetOption[];
+}
+
+export const SORT_OPTIONS: { label: string; value: ProjectSort }[] = [
+  { label: 'Featured', value: 'featured' },
+  { label: 'Newest', value: 'newest' },
+  { label: 'Oldest', value: 'oldest' },
+  { label: 'Title (A-Z)', value: 'title' },
+];
+
+export const DEFAULT_FILTERS: ProjectFilterState = {
+  query: '',
+  categories: [],
+  technologies: [],
+  sort: 'featured',
+};
+
+// Query string keys
+const PARAMS = {
+  query: 'q',
+  categories: 'category',
+  technologies: 'tech',
+  sort: 'sort',
+} as const;
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+// Count how many projects carry each value, most common first
+const countValues = (values: string[]): FacetOption[] => {
+  const counts = new Map<string, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+export const getProjectFacets = (projects: Project[]): ProjectFacets => ({
+  categories: countValues(projects.flatMap((project) => project.categories)),
+  technologies: countValues(projects.flatMap((project) => project.technologies)),
+});
+
+// Every search term must appear in the title, description or features
+const matchesQuery = (project: Project, query: string) => {
+  const terms = normalize(query).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+
+  const haystack = normalize(
+    [project.title, project.description, ...project.features].join(' ')
+  );
+  return terms.every((term) => haystack.includes(term));
+};
+
+// Selected values within a facet are OR-ed; facets are AND-ed together
+const matchesFacet = (values: string[], selected: string[]) => {
+  if (selected.length === 0) return true;
+  const normalized = values.map(normalize);
+  return selected.some((value) => normalized.includes(normalize(value)));
+};
+
+// Projects without a date sort after dated ones, newest id first
+const compareDates = (a: Project, b: Project) => {
+  if (a.date && b.date) return b.date.localeCompare(a.date);
+  if (a.date) return -1;
+  if (b.date) return 1;
+  return b.id - a.id;
+};
+
+const comparators: Record<ProjectSort, (a: Project, b: Project) => number> = {
+  featured: (a, b) => Number(!!b.featured) - Number(!!a.featured) || a.id - b.id,
+  newest: compareDates,
+  oldest: (a, b) => -compareDates(a, b),
+  title: (a, b) => a.title.localeCompare(b.title),
+};
+
+export const applyProjectFilters = (
+  projects: Project[],
+  { query, categories, technologies, sort }: ProjectFilterState
+): Project[] =>
+  projects
+    .filter(
+      (project) =>
+        matchesQuery(project, query) &&
+        matchesFacet(project.categories, categories) &&
+        matchesFacet(project.technologies, technologies)
+    )
+    .sort(comparators[sort]);
+
+export const hasActiveFilters = (state: ProjectFilterState) =>
+  state.query.trim() !== '' || state.categories.length > 0 || state.technologies.length > 0;
+
+const readList = (params: URLSearchParams, key: string) =>
+  params
+    .getAll(key)
+    .flatMap((value) => value.split(','))
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+export const parseFilterParams = (params: URLSearchParams): ProjectFilterState => {
+  const sort = params.get(PARAMS.sort) as ProjectSort | null;
+
+  return {
+    query: params.get(PARAMS.query) ?? '',
+    categories: readList(params, PARAMS.categories),
+    technologies: readList(params, PARAMS.technologies),
+    sort: sort && sort in comparators ? sort : DEFAULT_FILTERS.sort,
+  };
+};
+
+// Match hand-typed URL values (e.g. `category=security`) to their facet spelling
+export const canonicalizeFilters = (
+  state: ProjectFilterState,
+  facets: ProjectFacets
+): ProjectFilterState => {
+  const canonical = (selected: string[], options: FacetOption[]) =>
+    selected.map(
+      (value) =>
+        options.find((option) => normalize(option.value) === normalize(value))?.value ?? value
+    );
+
+  return {
+    ...state,
+    categories: canonical(state.categories, facets.categories),
+    technologies: canonical(state.technologies, facets.technologies),
+  };
+};
+
+/**
+ * Write filter state into `params`, leaving unrelated keys untouched.
+ * Default values are omitted to keep shared URLs short.
+ */
+export const toFilterParams = (
+  state: ProjectFilterState,
+  params: URLSearchParams = new URLSearchParams()
+): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  Object.values(PARAMS).forEach((key) => next.delete(key));
+
+  if (state.query.trim()) next.set(PARAMS.query, state.query);
+  if (state.categories.length > 0) next.set(PARAMS.categories, state.categories.join(','));
+  if (state.technologies.length > 0) {
+    next.set(PARAMS.technologies, state.technologies.join(','));
+  }
+  if (state.sort !== DEFAULT_FILTERS.sort) next.set(PARAMS.sort, state.sort);
+
+  return next;
+};
@@ -0,0 +1,42 @@
+/**
+ * Proof of work for the contact form: find a number `n` such that
+ * SHA-256(`<challenge>:<n>`) starts with `difficulty` zero bits. Cheap to
+ * check, but costly for a bot sending thousands of messages.
+ *
+ * Imported by the server too, so this module must not depend on the content
+ * modules or on the `@/` alias.
+ */
+
+export const leadingZeroBits = (bytes: Uint8Array) => {
+  let bits = 0;
+  for (const byte of bytes) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+};
+
+export const powInput = (challenge: string, nonce: number | string) => `${challenge}:${nonce}`;
+
+const encoder = new TextEncoder();
+
+/**
+ * Solves a challenge with Web Crypto. Hashing is asynchronous, so the page
+ * stays responsive while it runs; it gives up when `signal` is aborted.
+ */
+export const solveChallenge = async (
+  challenge: string,
+  difficulty: number,
+  signal?: AbortSignal
+) => {
+  for (let nonce = 0; ; nonce += 1) {
+    if (signal?.aborted) throw new Error('Proof of work cancelled');
+
+    const input = encoder.encode(powInput(challenge, nonce));
+    const digest = await crypto.subtle.digest('SHA-256', input);
+    if (leadingZeroBits(new Uint8Array(digest)) >= difficulty) return String(nonce);
+  }
+};
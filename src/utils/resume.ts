@@ -0,0 +1,108 @@
+/**
+ * Resume content assembled from the portfolio data.
+ * The same `Resume` drives the HTML page at /resume and the PDFs that the
+ * prerender step writes into the build output, one per template.
+ */
+
+import {
+  COLORS,
+  EDUCATION,
+  PERSONAL_INFO,
+  PROJECTS,
+  SITE,
+  SKILLS,
+  TOOLS,
+} from '@/utils/constants';
+import { portfolio } from '@/content/portfolio';
+
+export const RESUME_TEMPLATES = ['classic', 'modern'] as const;
+
+export type ResumeTemplate = (typeof RESUME_TEMPLATES)[number];
+
+export const DEFAULT_RESUME_TEMPLATE: ResumeTemplate = SITE.resumeTemplate ?? 'classic';
+
+export const RESUME_TEMPLATE_LABELS: Record<ResumeTemplate, string> = {
+  classic: 'Classic',
+  modern: 'Modern',
+};
+
+export const isResumeTemplate = (value: string | null): value is ResumeTemplate =>
+  RESUME_TEMPLATES.includes(value as ResumeTemplate);
+
+export const resumePdfPath = (template: ResumeTemplate): string => `/resume-${template}.pdf`;
+
+// PDFs written by the build: one per template, plus `/resume.pdf` in the default layout
+export const getResumeFiles = (): { path: string; template: ResumeTemplate }[] => [
+  { path: '/resume.pdf', template: DEFAULT_RESUME_TEMPLATE },
+  ...RESUME_TEMPLATES.map((template) => ({ path: resumePdfPath(template), template })),
+];
+
+export interface ResumeLink {
+  label: string;
+  url?: string | undefined;
+}
+
+export interface Resume {
+  name: string;
+  title: string;
+  summary: string;
+  contact: ResumeLink[];
+  links: ResumeLink[];
+  skills: { category: string; items: string[] }[];
+  tools: string[];
+  projects: {
+    title: string;
+    description: string;
+    technologies: string[];
+    date?: string | undefined;
+    link?: ResumeLink | undefined;
+  }[];
+  education: { degree: string; institution: string; duration: string; description: string }[];
+  // Print-friendly colors from the site palette
+  colors: { ink: string; accent: string; muted: string };
+}
+
+// Strip the scheme so links read like they would on paper
+const displayUrl = (url: string) => url.replace(/^https?:\/\//, '').replace(/\/$/, '');
+
+export const getResume = (): Resume => ({
+  name: PERSONAL_INFO.name,
+  title: PERSONAL_INFO.title,
+  summary: PERSONAL_INFO.summary,
+  contact: [
+    { label: PERSONAL_INFO.email, url: `mailto:${PERSONAL_INFO.email}` },
+    { label: PERSONAL_INFO.phone, url: `tel:${PERSONAL_INFO.phone.replace(/[^+\d]/g, '')}` },
+    { label: PERSONAL_INFO.location },
+    { label: displayUrl(SITE.url), url: SITE.url },
+  ],
+  links: portfolio.socials.map((social) => ({ label: displayUrl(social.url), url: social.url })),
+  skills: SKILLS.map((category) => ({
+    category: category.title,
+    items: category.skills.map((skill) => skill.name),
+  })),
+  tools: TOOLS,
+  // Featured work first, in content order otherwise
+  projects: [...PROJECTS]
+    .sort((a, b) => Number(!!b.featured) - Number(!!a.featured))
+    .map((project) => {
+      const url = project.demo ?? project.github;
+      return {
+        title: project.title,
+        description: project.description,
+        technologies: project.technologies,
+        date: project.date,
+        link: url ? { label: displayUrl(url), url } : undefined,
+      };
+    }),
+  education: EDUCATION.map(({ degree, institution, duration, description }) => ({
+    degree,
+    institution,
+    duration,
+    description,
+  })),
+  colors: {
+    ink: COLORS.primary.DEFAULT,
+    accent: COLORS.accent.dark,
+    muted: COLORS.text.muted,
+  },
+});
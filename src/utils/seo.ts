@@ -0,0 +1,316 @@
+/**
+ * Page metadata and structured data, derived from the portfolio content.
+ * The prerender step writes these into each page's <head>; the client keeps
+ * the title and description in sync while navigating.
+ */
+
+import type { BlogPost, EducationItem, Project } from '@/types/content';
+import {
+  BLOG_INFO,
+  BLOG_POSTS,
+  EDUCATION,
+  FEATURED_SKILLS,
+  PERSONAL_INFO,
+  PROJECTS,
+  SITE,
+} from '@/utils/constants';
+import { portfolio } from '@/content/portfolio';
+import { SHARE_IMAGE_SIZE, shareImagePaths } from '@/utils/shareImages';
+
+type JsonLd = Record<string, unknown>;
+
+export interface PageMeta {
+  title: string;
+  description: string;
+  path: string;
+  type: 'website' | 'profile' | 'article';
+  image?: { url: string; alt: string; width?: number; height?: number } | undefined;
+  publishedTime?: string;
+  modifiedTime?: string;
+  tags?: string[];
+  // Kept out of search results whatever `site.robots` says
+  noindex?: boolean;
+  jsonLd: JsonLd[];
+}
+
+export const absoluteUrl = (path: string): string =>
+  /^https?:\/\//.test(path) ? path : `${SITE.url}${path === '/' ? '' : path}`;
+
+const PERSON_ID = `${SITE.url}/#person`;
+const WEBSITE_ID = `${SITE.url}/#website`;
+const person = { '@id': PERSON_ID };
+
+const projectPath = (project: Project) => `/projects/${project.slug}`;
+const postPath = (post: BlogPost) => `/blog/${post.slug}`;
+
+// A card rendered by the build (see `shareImages.ts`), so its size is known
+const generatedImage = (path: string, alt: string): PageMeta['image'] => ({
+  url: absoluteUrl(path),
+  alt,
+  ...SHARE_IMAGE_SIZE,
+});
+
+// `site.image` in content/site.yaml replaces the generated card for the home page and blog
+const defaultImage = (path: string, alt: string): PageMeta['image'] =>
+  SITE.image
+    ? { url: absoluteUrl(SITE.image), alt: SITE.imageAlt ?? SITE.title }
+    : generatedImage(path, alt);
+
+// --- JSON-LD nodes ---
+
+const websiteSchema = (): JsonLd => ({
+  '@type': 'WebSite',
+  '@id': WEBSITE_ID,
+  url: SITE.url,
+  name: SITE.title,
+  description: SITE.description,
+  inLanguage: SITE.language,
+  publisher: person,
+});
+
+const credentialSchema = (item: EducationItem): JsonLd => ({
+  '@type': 'EducationalOccupationalCredential',
+  '@id': `${SITE.url}/#credential-${item.id}`,
+  name: item.degree,
+  description: item.description,
+  credentialCategory: 'degree',
+  recognizedBy: { '@type': 'EducationalOrganization', name: item.institution },
+  temporalCoverage: item.duration,
+});
+
+const personSchema = (): JsonLd => ({
+  '@type': 'Person',
+  '@id': PERSON_ID,
+  name: PERSONAL_INFO.name,
+  jobTitle: PERSONAL_INFO.title,
+  description: PERSONAL_INFO.summary,
+  url: SITE.url,
+  email: `mailto:${PERSONAL_INFO.email}`,
+  telephone: PERSONAL_INFO.phone,
+  homeLocation: { '@type': 'Place', name: PERSONAL_INFO.location },
+  sameAs: portfolio.socials.map((social) => social.url),
+  knowsAbout: [
+    ...new Set([...PERSONAL_INFO.techStack, ...FEATURED_SKILLS.map((skill) => skill.name)]),
+  ],
+  alumniOf: [...new Set(EDUCATION.map((item) => item.institution))].map((name) => ({
+    '@type': 'EducationalOrganization',
+    name,
+  })),
+  hasCredential: EDUCATION.map((item) => ({ '@id': `${SITE.url}/#credential-${item.id}` })),
+});
+
+// Projects with a public repository are source code; the rest are creative works
+const projectSchema = (project: Project): JsonLd => ({
+  '@type': project.github ? 'SoftwareSourceCode' : 'CreativeWork',
+  '@id': `${absoluteUrl(projectPath(project))}#work`,
+  name: project.title,
+  description: project.description,
+  url: absoluteUrl(projectPath(project)),
+  author: person,
+  keywords: [...project.categories, ...project.technologies].join(', '),
+  ...(project.date && { dateCreated: project.date }),
+  ...(project.image && { image: absoluteUrl(project.image) }),
+  ...(project.github && {
+    codeRepository: project.github,
+    programmingLanguage: project.technologies,
+  }),
+  ...(project.demo && { sameAs: project.demo }),
+});
+
+const postSchema = (post: BlogPost): JsonLd => ({
+  '@type': 'BlogPosting',
+  '@id': `${absoluteUrl(postPath(post))}#post`,
+  headline: post.title,
+  description: post.summary,
+  url: absoluteUrl(postPath(post)),
+  datePublished: post.date,
+  dateModified: post.updated ?? post.date,
+  keywords: post.tags.join(', '),
+  author: person,
+  inLanguage: SITE.language,
+  ...(post.cover && { image: absoluteUrl(post.cover) }),
+});
+
+// --- Per-route metadata ---
+
+const homeMeta = (): PageMeta => ({
+  title: SITE.title,
+  description: SITE.description,
+  path: '/',
+  type: 'profile',
+  image: defaultImage(shareImagePaths.home, `${PERSONAL_INFO.name} — ${PERSONAL_INFO.title}`),
+  jsonLd: [
+    websiteSchema(),
+    personSchema(),
+    ...EDUCATION.map(credentialSchema),
+    ...PROJECTS.map(projectSchema),
+  ],
+});
+
+const projectMeta = (project: Project): PageMeta => ({
+  title: `${project.title} | ${PERSONAL_INFO.name}`,
+  description: project.description,
+  path: projectPath(project),
+  type: 'article',
+  image: generatedImage(shareImagePaths.project(project), project.title),
+  ...(project.date && { publishedTime: project.date }),
+  tags: project.technologies,
+  jsonLd: [projectSchema(project), personSchema()],
+});
+
+const blogMeta = (): PageMeta => ({
+  title: `${BLOG_INFO.title} | ${PERSONAL_INFO.name}`,
+  description: BLOG_INFO.description,
+  path: '/blog',
+  type: 'website',
+  image: defaultImage(shareImagePaths.blog, `${PERSONAL_INFO.name} — ${BLOG_INFO.title}`),
+  jsonLd: [
+    {
+      '@type': 'Blog',
+      '@id': `${absoluteUrl('/blog')}#blog`,
+      name: `${PERSONAL_INFO.name} — ${BLOG_INFO.title}`,
+      description: BLOG_INFO.description,
+      url: absoluteUrl('/blog'),
+      author: person,
+      blogPost: BLOG_POSTS.map((post) => ({ '@id': `${absoluteUrl(postPath(post))}#post` })),
+    },
+    ...BLOG_POSTS.map(postSchema),
+    personSchema(),
+  ],
+});
+
+const postMeta = (post: BlogPost): PageMeta => ({
+  title: `${post.title} | ${PERSONAL_INFO.name}`,
+  description: post.summary,
+  path: postPath(post),
+  type: 'article',
+  // Covers may be SVG, which link previews don't render; the card is always a PNG
+  image: generatedImage(shareImagePaths.post(post), post.title),
+  publishedTime: post.date,
+  modifiedTime: post.updated ?? post.date,
+  tags: post.tags,
+  jsonLd: [postSchema(post), personSchema()],
+});
+
+const resumeMeta = (): PageMeta => ({
+  title: `Resume | ${PERSONAL_INFO.name}`,
+  description: `${PERSONAL_INFO.name}, ${PERSONAL_INFO.title}: ${PERSONAL_INFO.summary}`,
+  path: '/resume',
+  type: 'profile',
+  image: defaultImage(shareImagePaths.home, `${PERSONAL_INFO.name} — ${PERSONAL_INFO.title}`),
+  jsonLd: [
+    {
+      '@type': 'ProfilePage',
+      '@id': `${absoluteUrl('/resume')}#page`,
+      url: absoluteUrl('/resume'),
+      name: `${PERSONAL_INFO.name} — Resume`,
+      mainEntity: person,
+      isPartOf: { '@id': WEBSITE_ID },
+    },
+    personSchema(),
+    ...EDUCATION.map(credentialSchema),
+  ],
+});
+
+const adminMeta = (): PageMeta => ({
+  title: `Inbox | ${PERSONAL_INFO.name}`,
+  description: 'Messages sent through the contact form.',
+  path: '/admin',
+  type: 'website',
+  noindex: true,
+  jsonLd: [],
+});
+
+// Metadata for any path; unknown paths fall back to the home page
+export const getPageMeta = (pathname: string): PageMeta => {
+  const [, section, slug] = pathname.replace(/\/+$/, '').split('/');
+
+  if (section === 'projects') {
+    const project = PROJECTS.find((item) => item.slug === slug);
+    if (project) return projectMeta(project);
+  }
+  if (section === 'resume') return resumeMeta();
+  if (section === 'admin') return adminMeta();
+  if (section === 'blog') {
+    if (!slug) return blogMeta();
+    const post = BLOG_POSTS.find((item) => item.slug === slug);
+    if (post) return postMeta(post);
+  }
+  return homeMeta();
+};
+
+export const robotsContent = (meta: PageMeta) =>
+  meta.noindex || SITE.robots?.index === false ? 'noindex, nofollow' : 'index, follow';
+
+// --- HTML rendering ---
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// `<` is escaped so text in the data can never close the script tag
+const serializeJsonLd = (nodes: JsonLd[]) =>
+  JSON.stringify({ '@context': 'https://schema.org', '@graph': nodes }).replace(/</g, '\\u003c');
+
+// `en-US` → `en_US`, as Open Graph expects
+const ogLocale = (language: string) => language.replace('-', '_');
+
+/**
+ * <head> tags for a page: title, description, robots, canonical link,
+ * Open Graph, Twitter card, feed links and JSON-LD.
+ */
+export const renderHeadTags = (meta: PageMeta): string => {
+  const url = absoluteUrl(meta.path);
+  const feedTitle = escapeHtml(`${PERSONAL_INFO.name} — Blog`);
+  const property = (name: string, content: string) =>
+    `<meta property="${name}" content="${escapeHtml(content)}" />`;
+  const named = (name: string, content: string) =>
+    `<meta name="${name}" content="${escapeHtml(content)}" />`;
+
+  return [
+    `<title>${escapeHtml(meta.title)}</title>`,
+    named('description', meta.description),
+    named('author', PERSONAL_INFO.name),
+    named('robots', robotsContent(meta)),
+    `<link rel="canonical" href="${escapeHtml(url)}" />`,
+
+    property('og:type', meta.type),
+    property('og:url', url),
+    property('og:title', meta.title),
+    property('og:description', meta.description),
+    property('og:site_name', SITE.title),
+    property('og:locale', ogLocale(SITE.language)),
+    ...(meta.image
+      ? [
+          property('og:image', meta.image.url),
+          property('og:image:alt', meta.image.alt),
+          ...(meta.image.width && meta.image.height
+            ? [
+                property('og:image:width', String(meta.image.width)),
+                property('og:image:height', String(meta.image.height)),
+              ]
+            : []),
+        ]
+      : []),
+    ...(meta.type === 'article'
+      ? [
+          ...(meta.publishedTime ? [property('article:published_time', meta.publishedTime)] : []),
+          ...(meta.modifiedTime ? [property('article:modified_time', meta.modifiedTime)] : []),
+          ...(meta.tags ?? []).map((tag) => property('article:tag', tag)),
+        ]
+      : []),
+
+    named('twitter:card', meta.image ? 'summary_large_image' : 'summary'),
+    named('twitter:title', meta.title),
+    named('twitter:description', meta.description),
+    ...(meta.image
+      ? [named('twitter:image', meta.image.url), named('twitter:image:alt', meta.image.alt)]
+      : []),
+    ...(SITE.twitter ? [named('twitter:creator', SITE.twitter)] : []),
+
+    `<link rel="alternate" type="application/rss+xml" title="${feedTitle}" href="/rss.xml" />`,
+    `<link rel="alternate" type="application/atom+xml" title="${feedTitle}" href="/atom.xml" />`,
+    `<link rel="alternate" type="application/feed+json" title="${feedTitle}" href="/feed.json" />`,
+
+    `<script type="application/ld+json">${serializeJsonLd(meta.jsonLd)}</script>`,
+  ].join('\n    ');
+};
@@ -0,0 +1,96 @@
+/**
+ * Social preview images generated at build time.
+ * Each entry describes one 1200x630 card; the prerender step renders them
+ * into the build output and `seo.ts` points the Open Graph tags at them.
+ */
+
+import type { BlogPost, Project } from '@/types/content';
+import { BLOG_INFO, BLOG_POSTS, COLORS, PERSONAL_INFO, PROJECTS, SITE } from '@/utils/constants';
+
+export const SHARE_IMAGE_SIZE = { width: 1200, height: 630 } as const;
+
+export interface ShareImageTheme {
+  background: string;
+  surface: string;
+  accent: string;
+  text: string;
+  textSecondary: string;
+  muted: string;
+}
+
+export interface ShareImage {
+  // Site-relative output path, e.g. `/og/projects/realtime-chat.png`
+  path: string;
+  eyebrow: string;
+  title: string;
+  description: string;
+  tags: string[];
+  author: { name: string; title: string; initials: string };
+  domain: string;
+  theme: ShareImageTheme;
+}
+
+export const SHARE_THEME: ShareImageTheme = {
+  background: COLORS.primary.DEFAULT,
+  surface: COLORS.primary.light,
+  accent: COLORS.accent.DEFAULT,
+  text: COLORS.text.primary,
+  textSecondary: COLORS.text.secondary,
+  muted: COLORS.text.muted,
+};
+
+export const shareImagePaths = {
+  home: '/og/home.png',
+  blog: '/og/blog.png',
+  project: (project: Project) => `/og/projects/${project.slug}.png`,
+  post: (post: BlogPost) => `/og/blog/${post.slug}.png`,
+};
+
+const card = (image: Pick<ShareImage, 'path' | 'eyebrow' | 'title' | 'description'> & {
+  tags?: string[];
+}): ShareImage => ({
+  tags: [],
+  ...image,
+  author: {
+    name: PERSONAL_INFO.name,
+    title: PERSONAL_INFO.title,
+    initials: PERSONAL_INFO.initials,
+  },
+  domain: new URL(SITE.url).host,
+  theme: SHARE_THEME,
+});
+
+// Every card the build renders: the home page, the blog index, each project and each post
+export const getShareImages = (): ShareImage[] => [
+  card({
+    path: shareImagePaths.home,
+    eyebrow: PERSONAL_INFO.title,
+    title: PERSONAL_INFO.name,
+    description: PERSONAL_INFO.summary,
+    tags: PERSONAL_INFO.techStack.slice(0, 5),
+  }),
+  card({
+    path: shareImagePaths.blog,
+    eyebrow: 'Blog',
+    title: BLOG_INFO.title,
+    description: BLOG_INFO.description,
+  }),
+  ...PROJECTS.map((project) =>
+    card({
+      path: shareImagePaths.project(project),
+      eyebrow: `Project · ${project.categories.join(' · ')}`,
+      title: project.title,
+      description: project.description,
+      tags: project.technologies.slice(0, 5),
+    })
+  ),
+  ...BLOG_POSTS.map((post) =>
+    card({
+      path: shareImagePaths.post(post),
+      eyebrow: `Blog · ${post.readingTime} min read`,
+      title: post.title,
+      description: post.summary,
+      tags: post.tags.map((tag) => `#${tag}`),
+    })
+  ),
+];
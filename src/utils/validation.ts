@@ -0,0 +1,220 @@
+/**
+ * The contact form's rules, declared once. ContactForm turns them into
+ * react-hook-form rules with `formRules` and the server checks submissions
+ * with `validateContact`, so both report the same message for the same input.
+ *
+ * Imported by the server too, so this module must not depend on the content
+ * modules, on the `@/` alias or on browser-only packages.
+ */
+
+import type {
+  ContactField,
+  ContactFieldErrors,
+  ContactFormData,
+  InquiryDetails,
+  InquiryField,
+  InquiryType,
+} from '../types/contact';
+
+interface FieldRule {
+  label: string;
+  minLength?: number;
+  maxLength: number;
+  pattern?: RegExp;
+  // Shown when the value doesn't match `pattern`
+  patternMessage?: string;
+  // For fields picked from a list: each allowed value and its label
+  options?: Readonly<Record<string, string>>;
+}
+
+type FieldUse = 'required' | 'optional';
+
+/**
+ * The kinds of inquiry the form offers and the details each one asks for.
+ * Details a type doesn't ask for are dropped from its submissions.
+ */
+export const INQUIRY_TYPES = {
+  general: { label: 'General', fields: {} },
+  job: {
+    label: 'Job offer',
+    fields: { company: 'required', role: 'required', location: 'required' },
+  },
+  freelance: {
+    label: 'Freelance project',
+    fields: { company: 'optional', budget: 'required', timeline: 'required' },
+  },
+  collaboration: {
+    label: 'Collaboration',
+    fields: { company: 'optional', timeline: 'optional' },
+  },
+} as const satisfies Record<
+  InquiryType,
+  { label: string; fields: Partial<Record<InquiryField, FieldUse>> }
+>;
+
+export const BUDGET_RANGES = {
+  'under-5k': 'Under $5k',
+  '5k-15k': '$5k – $15k',
+  '15k-50k': '$15k – $50k',
+  '50k-plus': '$50k or more',
+  'not-sure': 'Not sure yet',
+};
+
+export const TIMELINES = {
+  asap: 'As soon as possible',
+  '1-3-months': 'Within 1–3 months',
+  '3-plus-months': 'In 3 months or more',
+  flexible: 'Flexible',
+};
+
+// Lengths count the trimmed value
+export const VALIDATION = {
+  name: {
+    label: 'Name',
+    minLength: 2,
+    maxLength: 100,
+  },
+  email: {
+    label: 'Email',
+    maxLength: 254,
+    pattern: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
+    patternMessage: 'Invalid email address',
+  },
+  inquiryType: {
+    label: 'Inquiry type',
+    maxLength: 20,
+    options: Object.fromEntries(
+      Object.entries(INQUIRY_TYPES).map(([type, { label }]) => [type, label])
+    ),
+  },
+  company: {
+    label: 'Company',
+    minLength: 2,
+    maxLength: 100,
+  },
+  role: {
+    label: 'Role',
+    minLength: 2,
+    maxLength: 100,
+  },
+  budget: {
+    label: 'Budget',
+    maxLength: 20,
+    options: BUDGET_RANGES,
+  },
+  timeline: {
+    label: 'Timeline',
+    maxLength: 20,
+    options: TIMELINES,
+  },
+  location: {
+    label: 'Location',
+    minLength: 2,
+    maxLength: 100,
+  },
+  message: {
+    label: 'Message',
+    minLength: 10,
+    maxLength: 5000,
+  },
+} as const satisfies Record<ContactField, FieldRule>;
+
+export const CONTACT_FIELDS = Object.keys(VALIDATION) as ContactField[];
+
+export const INQUIRY_FIELDS: InquiryField[] = ['company', 'role', 'budget', 'timeline', 'location'];
+
+const isInquiryField = (field: ContactField): field is InquiryField =>
+  (INQUIRY_FIELDS as ContactField[]).includes(field);
+
+export const isInquiryType = (value: unknown): value is InquiryType =>
+  typeof value === 'string' && Object.keys(INQUIRY_TYPES).includes(value);
+
+// Whether an inquiry type asks for a detail, and if it has to be filled in
+export const inquiryFieldUse = (type: InquiryType, field: InquiryField): FieldUse | undefined =>
+  (INQUIRY_TYPES[type].fields as Partial<Record<InquiryField, FieldUse>>)[field];
+
+const isRequired = (field: ContactField, inquiryType: InquiryType) =>
+  !isInquiryField(field) || inquiryFieldUse(inquiryType, field) === 'required';
+
+// The first rule `value` breaks, or undefined when it is valid
+export const fieldError = (
+  field: ContactField,
+  value: string,
+  inquiryType: InquiryType = 'general'
+): string | undefined => {
+  const rule: FieldRule = VALIDATION[field];
+  const text = value.trim();
+
+  if (text.length === 0) {
+    return isRequired(field, inquiryType) ? `${rule.label} is required` : undefined;
+  }
+  if (rule.options && !Object.keys(rule.options).includes(text)) {
+    return `${rule.label} must be one of the listed options`;
+  }
+  if (rule.minLength !== undefined && text.length < rule.minLength) {
+    return `${rule.label} must be at least ${rule.minLength} characters`;
+  }
+  if (text.length > rule.maxLength) {
+    return `${rule.label} must be at most ${rule.maxLength} characters`;
+  }
+  if (rule.pattern && !rule.pattern.test(text)) {
+    return rule.patternMessage ?? `${rule.label} is invalid`;
+  }
+  return undefined;
+};
+
+/**
+ * Rules for react-hook-form's `register`. `validate` runs the same checks
+ * as the server; `required` lets the form mark the input as required.
+ */
+export const formRules = (field: ContactField, inquiryType: InquiryType = 'general') => ({
+  required: isRequired(field, inquiryType) && `${VALIDATION[field].label} is required`,
+  validate: (value: string) => fieldError(field, value ?? '', inquiryType) ?? true,
+});
+
+/**
+ * Checks a request body against the schema. Values come back trimmed, with
+ * the details the inquiry type doesn't ask for emptied; `errors` is null
+ * when every field is valid. Bodies without an inquiry type are general.
+ */
+export const validateContact = (body: unknown) => {
+  const input = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>;
+  const values = {} as Record<ContactField, string>;
+  const errors: ContactFieldErrors = {};
+
+  for (const field of CONTACT_FIELDS) {
+    const value = input[field];
+    values[field] = typeof value === 'string' ? value.trim() : '';
+  }
+  values.inquiryType ||= 'general';
+
+  const inquiryType = isInquiryType(values.inquiryType) ? values.inquiryType : 'general';
+  for (const field of CONTACT_FIELDS) {
+    if (isInquiryField(field) && !inquiryFieldUse(inquiryType, field)) {
+      values[field] = '';
+      continue;
+    }
+    const error = fieldError(field, values[field], inquiryType);
+    if (error) errors[field] = error;
+  }
+
+  return {
+    values: values as ContactFormData,
+    errors: Object.keys(errors).length > 0 ? errors : null,
+  };
+};
+
+// The details a submission's inquiry type asks for that the sender filled in
+export const inquiryDetails = (data: ContactFormData): Partial<InquiryDetails> =>
+  Object.fromEntries(
+    INQUIRY_FIELDS.filter((field) => inquiryFieldUse(data.inquiryType, field) && data[field]).map(
+      (field) => [field, data[field]]
+    )
+  );
+
+// Allowed values and their labels, for fields picked from a list
+export const fieldOptions = (field: ContactField) => (VALIDATION[field] as FieldRule).options;
+
+// How a value reads in emails and the inbox: the label of a listed option, or itself
+export const describeValue = (field: ContactField, value: string) =>
+  fieldOptions(field)?.[value] ?? value;
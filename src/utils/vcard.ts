@@ -0,0 +1,83 @@
+/**
+ * vCard 4.0 (RFC 6350) contact card built from the profile and social links,
+ * for the "Save contact" action and the QR code in the Contact section.
+ */
+
+import { PERSONAL_INFO, SITE, SOCIAL_LINKS } from '@/utils/constants';
+import { portfolio } from '@/content/portfolio';
+
+// Backslashes, commas, semicolons and newlines are escaped in text values
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/,/g, '\\,').replace(/;/g, '\\;').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets continue on the next line after a space
+const fold = (line: string): string => {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (new TextEncoder().encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  return [...parts, current].join('\r\n ');
+};
+
+const splitName = (name: string) => {
+  const words = name.trim().split(/\s+/);
+  const family = words.length > 1 ? words.pop()! : '';
+  return { given: words.join(' '), family };
+};
+
+export const VCARD_FILE_NAME = `${PERSONAL_INFO.name.toLowerCase().replace(/\s+/g, '-')}.vcf`;
+
+interface VCardOptions {
+  // Leave out the summary and duplicate profile fields to keep QR codes scannable
+  compact?: boolean;
+}
+
+export const buildVCard = ({ compact = false }: VCardOptions = {}): string => {
+  const { given, family } = splitName(PERSONAL_INFO.name);
+  const phone = SOCIAL_LINKS.phone.replace(/^tel:/, '').replace(/[^+\d]/g, '');
+
+  const lines = [
+    'BEGIN:VCARD',
+    'VERSION:4.0',
+    'KIND:individual',
+    `FN:${escapeText(PERSONAL_INFO.name)}`,
+    `N:${escapeText(family)};${escapeText(given)};;;`,
+    `TITLE:${escapeText(PERSONAL_INFO.title)}`,
+    `EMAIL;TYPE=work:${SOCIAL_LINKS.email.replace(/^mailto:/, '')}`,
+    `TEL;VALUE=uri;TYPE="voice,cell":tel:${phone}`,
+    `ADR;LABEL="${PERSONAL_INFO.location.replace(/"/g, "'")}":;;;${escapeText(
+      PERSONAL_INFO.shortLocation
+    )};;;`,
+    `URL:${SITE.url}`,
+    ...portfolio.socials.map((social) => `URL;TYPE=${social.id}:${social.url}`),
+    // Apple Contacts and others show these as social profiles rather than plain links
+    ...(compact
+      ? []
+      : [
+          ...portfolio.socials.map((social) => `X-SOCIALPROFILE;TYPE=${social.id}:${social.url}`),
+          `NOTE:${escapeText(PERSONAL_INFO.summary)}`,
+        ]),
+    'END:VCARD',
+  ];
+
+  return `${lines.map(fold).join('\r\n')}\r\n`;
+};
+
+// Save the card through a temporary object URL
+export const downloadVCard = () => {
+  const url = URL.createObjectURL(new Blob([buildVCard()], { type: 'text/vcard;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = VCARD_FILE_NAME;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -27,3 +27,42 @@ declare module '*.png' {
   const content: string
   export default content
 }
+
+// Validated portfolio content, generated from `content/` by plugins/content
+declare module 'virtual:content/site' {
+  const site: import('@/types/content').SiteConfig
+  export default site
+}
+
+declare module 'virtual:content/profile' {
+  const profile: import('@/types/content').Person
+  export default profile
+}
+
+declare module 'virtual:content/skills' {
+  const skills: {
+    categories: import('@/types/content').SkillCategory[]
+    tools: string[]
+  }
+  export default skills
+}
+
+declare module 'virtual:content/projects' {
+  const projects: import('@/types/content').Project[]
+  export default projects
+}
+
+declare module 'virtual:content/education' {
+  const education: import('@/types/content').EducationItem[]
+  export default education
+}
+
+declare module 'virtual:content/socials' {
+  const socials: import('@/types/content').SocialLink[]
+  export default socials
+}
+
+declare module 'virtual:content/posts' {
+  const posts: import('@/types/content').BlogPost[]
+  export default posts
+}
@@ -1,26 +1,61 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
+import mdx from '@mdx-js/rollup';
+import remarkFrontmatter from 'remark-frontmatter';
+import remarkGfm from 'remark-gfm';
+import rehypeHighlight from 'rehype-highlight';
 import path from 'path';
+import { contentPlugin } from './plugins/content';
+import { prerenderPlugin } from './plugins/prerender';
+import { resumePlugin } from './plugins/resume';
 
-export default defineConfig({
-  plugins: [react()],
+export default defineConfig(({ isSsrBuild }) => ({
+  plugins: [
+    // MDX must compile before the React plugin sees the resulting JSX.
+    // Frontmatter is validated by the content plugin and dropped from the output.
+    {
+      enforce: 'pre',
+      ...mdx({
+        remarkPlugins: [remarkFrontmatter, remarkGfm],
+        rehypePlugins: [rehypeHighlight],
+      }),
+    },
+    react({ include: /\.(mdx|js|jsx|ts|tsx)$/ }),
+    contentPlugin(),
+    prerenderPlugin(),
+    resumePlugin(),
+  ],
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),
     },
   },
+  server: {
+    // The Express server in `server/` (npm run server) handles the contact form and inbox API
+    proxy: {
+      // xfwd passes the visitor's address on; the server reads it with TRUST_PROXY=loopback
+      '/api': { target: 'http://localhost:3001', xfwd: true },
+    },
+  },
+  ssr: {
+    // gsap's ESM files are not marked as modules, so Node cannot import them as-is
+    noExternal: ['gsap'],
+  },
   optimizeDeps: {
     include: ['three', '@react-three/fiber', '@react-three/drei'],
   },
   build: {
     rollupOptions: {
-      output: {
-        manualChunks: {
-          three: ['three', '@react-three/fiber', '@react-three/drei'],
-          gsap: ['gsap'],
-          spline: ['@splinetool/react-spline'],
-        },
-      },
+      // The prerender (SSR) build leaves dependencies external, so nothing to split
+      output: isSsrBuild
+        ? {}
+        : {
+            manualChunks: {
+              three: ['three', '@react-three/fiber', '@react-three/drei'],
+              gsap: ['gsap'],
+              spline: ['@splinetool/react-spline'],
+            },
+          },
     },
   },
-});
+}));